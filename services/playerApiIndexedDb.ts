@@ -1,5 +1,6 @@
-import type { Player } from '~/types';
+import type { GameResult, Player, RatingAdjustment, ScheduleSession } from '~/types';
 import type { ApiResponse, IPlayerApi } from '~/types/api';
+import { cloneSchedule } from '~/utils/scheduleUtils';
 
 /**
  * IndexedDB implementation of the Player API
@@ -8,7 +9,10 @@ import type { ApiResponse, IPlayerApi } from '~/types/api';
 export class PlayerApiIndexedDb implements IPlayerApi {
   private dbName = 'pickleballApp';
   private storeName = 'players';
-  private version = 1;
+  private resultsStoreName = 'gameResults';
+  private ratingsStoreName = 'ratingAdjustments';
+  private sessionsStoreName = 'sessions';
+  private version = 4;
   private db: IDBDatabase | null = null;
 
   /**
@@ -43,6 +47,24 @@ export class PlayerApiIndexedDb implements IPlayerApi {
             const store = db.createObjectStore(this.storeName, { keyPath: 'id' });
             store.createIndex('name', 'name', { unique: false });
           }
+
+          // Create game results store if it doesn't exist
+          if (!db.objectStoreNames.contains(this.resultsStoreName)) {
+            const resultsStore = db.createObjectStore(this.resultsStoreName, { keyPath: 'id' });
+            resultsStore.createIndex('scheduleId', 'scheduleId', { unique: false });
+          }
+
+          // Create rating adjustments store if it doesn't exist
+          if (!db.objectStoreNames.contains(this.ratingsStoreName)) {
+            const ratingsStore = db.createObjectStore(this.ratingsStoreName, { keyPath: 'id' });
+            ratingsStore.createIndex('playerId', 'playerId', { unique: false });
+          }
+
+          // Create schedule sessions store if it doesn't exist
+          if (!db.objectStoreNames.contains(this.sessionsStoreName)) {
+            const sessionsStore = db.createObjectStore(this.sessionsStoreName, { keyPath: 'id' });
+            sessionsStore.createIndex('updatedAt', 'updatedAt', { unique: false });
+          }
         };
       });
 
@@ -273,6 +295,338 @@ export class PlayerApiIndexedDb implements IPlayerApi {
     }
   }
 
+  /**
+   * Get all recorded game results
+   */
+  async getGameResults(): Promise<ApiResponse<GameResult[]>> {
+    if (!import.meta.client) {
+      return { success: true, data: [], message: 'IndexedDB not available on server.' };
+    }
+    try {
+      await this.ensureInitialized();
+
+      const transaction = this.db?.transaction([this.resultsStoreName], 'readonly');
+      if (!transaction) {
+        throw new Error('Database not initialized');
+      }
+      const store = transaction.objectStore(this.resultsStoreName);
+
+      const results = await new Promise<GameResult[]>((resolve, reject) => {
+        const request = store.getAll();
+        request.onsuccess = () => resolve(request.result || []);
+        request.onerror = () => reject(request.error);
+      });
+
+      return {
+        success: true,
+        data: results,
+        message: `Retrieved ${results.length} game results`
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return { success: false, message: 'Failed to get game results', error: message };
+    }
+  }
+
+  /**
+   * Create or replace the recorded result for a scheduled game.
+   * Results are keyed by schedule and game so re-entering a score overwrites it.
+   */
+  async saveGameResult(result: Omit<GameResult, 'id'>): Promise<ApiResponse<GameResult>> {
+    if (!import.meta.client) {
+      return { success: false, message: 'Cannot save game result on server.' };
+    }
+    try {
+      await this.ensureInitialized();
+
+      const savedResult: GameResult = {
+        ...result,
+        id: `${result.scheduleId}:${result.gameId}`
+      };
+
+      const transaction = this.db?.transaction([this.resultsStoreName], 'readwrite');
+      if (!transaction) {
+        throw new Error('Database not initialized');
+      }
+      const store = transaction.objectStore(this.resultsStoreName);
+
+      await new Promise<void>((resolve, reject) => {
+        const request = store.put(savedResult);
+        request.onsuccess = () => resolve();
+        request.onerror = () => reject(request.error);
+      });
+
+      return {
+        success: true,
+        data: savedResult,
+        message: 'Game result saved successfully'
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return { success: false, message: 'Failed to save game result', error: message };
+    }
+  }
+
+  /**
+   * Delete a recorded game result
+   */
+  async deleteGameResult(id: string): Promise<ApiResponse> {
+    if (!import.meta.client) {
+      return { success: false, message: 'Cannot delete game result on server.' };
+    }
+    try {
+      await this.ensureInitialized();
+
+      const transaction = this.db?.transaction([this.resultsStoreName], 'readwrite');
+      if (!transaction) {
+        throw new Error('Database not initialized');
+      }
+      const store = transaction.objectStore(this.resultsStoreName);
+
+      await new Promise<void>((resolve, reject) => {
+        const request = store.delete(id);
+        request.onsuccess = () => resolve();
+        request.onerror = () => reject(request.error);
+      });
+
+      return {
+        success: true,
+        message: 'Game result deleted successfully'
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return { success: false, message: 'Failed to delete game result', error: message };
+    }
+  }
+
+  /**
+   * Get all rating adjustments from IndexedDB
+   */
+  async getRatingAdjustments(): Promise<ApiResponse<RatingAdjustment[]>> {
+    if (!import.meta.client) {
+      return { success: true, data: [], message: 'IndexedDB not available on server.' };
+    }
+    try {
+      await this.ensureInitialized();
+
+      const transaction = this.db?.transaction([this.ratingsStoreName], 'readonly');
+      if (!transaction) {
+        throw new Error('Database not initialized');
+      }
+      const store = transaction.objectStore(this.ratingsStoreName);
+
+      const adjustments = await new Promise<RatingAdjustment[]>((resolve, reject) => {
+        const request = store.getAll();
+        request.onsuccess = () => resolve(request.result || []);
+        request.onerror = () => reject(request.error);
+      });
+
+      return {
+        success: true,
+        data: adjustments,
+        message: `Retrieved ${adjustments.length} rating adjustments`
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return { success: false, message: 'Failed to get rating adjustments', error: message };
+    }
+  }
+
+  /**
+   * Save newly proposed rating adjustments
+   */
+  async createRatingAdjustments(adjustments: Omit<RatingAdjustment, 'id'>[]): Promise<ApiResponse<RatingAdjustment[]>> {
+    if (!import.meta.client) {
+      return { success: false, message: 'Cannot save rating adjustments on server.' };
+    }
+    try {
+      await this.ensureInitialized();
+
+      const transaction = this.db?.transaction([this.ratingsStoreName], 'readwrite');
+      if (!transaction) {
+        throw new Error('Database not initialized');
+      }
+      const store = transaction.objectStore(this.ratingsStoreName);
+
+      const savedAdjustments: RatingAdjustment[] = adjustments.map(adjustment => ({
+        ...adjustment,
+        id: crypto.randomUUID()
+      }));
+
+      for (const adjustment of savedAdjustments) {
+        await new Promise<void>((resolve, reject) => {
+          const request = store.add(adjustment);
+          request.onsuccess = () => resolve();
+          request.onerror = () => reject(request.error);
+        });
+      }
+
+      return {
+        success: true,
+        data: savedAdjustments,
+        message: `Saved ${savedAdjustments.length} rating adjustments`
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return { success: false, message: 'Failed to save rating adjustments', error: message };
+    }
+  }
+
+  /**
+   * Update the review status of a rating adjustment
+   */
+  async updateRatingAdjustment(
+    id: string,
+    updates: Pick<RatingAdjustment, 'status' | 'reviewedAt'>
+  ): Promise<ApiResponse<RatingAdjustment>> {
+    if (!import.meta.client) {
+      return { success: false, message: 'Cannot update rating adjustment on server.' };
+    }
+    try {
+      await this.ensureInitialized();
+
+      const transaction = this.db?.transaction([this.ratingsStoreName], 'readwrite');
+      if (!transaction) {
+        throw new Error('Database not initialized');
+      }
+      const store = transaction.objectStore(this.ratingsStoreName);
+
+      const existing = await new Promise<RatingAdjustment | undefined>((resolve, reject) => {
+        const request = store.get(id);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+
+      if (!existing) {
+        return { success: false, message: 'Rating adjustment not found' };
+      }
+
+      const updatedAdjustment: RatingAdjustment = { ...existing, ...updates };
+
+      await new Promise<void>((resolve, reject) => {
+        const request = store.put(updatedAdjustment);
+        request.onsuccess = () => resolve();
+        request.onerror = () => reject(request.error);
+      });
+
+      return {
+        success: true,
+        data: updatedAdjustment,
+        message: 'Rating adjustment updated successfully'
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return { success: false, message: 'Failed to update rating adjustment', error: message };
+    }
+  }
+
+  /**
+   * Get all saved schedule sessions from IndexedDB
+   */
+  async getSessions(): Promise<ApiResponse<ScheduleSession[]>> {
+    if (!import.meta.client) {
+      return { success: true, data: [], message: 'IndexedDB not available on server.' };
+    }
+    try {
+      await this.ensureInitialized();
+
+      const transaction = this.db?.transaction([this.sessionsStoreName], 'readonly');
+      if (!transaction) {
+        throw new Error('Database not initialized');
+      }
+      const store = transaction.objectStore(this.sessionsStoreName);
+
+      const sessions = await new Promise<ScheduleSession[]>((resolve, reject) => {
+        const request = store.getAll();
+        request.onsuccess = () => resolve(request.result || []);
+        request.onerror = () => reject(request.error);
+      });
+
+      return {
+        success: true,
+        data: sessions,
+        message: `Retrieved ${sessions.length} sessions`
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return { success: false, message: 'Failed to get sessions', error: message };
+    }
+  }
+
+  /**
+   * Create or replace a saved schedule session
+   */
+  async saveSession(session: ScheduleSession): Promise<ApiResponse<ScheduleSession>> {
+    if (!import.meta.client) {
+      return { success: false, message: 'Cannot save session on server.' };
+    }
+    try {
+      await this.ensureInitialized();
+
+      const transaction = this.db?.transaction([this.sessionsStoreName], 'readwrite');
+      if (!transaction) {
+        throw new Error('Database not initialized');
+      }
+      const store = transaction.objectStore(this.sessionsStoreName);
+
+      // Copy the schedule into plain objects so reactive proxies can be stored
+      const savedSession: ScheduleSession = {
+        id: session.id,
+        name: session.name,
+        schedule: cloneSchedule(session.schedule),
+        createdAt: new Date(session.createdAt),
+        updatedAt: new Date(session.updatedAt)
+      };
+
+      await new Promise<void>((resolve, reject) => {
+        const request = store.put(savedSession);
+        request.onsuccess = () => resolve();
+        request.onerror = () => reject(request.error);
+      });
+
+      return {
+        success: true,
+        data: savedSession,
+        message: 'Session saved successfully'
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return { success: false, message: 'Failed to save session', error: message };
+    }
+  }
+
+  /**
+   * Delete a saved schedule session
+   */
+  async deleteSession(id: string): Promise<ApiResponse> {
+    if (!import.meta.client) {
+      return { success: false, message: 'Cannot delete session on server.' };
+    }
+    try {
+      await this.ensureInitialized();
+
+      const transaction = this.db?.transaction([this.sessionsStoreName], 'readwrite');
+      if (!transaction) {
+        throw new Error('Database not initialized');
+      }
+      const store = transaction.objectStore(this.sessionsStoreName);
+
+      await new Promise<void>((resolve, reject) => {
+        const request = store.delete(id);
+        request.onsuccess = () => resolve();
+        request.onerror = () => reject(request.error);
+      });
+
+      return {
+        success: true,
+        message: 'Session deleted successfully'
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return { success: false, message: 'Failed to delete session', error: message };
+    }
+  }
+
   /**
    * Ensure database is initialized
    */
@@ -1,6 +1,20 @@
-import type { Player } from '~/types';
+import type { GameResult, GameSchedule, Player, RatingAdjustment, ScheduleSession } from '~/types';
 import type { ApiResponse, IPlayerApi } from '~/types/api';
-import type { Database, PlayerInsert, PlayerRow, PlayerUpdate } from '~/types/database.types';
+import type {
+  Database,
+  GameResultInsert,
+  GameResultRow,
+  Json,
+  PlayerInsert,
+  PlayerRow,
+  PlayerUpdate,
+  RatingAdjustmentInsert,
+  RatingAdjustmentRow,
+  RatingAdjustmentUpdate,
+  ScheduleSessionInsert,
+  ScheduleSessionRow
+} from '~/types/database.types';
+import { cloneSchedule } from '~/utils/scheduleUtils';
 
 /**
  * Supabase service for player management
@@ -23,7 +37,11 @@ export class PlayerApiSupabase implements IPlayerApi {
       id: row.id,
       name: row.name,
       skillLevel: row.skill_level,
-      partnerId: row.partner_id || undefined
+      partnerId: row.partner_id || undefined,
+      gender: row.gender || undefined,
+      avoidPartnerIds: row.avoid_partner_ids?.length ? row.avoid_partner_ids : undefined,
+      avoidOpponentIds: row.avoid_opponent_ids?.length ? row.avoid_opponent_ids : undefined,
+      needsAccessibleCourt: row.needs_accessible_court || undefined
       // createdAt: row.created_at,
       // updatedAt: row.updated_at,
       // userId: row.user_id
@@ -42,6 +60,10 @@ export class PlayerApiSupabase implements IPlayerApi {
       name: player.name,
       skill_level: player.skillLevel,
       partner_id: player.partnerId || null,
+      gender: player.gender || null,
+      avoid_partner_ids: player.avoidPartnerIds ?? [],
+      avoid_opponent_ids: player.avoidOpponentIds ?? [],
+      needs_accessible_court: player.needsAccessibleCourt === true,
       created_at: new Date().toISOString(),
       updated_at: new Date().toISOString()
     };
@@ -54,7 +76,12 @@ export class PlayerApiSupabase implements IPlayerApi {
     return {
       name: player.name,
       skill_level: player.skillLevel,
-      partner_id: player.partnerId || null,
+      // Leave partner and gender alone on partial updates that don't mention them
+      partner_id: 'partnerId' in player ? player.partnerId || null : undefined,
+      gender: 'gender' in player ? player.gender || null : undefined,
+      avoid_partner_ids: 'avoidPartnerIds' in player ? (player.avoidPartnerIds ?? []) : undefined,
+      avoid_opponent_ids: 'avoidOpponentIds' in player ? (player.avoidOpponentIds ?? []) : undefined,
+      needs_accessible_court: 'needsAccessibleCourt' in player ? player.needsAccessibleCourt === true : undefined,
       updated_at: new Date().toISOString()
     };
   } /**
@@ -109,6 +136,253 @@ export class PlayerApiSupabase implements IPlayerApi {
     }
   }
 
+  /**
+   * Convert database row to RatingAdjustment interface
+   */
+  private mapRowToRatingAdjustment(row: RatingAdjustmentRow): RatingAdjustment {
+    return {
+      id: row.id,
+      playerId: row.player_id,
+      resultId: row.result_id,
+      previousRating: Number(row.previous_rating),
+      proposedRating: Number(row.proposed_rating),
+      delta: Number(row.delta),
+      status: row.status,
+      createdAt: new Date(row.created_at),
+      reviewedAt: row.reviewed_at ? new Date(row.reviewed_at) : undefined
+    };
+  }
+
+  /**
+   * Load all rating adjustments for the current user
+   */
+  async getRatingAdjustments(): Promise<ApiResponse<RatingAdjustment[]>> {
+    try {
+      if (!this.userId) {
+        return { success: false, message: 'User not authenticated' };
+      }
+
+      const { data, error } = await this.supabase
+        .from('rating_adjustments')
+        .select('*')
+        .eq('user_id', this.userId)
+        .order('created_at');
+
+      if (error) {
+        return { success: false, message: 'Failed to load rating adjustments', error: error.message };
+      }
+
+      const adjustments = (data || []).map(row => this.mapRowToRatingAdjustment(row));
+      return {
+        success: true,
+        data: adjustments,
+        message: `Retrieved ${adjustments.length} rating adjustments`
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error loading rating adjustments:', error);
+      return { success: false, message: 'Failed to load rating adjustments', error: message };
+    }
+  }
+
+  /**
+   * Save newly proposed rating adjustments
+   */
+  async createRatingAdjustments(adjustments: Omit<RatingAdjustment, 'id'>[]): Promise<ApiResponse<RatingAdjustment[]>> {
+    try {
+      if (!this.userId) {
+        return { success: false, message: 'User not authenticated' };
+      }
+
+      const userId = this.userId;
+      const insertData: RatingAdjustmentInsert[] = adjustments.map(adjustment => ({
+        user_id: userId,
+        player_id: adjustment.playerId,
+        result_id: adjustment.resultId,
+        previous_rating: adjustment.previousRating,
+        proposed_rating: adjustment.proposedRating,
+        delta: adjustment.delta,
+        status: adjustment.status,
+        reviewed_at: adjustment.reviewedAt?.toISOString() ?? null,
+        created_at: adjustment.createdAt.toISOString()
+      }));
+
+      const { data, error } = await this.supabase
+        .from('rating_adjustments')
+        // @ts-expect-error: Supabase generic type inference limitation in VS Code
+        .insert(insertData)
+        .select();
+
+      if (error) {
+        return { success: false, message: 'Failed to save rating adjustments', error: error.message };
+      }
+
+      const saved = (data || []).map(row => this.mapRowToRatingAdjustment(row));
+      return {
+        success: true,
+        data: saved,
+        message: `Saved ${saved.length} rating adjustments`
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error saving rating adjustments:', error);
+      return { success: false, message: 'Failed to save rating adjustments', error: message };
+    }
+  }
+
+  /**
+   * Update the review status of a rating adjustment
+   */
+  async updateRatingAdjustment(
+    id: string,
+    updates: Pick<RatingAdjustment, 'status' | 'reviewedAt'>
+  ): Promise<ApiResponse<RatingAdjustment>> {
+    try {
+      if (!this.userId) {
+        return { success: false, message: 'User not authenticated' };
+      }
+
+      const updateData: RatingAdjustmentUpdate = {
+        status: updates.status,
+        reviewed_at: updates.reviewedAt?.toISOString() ?? null,
+        updated_at: new Date().toISOString()
+      };
+
+      const { data, error } = await this.supabase
+        .from('rating_adjustments')
+        // @ts-expect-error: Supabase generic type inference limitation in VS Code
+        .update(updateData)
+        .eq('id', id)
+        .eq('user_id', this.userId)
+        .select()
+        .single();
+
+      if (error) {
+        return { success: false, message: 'Failed to update rating adjustment', error: error.message };
+      }
+
+      return {
+        success: true,
+        data: this.mapRowToRatingAdjustment(data),
+        message: 'Rating adjustment updated successfully'
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error updating rating adjustment:', error);
+      return { success: false, message: 'Failed to update rating adjustment', error: message };
+    }
+  }
+
+  /**
+   * Convert database row to ScheduleSession interface
+   */
+  private mapRowToSession(row: ScheduleSessionRow): ScheduleSession {
+    return {
+      id: row.id,
+      name: row.name,
+      schedule: cloneSchedule(row.schedule as unknown as GameSchedule),
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    };
+  }
+
+  /**
+   * Load all saved schedule sessions for the current user
+   */
+  async getSessions(): Promise<ApiResponse<ScheduleSession[]>> {
+    try {
+      if (!this.userId) {
+        return { success: false, message: 'User not authenticated' };
+      }
+
+      const { data, error } = await this.supabase
+        .from('schedule_sessions')
+        .select('*')
+        .eq('user_id', this.userId)
+        .order('updated_at', { ascending: false });
+
+      if (error) {
+        return { success: false, message: 'Failed to load sessions', error: error.message };
+      }
+
+      const sessions = (data || []).map(row => this.mapRowToSession(row));
+      return {
+        success: true,
+        data: sessions,
+        message: `Retrieved ${sessions.length} sessions`
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error loading sessions:', error);
+      return { success: false, message: 'Failed to load sessions', error: message };
+    }
+  }
+
+  /**
+   * Create or replace a saved schedule session
+   */
+  async saveSession(session: ScheduleSession): Promise<ApiResponse<ScheduleSession>> {
+    try {
+      if (!this.userId) {
+        return { success: false, message: 'User not authenticated' };
+      }
+
+      const upsertData: ScheduleSessionInsert = {
+        id: session.id,
+        user_id: this.userId,
+        name: session.name,
+        event_label: session.schedule.eventLabel,
+        schedule: cloneSchedule(session.schedule) as unknown as Json,
+        created_at: new Date(session.createdAt).toISOString(),
+        updated_at: new Date(session.updatedAt).toISOString()
+      };
+
+      const { data, error } = await this.supabase
+        .from('schedule_sessions')
+        // @ts-expect-error: Supabase generic type inference limitation in VS Code
+        .upsert(upsertData)
+        .select()
+        .single();
+
+      if (error) {
+        return { success: false, message: 'Failed to save session', error: error.message };
+      }
+
+      return {
+        success: true,
+        data: this.mapRowToSession(data),
+        message: 'Session saved successfully'
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error saving session:', error);
+      return { success: false, message: 'Failed to save session', error: message };
+    }
+  }
+
+  /**
+   * Delete a saved schedule session
+   */
+  async deleteSession(id: string): Promise<ApiResponse> {
+    try {
+      if (!this.userId) {
+        return { success: false, message: 'User not authenticated' };
+      }
+
+      const { error } = await this.supabase.from('schedule_sessions').delete().eq('id', id).eq('user_id', this.userId);
+
+      if (error) {
+        return { success: false, message: 'Failed to delete session', error: error.message };
+      }
+
+      return { success: true, message: 'Session deleted successfully' };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error deleting session:', error);
+      return { success: false, message: 'Failed to delete session', error: message };
+    }
+  }
+
   /**
    * Legacy method to maintain backwards compatibility
    */
@@ -276,6 +550,127 @@ export class PlayerApiSupabase implements IPlayerApi {
     }
   }
 
+  /**
+   * Convert database row to GameResult interface
+   */
+  private mapRowToGameResult(row: GameResultRow): GameResult {
+    return {
+      id: row.id,
+      scheduleId: row.schedule_id,
+      gameId: row.game_id,
+      eventLabel: row.event_label,
+      round: row.round,
+      court: row.court,
+      team1: row.team1_player_ids,
+      team2: row.team2_player_ids,
+      team1Score: row.team1_score,
+      team2Score: row.team2_score,
+      playedAt: new Date(row.played_at)
+    };
+  }
+
+  /**
+   * Load all recorded game results for the current user
+   */
+  async getGameResults(): Promise<ApiResponse<GameResult[]>> {
+    try {
+      if (!this.userId) {
+        return { success: false, message: 'User not authenticated' };
+      }
+
+      const { data, error } = await this.supabase
+        .from('game_results')
+        .select('*')
+        .eq('user_id', this.userId)
+        .order('played_at');
+
+      if (error) {
+        return { success: false, message: 'Failed to load game results', error: error.message };
+      }
+
+      const results = (data || []).map(row => this.mapRowToGameResult(row));
+      return {
+        success: true,
+        data: results,
+        message: `Retrieved ${results.length} game results`
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error loading game results:', error);
+      return { success: false, message: 'Failed to load game results', error: message };
+    }
+  }
+
+  /**
+   * Create or replace the recorded result for a scheduled game
+   */
+  async saveGameResult(result: Omit<GameResult, 'id'>): Promise<ApiResponse<GameResult>> {
+    try {
+      if (!this.userId) {
+        return { success: false, message: 'User not authenticated' };
+      }
+
+      const upsertData: GameResultInsert = {
+        user_id: this.userId,
+        schedule_id: result.scheduleId,
+        game_id: result.gameId,
+        event_label: result.eventLabel,
+        round: result.round,
+        court: result.court,
+        team1_player_ids: result.team1,
+        team2_player_ids: result.team2,
+        team1_score: result.team1Score,
+        team2_score: result.team2Score,
+        played_at: result.playedAt.toISOString(),
+        updated_at: new Date().toISOString()
+      };
+
+      const { data, error } = await this.supabase
+        .from('game_results')
+        // @ts-expect-error: Supabase generic type inference limitation in VS Code
+        .upsert(upsertData, { onConflict: 'user_id,schedule_id,game_id' })
+        .select()
+        .single();
+
+      if (error) {
+        return { success: false, message: 'Failed to save game result', error: error.message };
+      }
+
+      return {
+        success: true,
+        data: this.mapRowToGameResult(data),
+        message: 'Game result saved successfully'
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error saving game result:', error);
+      return { success: false, message: 'Failed to save game result', error: message };
+    }
+  }
+
+  /**
+   * Delete a recorded game result
+   */
+  async deleteGameResult(id: string): Promise<ApiResponse> {
+    try {
+      if (!this.userId) {
+        return { success: false, message: 'User not authenticated' };
+      }
+
+      const { error } = await this.supabase.from('game_results').delete().eq('id', id).eq('user_id', this.userId);
+
+      if (error) {
+        return { success: false, message: 'Failed to delete game result', error: error.message };
+      }
+
+      return { success: true, message: 'Game result deleted successfully' };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Error deleting game result:', error);
+      return { success: false, message: 'Failed to delete game result', error: message };
+    }
+  }
+
   /**
    * Legacy method to maintain backwards compatibility
    */
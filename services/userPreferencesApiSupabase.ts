@@ -1,12 +1,19 @@
 /**
  * Supabase API service for user preferences
  */
-import type { MatchingOptions, PrintOptions } from '~/types';
-import type { Database, UserPreferencesRow } from '~/types/database.types';
+import type { MatchingOptions, PrintOptions, ScoringProfile } from '~/types';
+import type { Database, Json, UserPreferencesRow } from '~/types/database.types';
+import {
+  getDefaultScoringProfiles,
+  normalizeScoringProfiles,
+  STANDARD_SCORING_PROFILE_ID
+} from '~/utils/scoringProfiles';
 
 export interface UserPreferences {
   matchingOptions: MatchingOptions;
   printOptions: PrintOptions;
+  /** The organizer's scoring profiles, built-in ones included */
+  scoringProfiles: ScoringProfile[];
 }
 
 export class UserPreferencesApiSupabase {
@@ -30,7 +37,8 @@ export class UserPreferencesApiSupabase {
             maxSkillDifference: 2.0,
             distributeRestEqually: true,
             opponentDiversityPriority: 'balanced',
-            courtDiversityPriority: 'balanced'
+            courtDiversityPriority: 'balanced',
+            scoringProfileId: STANDARD_SCORING_PROFILE_ID
           },
           printOptions: {
             eventTitle: '',
@@ -42,7 +50,8 @@ export class UserPreferencesApiSupabase {
             compactLayout: false,
             colorMode: true,
             showRatings: false
-          }
+          },
+          scoringProfiles: getDefaultScoringProfiles()
         };
 
         // Create default preferences for this user
@@ -84,7 +93,8 @@ export class UserPreferencesApiSupabase {
         maxSkillDifference: 2.0,
         distributeRestEqually: true,
         opponentDiversityPriority: 'balanced',
-        courtDiversityPriority: 'balanced'
+        courtDiversityPriority: 'balanced',
+        scoringProfileId: STANDARD_SCORING_PROFILE_ID
       },
       printOptions: {
         eventTitle: '',
@@ -96,7 +106,8 @@ export class UserPreferencesApiSupabase {
         compactLayout: false,
         colorMode: true,
         showRatings: true
-      }
+      },
+      scoringProfiles: getDefaultScoringProfiles()
     };
 
     await this.saveUserPreferences(defaultPreferences);
@@ -116,7 +127,8 @@ export class UserPreferencesApiSupabase {
         maxSkillDifference: row.max_skill_difference,
         distributeRestEqually: row.distribute_rest_equally,
         opponentDiversityPriority: 'balanced',
-        courtDiversityPriority: 'balanced'
+        courtDiversityPriority: 'balanced',
+        scoringProfileId: row.scoring_profile_id
       },
       printOptions: {
         eventTitle: row.print_event_title,
@@ -128,7 +140,8 @@ export class UserPreferencesApiSupabase {
         compactLayout: row.print_compact_layout,
         colorMode: row.print_color_mode,
         showRatings: row.print_show_ratings
-      }
+      },
+      scoringProfiles: normalizeScoringProfiles(row.scoring_profiles)
     };
   }
 
@@ -154,7 +167,9 @@ export class UserPreferencesApiSupabase {
       print_orientation: preferences.printOptions.orientation,
       print_compact_layout: preferences.printOptions.compactLayout,
       print_color_mode: preferences.printOptions.colorMode,
-      print_show_ratings: preferences.printOptions.showRatings
+      print_show_ratings: preferences.printOptions.showRatings,
+      scoring_profile_id: preferences.matchingOptions.scoringProfileId ?? STANDARD_SCORING_PROFILE_ID,
+      scoring_profiles: preferences.scoringProfiles as unknown as Json
     };
   }
 }
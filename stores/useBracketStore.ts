@@ -0,0 +1,102 @@
+import { defineStore } from 'pinia';
+import { computed } from 'vue';
+import type { Bracket, BracketFormat, GameSchedule } from '~/types';
+import {
+  clearBracketScore,
+  createBracket,
+  getBracketChampion,
+  recordBracketScore,
+  seedBracketTeams
+} from '~/utils/bracket';
+import { computeStandings } from '~/utils/standings';
+
+export const useBracketStore = defineStore('bracket', () => {
+  /**
+   * Getters
+   * The bracket lives on the current schedule so it is saved with the session
+   */
+  const bracket = computed<Bracket | null>(() => useGameStore().currentSchedule?.bracket ?? null);
+
+  const champion = computed(() => (bracket.value ? getBracketChampion(bracket.value) : null));
+
+  /**
+   * Most teams the current schedule's players can form for a playoff
+   */
+  const maxTeamCount = computed(() => {
+    const schedule = useGameStore().currentSchedule;
+    if (!schedule) {
+      return 0;
+    }
+    const games = schedule.rounds.flat();
+    if (schedule.options.mode === 'fixedTeams') {
+      return new Set(games.flatMap(game => [game.team1, game.team2].map(team => [...team].sort().join('|')))).size;
+    }
+    const players = new Set([
+      ...games.flatMap(game => [...game.team1, ...game.team2]),
+      ...schedule.restingPlayers.flat()
+    ]);
+    return Math.floor(players.size / 2);
+  });
+
+  async function save(schedule: GameSchedule, updated: Bracket | undefined): Promise<void> {
+    schedule.bracket = updated;
+    await useSessionStore().saveSchedule(schedule);
+  }
+
+  /**
+   * Actions
+   */
+
+  /**
+   * Seed a new bracket for the current schedule from its pool standings
+   */
+  async function generateBracket(format: BracketFormat, teamCount: number): Promise<Bracket | null> {
+    const schedule = useGameStore().currentSchedule;
+    if (!schedule) {
+      return null;
+    }
+
+    const resultsStore = useResultsStore();
+    const standings = computeStandings(schedule.id ? resultsStore.getResultsForSchedule(schedule.id) : []);
+    const created = createBracket(seedBracketTeams(schedule, standings, teamCount), format);
+    await save(schedule, created);
+    return created;
+  }
+
+  async function recordScore(matchId: string, team1Score: number, team2Score: number): Promise<void> {
+    const schedule = useGameStore().currentSchedule;
+    if (!schedule?.bracket) {
+      return;
+    }
+    await save(schedule, recordBracketScore(schedule.bracket, matchId, team1Score, team2Score));
+  }
+
+  async function clearScore(matchId: string): Promise<void> {
+    const schedule = useGameStore().currentSchedule;
+    if (!schedule?.bracket) {
+      return;
+    }
+    await save(schedule, clearBracketScore(schedule.bracket, matchId));
+  }
+
+  async function removeBracket(): Promise<void> {
+    const schedule = useGameStore().currentSchedule;
+    if (!schedule?.bracket) {
+      return;
+    }
+    await save(schedule, undefined);
+  }
+
+  return {
+    // Getters
+    bracket,
+    champion,
+    maxTeamCount,
+
+    // Actions
+    generateBracket,
+    recordScore,
+    clearScore,
+    removeBracket
+  };
+});
@@ -1,7 +1,49 @@
 import { defineStore } from 'pinia';
 import { UserPreferencesApiSupabase } from '~/services/userPreferencesApiSupabase';
-import type { Game, GameSchedule, MatchingOptions } from '~/types';
+import type {
+  CourtDetails,
+  CourtFormat,
+  Game,
+  GameSchedule,
+  GenerationEffort,
+  GenerationProgress,
+  MatchingMode,
+  MatchingOptions,
+  PairingHistory,
+  Player,
+  PlayerAttendance,
+  PlayerScheduleStats,
+  PoolSplit,
+  ScoreComponentKey,
+  ScoringProfile
+} from '~/types';
+import {
+  countCourtPlayers,
+  fitCourts,
+  getCourtCapacity,
+  getCourtDetails,
+  isCourtAvailable
+} from '~/utils/courtFormats';
+import { buildFixedTeams } from '~/utils/fixedTeams';
+import { buildPairingHistory } from '~/utils/pairingHistory';
 import { PickleballMatcher } from '~/utils/pickleballMatcher';
+import { poolOptions, splitIntoPools } from '~/utils/pools';
+import { swapPlayersInRound } from '~/utils/scheduleEditing';
+import {
+  generateCandidatesForRequest,
+  generateScheduleForRequest,
+  type ScheduleGenerationRequest,
+  type ScheduleWorkerMessage
+} from '~/utils/scheduleGeneration';
+import { getMaxSittingOut, MAX_COURTS, MAX_ROUNDS } from '~/utils/scheduleLimits';
+import { cloneSchedule } from '~/utils/scheduleUtils';
+import {
+  findScoringProfile,
+  getBuiltInScoringProfile,
+  getDefaultScoringProfiles,
+  MAX_SCORE_WEIGHT,
+  STANDARD_SCORING_PROFILE_ID
+} from '~/utils/scoringProfiles';
 
 export const useGameStore = defineStore('game', () => {
   /**
@@ -10,6 +52,14 @@ export const useGameStore = defineStore('game', () => {
   const currentSchedule = ref<GameSchedule | null>(null);
   const isGenerating = ref(false);
   const isLoadingPreferences = ref(false);
+  const generationProgress = ref<GenerationProgress | null>(null);
+  /** Whether the running generation can be cancelled, which needs it to be in a worker */
+  const canCancelGeneration = ref(false);
+  /** Schedules generated side by side, waiting for the organizer to pick one */
+  const candidateSchedules = ref<GameSchedule[]>([]);
+  /** Named sets of score weights, saved with the user's preferences */
+  const scoringProfiles = ref<ScoringProfile[]>(getDefaultScoringProfiles());
+  let cancelActiveGeneration: (() => void) | null = null;
 
   /**
    * Default matching options (fallback)
@@ -22,7 +72,10 @@ export const useGameStore = defineStore('game', () => {
     maxSkillDifference: 2.0,
     distributeRestEqually: true,
     opponentDiversityPriority: 'balanced',
-    courtDiversityPriority: 'balanced'
+    courtDiversityPriority: 'balanced',
+    historySessionCount: 0,
+    effort: 'normal',
+    scoringProfileId: STANDARD_SCORING_PROFILE_ID
   };
 
   const matchingOptions = ref<MatchingOptions>({ ...defaultOptions });
@@ -36,6 +89,74 @@ export const useGameStore = defineStore('game', () => {
     return 'balanced';
   }
 
+  function normalizeHistorySessionCount(value: unknown): number {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      return 0;
+    }
+    return Math.min(10, Math.max(0, Math.round(value)));
+  }
+
+  function normalizeMode(value: unknown): MatchingMode {
+    return value === 'fixedTeams' || value === 'ladder' || value === 'swiss' ? value : 'rotating';
+  }
+
+  function normalizePoolCount(value: unknown): number {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      return 1;
+    }
+    return Math.min(4, Math.max(1, Math.round(value)));
+  }
+
+  function normalizePoolSplit(value: unknown): PoolSplit {
+    return value === 'balanced' ? 'balanced' : 'tiers';
+  }
+
+  function normalizeEffort(value: unknown): GenerationEffort {
+    return value === 'quick' || value === 'thorough' || value === 'custom' ? value : 'normal';
+  }
+
+  function normalizeEffortSeconds(value: unknown): number | undefined {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      return undefined;
+    }
+    return Math.min(60, Math.max(1, Math.round(value)));
+  }
+
+  function normalizeCourtFormats(value: unknown): CourtFormat[] {
+    if (!Array.isArray(value)) {
+      return [];
+    }
+    return value.map(format => (format === 'singles' ? 'singles' : 'doubles'));
+  }
+
+  function normalizeCourts(value: unknown): CourtDetails[] {
+    if (!Array.isArray(value)) {
+      return [];
+    }
+    return value.map(raw => {
+      const court = (raw ?? {}) as Partial<CourtDetails>;
+      const details: CourtDetails = {};
+      if (typeof court.name === 'string' && court.name.trim()) {
+        details.name = court.name.trim();
+      }
+      if (court.setting === 'indoor' || court.setting === 'outdoor') {
+        details.setting = court.setting;
+      }
+      if (court.showCourt === true) {
+        details.showCourt = true;
+      }
+      if (court.accessible === true) {
+        details.accessible = true;
+      }
+      if (Array.isArray(court.availableRounds)) {
+        details.availableRounds = court.availableRounds.filter(
+          (round): round is number => typeof round === 'number' && Number.isInteger(round) && round >= 1
+        );
+      }
+      return details;
+    });
+  }
+
   function loadLocalAdvancedPreferences(): Partial<MatchingOptions> {
     if (!process.client) {
       return {};
@@ -48,7 +169,16 @@ export const useGameStore = defineStore('game', () => {
       const parsed = JSON.parse(raw) as Partial<MatchingOptions>;
       return {
         opponentDiversityPriority: normalizePriority(parsed.opponentDiversityPriority),
-        courtDiversityPriority: normalizePriority(parsed.courtDiversityPriority)
+        courtDiversityPriority: normalizePriority(parsed.courtDiversityPriority),
+        historySessionCount: normalizeHistorySessionCount(parsed.historySessionCount),
+        courtFormats: normalizeCourtFormats(parsed.courtFormats),
+        courts: normalizeCourts(parsed.courts),
+        mixedDoubles: parsed.mixedDoubles === true,
+        mode: normalizeMode(parsed.mode),
+        poolCount: normalizePoolCount(parsed.poolCount),
+        poolSplit: normalizePoolSplit(parsed.poolSplit),
+        effort: normalizeEffort(parsed.effort),
+        effortSeconds: normalizeEffortSeconds(parsed.effortSeconds)
       };
     } catch (error) {
       console.warn('Failed to load local advanced preferences:', error);
@@ -65,7 +195,16 @@ export const useGameStore = defineStore('game', () => {
         advancedPreferenceStorageKey,
         JSON.stringify({
           opponentDiversityPriority: normalizePriority(options.opponentDiversityPriority),
-          courtDiversityPriority: normalizePriority(options.courtDiversityPriority)
+          courtDiversityPriority: normalizePriority(options.courtDiversityPriority),
+          historySessionCount: normalizeHistorySessionCount(options.historySessionCount),
+          courtFormats: normalizeCourtFormats(options.courtFormats),
+          courts: normalizeCourts(options.courts),
+          mixedDoubles: options.mixedDoubles === true,
+          mode: normalizeMode(options.mode),
+          poolCount: normalizePoolCount(options.poolCount),
+          poolSplit: normalizePoolSplit(options.poolSplit),
+          effort: normalizeEffort(options.effort),
+          effortSeconds: normalizeEffortSeconds(options.effortSeconds)
         })
       );
     } catch (error) {
@@ -76,66 +215,356 @@ export const useGameStore = defineStore('game', () => {
   /**
    * Getters
    */
-  const scheduleStats = computed(() => {
-    if (!currentSchedule.value) {
-      return null;
+  const scheduleStats = computed(() => (currentSchedule.value ? getScheduleStats(currentSchedule.value) : null));
+  const activeScoringProfile = computed(() =>
+    findScoringProfile(scoringProfiles.value, matchingOptions.value.scoringProfileId)
+  );
+
+  /**
+   * Actions
+   */
+  /**
+   * Pairings from the most recent session days, for the matcher to avoid repeating
+   */
+  async function loadPriorHistory(sessionCount: number, excludeId?: string): Promise<PairingHistory | undefined> {
+    if (sessionCount <= 0) {
+      return undefined;
+    }
+    const sessionStore = useSessionStore();
+    if (sessionStore.sessions.length === 0) {
+      await sessionStore.loadSessions();
     }
+    return buildPairingHistory(
+      sessionStore.sessions.filter(session => session.id !== excludeId).map(session => session.schedule),
+      sessionCount
+    );
+  }
 
-    const schedule = currentSchedule.value;
-    const totalGames = schedule.rounds.reduce((sum, round) => sum + round.length, 0);
-    const totalRounds = schedule.rounds.length;
-    const playersPerRound = (schedule.rounds[0]?.length || 0) * 4;
-    const restingPerRound = schedule.restingPlayers[0]?.length || 0;
-    const duplicatePartners = countDuplicatePartnerOccurrences(schedule);
-    const duplicateOpponents = countDuplicateOpponentOccurrences(schedule);
-    const maxOpponentRepeats = calculateMaxOpponentRepeats(schedule);
-    const maxRests = calculateMaxRests(schedule);
+  /**
+   * The matching options with the active scoring profile's weights filled in, for a new schedule
+   */
+  function getGenerationOptions(): MatchingOptions {
+    return { ...matchingOptions.value, scoreWeights: { ...activeScoringProfile.value.weights } };
+  }
 
-    return {
-      totalGames,
-      totalRounds,
-      playersPerRound,
-      restingPerRound,
-      averageSkillDifference: calculateAverageSkillDifference(schedule),
-      duplicatePartners,
-      duplicateOpponents,
-      maxOpponentRepeats,
-      maxRests,
-      generatedAt: schedule.generatedAt
-    };
-  }); /**
-   * Actions
+  /**
+   * Run schedule generation in a Web Worker, reporting progress as it goes.
+   * Resolves to the generated schedules (just one unless the request asks for candidates),
+   * or null if the generation is cancelled.
    */
+  async function runInWorker(request: ScheduleGenerationRequest): Promise<GameSchedule[] | null> {
+    // Server rendering and tests have no workers, so the search can't be cancelled
+    if (typeof Worker === 'undefined') {
+      const onProgress = (progress: GenerationProgress) => {
+        generationProgress.value = progress;
+      };
+      return request.candidateCount
+        ? await generateCandidatesForRequest(request, onProgress)
+        : [await generateScheduleForRequest(request, onProgress)];
+    }
+
+    return new Promise((resolve, reject) => {
+      const worker = new Worker(new URL('../workers/scheduleGenerator.ts', import.meta.url), { type: 'module' });
+      const finish = () => {
+        worker.terminate();
+        cancelActiveGeneration = null;
+        canCancelGeneration.value = false;
+      };
+
+      worker.addEventListener('message', (event: MessageEvent<ScheduleWorkerMessage>) => {
+        const message = event.data;
+        if (message.type === 'progress') {
+          generationProgress.value = message.progress;
+        } else if (message.type === 'done') {
+          finish();
+          resolve([message.schedule]);
+        } else if (message.type === 'candidates') {
+          finish();
+          resolve(message.schedules);
+        } else {
+          finish();
+          reject(new Error(message.message));
+        }
+      });
+      worker.addEventListener('error', event => {
+        finish();
+        reject(new Error(event.message || 'Failed to generate schedule'));
+      });
+      cancelActiveGeneration = () => {
+        finish();
+        resolve(null);
+      };
+      canCancelGeneration.value = true;
+
+      // Reactive proxies can't be cloned into the worker
+      worker.postMessage(JSON.parse(JSON.stringify(request)) as ScheduleGenerationRequest);
+    });
+  }
+
   async function generateSchedule(eventLabel: string = ''): Promise<GameSchedule | null> {
     const playerStore = usePlayerStore();
 
     try {
       isGenerating.value = true;
+      generationProgress.value = null;
+
+      const priorHistory = await loadPriorHistory(matchingOptions.value.historySessionCount ?? 0);
+      const [schedule] =
+        (await runInWorker({
+          players: playerStore.selectedPlayers,
+          options: getGenerationOptions(),
+          priorHistory,
+          eventLabel
+        })) ?? [];
+      if (!schedule) {
+        return null;
+      }
+      schedule.id = crypto.randomUUID();
+
+      currentSchedule.value = schedule;
+
+      // Keep every generated schedule in the session history
+      await useSessionStore().saveSchedule(schedule);
+      return schedule;
+    } catch (error) {
+      console.error('Error generating schedule:', error);
+      throw error;
+    } finally {
+      isGenerating.value = false;
+      generationProgress.value = null;
+    }
+  }
+
+  /**
+   * Generate up to `count` distinct schedules to compare side by side. None of them is published
+   * until one is picked with `chooseCandidate`.
+   */
+  async function generateCandidates(eventLabel: string, count: number): Promise<GameSchedule[] | null> {
+    const playerStore = usePlayerStore();
+
+    try {
+      isGenerating.value = true;
+      generationProgress.value = null;
+
+      const priorHistory = await loadPriorHistory(matchingOptions.value.historySessionCount ?? 0);
+      const schedules = await runInWorker({
+        players: playerStore.selectedPlayers,
+        options: getGenerationOptions(),
+        priorHistory,
+        eventLabel,
+        candidateCount: count
+      });
+      if (!schedules) {
+        return null;
+      }
+
+      candidateSchedules.value = schedules;
+      return schedules;
+    } catch (error) {
+      console.error('Error generating schedules to compare:', error);
+      throw error;
+    } finally {
+      isGenerating.value = false;
+      generationProgress.value = null;
+    }
+  }
+
+  /**
+   * Publish one of the compared schedules as the current schedule and drop the others
+   */
+  async function chooseCandidate(index: number): Promise<GameSchedule | null> {
+    const schedule = candidateSchedules.value[index];
+    if (!schedule) {
+      return null;
+    }
+    schedule.id = crypto.randomUUID();
 
-      const selectedPlayersValue = playerStore.selectedPlayers;
+    currentSchedule.value = schedule;
+    candidateSchedules.value = [];
+    await useSessionStore().saveSchedule(schedule);
+    return schedule;
+  }
 
-      const maxCourts = Math.floor(selectedPlayersValue.length / 4);
-      const actualCourts = Math.min(matchingOptions.value.numberOfCourts, maxCourts);
+  function discardCandidates(): void {
+    candidateSchedules.value = [];
+  }
 
-      // Adjust options for generation
-      const generationOptions = { ...matchingOptions.value, numberOfCourts: actualCourts };
+  /**
+   * Keep searching for a better version of the current schedule, using the current search effort
+   */
+  async function improveSchedule(): Promise<GameSchedule | null> {
+    const schedule = currentSchedule.value;
+    if (!schedule) {
+      return null;
+    }
 
-      // Create matcher instance
-      const matcher = new PickleballMatcher(selectedPlayersValue, generationOptions);
+    try {
+      isGenerating.value = true;
+      generationProgress.value = null;
 
-      // Generate schedule
-      const schedule = await matcher.generateSchedule(eventLabel);
+      const options = {
+        ...schedule.options,
+        effort: matchingOptions.value.effort ?? 'normal',
+        effortSeconds: matchingOptions.value.effortSeconds
+      };
+      const [improved] =
+        (await runInWorker({
+          players: getSchedulePlayers(schedule, Object.keys(schedule.attendance ?? {})),
+          options,
+          priorHistory: await loadPriorHistory(options.historySessionCount ?? 0, schedule.id),
+          eventLabel: schedule.eventLabel,
+          schedule: cloneSchedule(schedule)
+        })) ?? [];
+      if (!improved) {
+        return null;
+      }
+      improved.id = schedule.id;
+      improved.generatedAt = schedule.generatedAt;
+      improved.attendance = schedule.attendance;
+      improved.options = schedule.options;
 
-      currentSchedule.value = schedule;
-      return schedule;
+      currentSchedule.value = improved;
+      await useSessionStore().saveSchedule(improved);
+      return improved;
     } catch (error) {
-      console.error('Error generating schedule:', error);
+      console.error('Error improving schedule:', error);
+      throw error;
+    } finally {
+      isGenerating.value = false;
+      generationProgress.value = null;
+    }
+  }
+
+  /**
+   * Stop a schedule generation that is still running; `generateSchedule` then returns null
+   */
+  function cancelGeneration(): void {
+    cancelActiveGeneration?.();
+  }
+
+  /**
+   * Swap two players within a round of the current schedule, e.g. to move someone to another
+   * court or bring in a resting player. The score breakdown is recalculated and the schedule saved.
+   * @returns Warnings about repeats and availability problems the swap created
+   */
+  async function swapPlayers(roundNumber: number, playerA: string, playerB: string): Promise<string[]> {
+    const schedule = currentSchedule.value;
+    if (!schedule) {
+      return [];
+    }
+
+    const players = getSchedulePlayers(schedule, []);
+    const warnings = swapPlayersInRound(schedule, roundNumber - 1, playerA, playerB, players);
+    if (schedule.scoreBreakdown) {
+      const priorHistory = await loadPriorHistory(schedule.options.historySessionCount ?? 0, schedule.id);
+      schedule.scoreBreakdown = new PickleballMatcher(players, schedule.options, priorHistory).getScoreBreakdown(
+        schedule
+      );
+      schedule.score = schedule.scoreBreakdown.reduce((sum, component) => sum + component.penalty, 0);
+    }
+
+    await useSessionStore().saveSchedule(schedule);
+    return warnings;
+  }
+
+  /**
+   * Rebuild the current schedule from `fromRound` onwards after late arrivals or early departures.
+   * Earlier rounds are kept exactly as played, and rounds with recorded scores cannot be rebuilt.
+   */
+  async function regenerateRemainingRounds(
+    fromRound: number,
+    attendance: Record<string, PlayerAttendance>
+  ): Promise<GameSchedule | null> {
+    const schedule = currentSchedule.value;
+    if (!schedule) {
+      return null;
+    }
+    if (schedule.pools) {
+      throw new Error('Roster changes are not available for pooled schedules');
+    }
+    const remainingGames = schedule.rounds.slice(fromRound - 1).flat();
+    if (remainingGames.some(game => game.team1Score !== undefined || game.team2Score !== undefined)) {
+      throw new Error('Rounds with recorded scores cannot be regenerated');
+    }
+
+    try {
+      isGenerating.value = true;
+
+      // Everyone who has played so far, plus any late arrivals
+      const players = getSchedulePlayers(schedule, Object.keys(attendance));
+      const priorHistory = await loadPriorHistory(schedule.options.historySessionCount ?? 0, schedule.id);
+      const matcher = new PickleballMatcher(players, schedule.options, priorHistory);
+      const regenerated = await matcher.regenerateRemainingRounds(schedule, fromRound - 1, attendance);
+      regenerated.id = schedule.id;
+      regenerated.generatedAt = schedule.generatedAt;
+      regenerated.attendance = attendance;
+
+      currentSchedule.value = regenerated;
+      await useSessionStore().saveSchedule(regenerated);
+      return regenerated;
+    } catch (error) {
+      console.error('Error regenerating schedule:', error);
+      throw error;
+    } finally {
+      isGenerating.value = false;
+    }
+  }
+
+  /**
+   * Generate the next round of a ladder or Swiss schedule from the scores so far
+   */
+  async function generateNextRound(): Promise<GameSchedule | null> {
+    const schedule = currentSchedule.value;
+    if (!schedule) {
+      return null;
+    }
+
+    try {
+      isGenerating.value = true;
+
+      const players = getSchedulePlayers(schedule, Object.keys(schedule.attendance ?? {}));
+      const matcher = new PickleballMatcher(players, schedule.options);
+      const extended = await matcher.generateNextRound(schedule);
+      extended.id = schedule.id;
+      extended.generatedAt = schedule.generatedAt;
+      extended.attendance = schedule.attendance;
+
+      currentSchedule.value = extended;
+      await useSessionStore().saveSchedule(extended);
+      return extended;
+    } catch (error) {
+      console.error('Error generating next round:', error);
       throw error;
     } finally {
       isGenerating.value = false;
     }
   }
 
+  /**
+   * Players in a schedule's games and rests, plus any extra IDs
+   */
+  function getSchedulePlayers(schedule: GameSchedule, extraIds: string[]): Player[] {
+    const playerStore = usePlayerStore();
+    const playerIds = new Set(extraIds);
+    for (const game of schedule.rounds.flat()) {
+      for (const id of [...game.team1, ...game.team2]) {
+        playerIds.add(id);
+      }
+    }
+    for (const resting of schedule.restingPlayers) {
+      for (const id of resting) {
+        playerIds.add(id);
+      }
+    }
+    const players = [...playerIds]
+      .map(id => playerStore.getPlayer(id))
+      .filter((player): player is Player => player !== undefined);
+    if (players.length !== playerIds.size) {
+      throw new Error('Some players in this schedule have been deleted');
+    }
+    return players;
+  }
+
   /**
    * Load user's saved preferences from Supabase
    */
@@ -148,6 +577,7 @@ export const useGameStore = defineStore('game', () => {
         ...userPrefs.matchingOptions,
         ...loadLocalAdvancedPreferences()
       };
+      scoringProfiles.value = userPrefs.scoringProfiles;
     } catch (error) {
       console.error('Error loading user preferences:', error);
       // Fall back to default options if loading fails
@@ -165,7 +595,8 @@ export const useGameStore = defineStore('game', () => {
       const userPrefs = await preferencesApi.getUserPreferences();
       const updatedPrefs = {
         ...userPrefs,
-        matchingOptions: { ...matchingOptions.value }
+        matchingOptions: { ...matchingOptions.value },
+        scoringProfiles: scoringProfiles.value.map(profile => ({ ...profile, weights: { ...profile.weights } }))
       };
       await preferencesApi.saveUserPreferences(updatedPrefs);
     } catch (error) {
@@ -191,15 +622,92 @@ export const useGameStore = defineStore('game', () => {
     try {
       const resetPrefs = await preferencesApi.resetUserPreferences();
       matchingOptions.value = { ...defaultOptions, ...resetPrefs.matchingOptions };
+      scoringProfiles.value = resetPrefs.scoringProfiles;
       saveLocalAdvancedPreferences(matchingOptions.value);
     } catch (error) {
       console.error('Error resetting preferences:', error);
       // Fall back to local defaults if reset fails
       matchingOptions.value = { ...defaultOptions };
+      scoringProfiles.value = getDefaultScoringProfiles();
       saveLocalAdvancedPreferences(matchingOptions.value);
     }
   }
 
+  /**
+   * Save the scoring profiles with the user's preferences, keeping the edits locally if that fails
+   */
+  async function saveScoringProfiles(): Promise<void> {
+    try {
+      await saveUserPreferences();
+    } catch (error) {
+      console.warn('Failed to auto-save scoring profiles:', error);
+    }
+  }
+
+  /**
+   * Change one weight of a scoring profile. Weights are kept between 0 and `MAX_SCORE_WEIGHT`.
+   */
+  async function setScoringProfileWeight(profileId: string, key: ScoreComponentKey, weight: number): Promise<void> {
+    const profile = scoringProfiles.value.find(p => p.id === profileId);
+    if (!profile || !Number.isFinite(weight)) {
+      return;
+    }
+    profile.weights = { ...profile.weights, [key]: Math.min(MAX_SCORE_WEIGHT, Math.max(0, weight)) };
+    await saveScoringProfiles();
+  }
+
+  /**
+   * Save the active profile's weights as a new profile and switch to it
+   */
+  async function addScoringProfile(name: string): Promise<ScoringProfile> {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error('Scoring profile name is required');
+    }
+    if (scoringProfiles.value.some(p => p.name.toLowerCase() === trimmed.toLowerCase())) {
+      throw new Error(`A scoring profile named "${trimmed}" already exists`);
+    }
+    const profile: ScoringProfile = {
+      id: crypto.randomUUID(),
+      name: trimmed,
+      weights: { ...activeScoringProfile.value.weights }
+    };
+    scoringProfiles.value = [...scoringProfiles.value, profile];
+    await updateOptions({ scoringProfileId: profile.id });
+    return profile;
+  }
+
+  /**
+   * Delete a profile the organizer added. Schedules using it switch back to the standard profile.
+   */
+  async function deleteScoringProfile(profileId: string): Promise<void> {
+    const profile = scoringProfiles.value.find(p => p.id === profileId);
+    if (!profile) {
+      return;
+    }
+    if (profile.builtIn) {
+      throw new Error('Built-in scoring profiles cannot be deleted');
+    }
+    scoringProfiles.value = scoringProfiles.value.filter(p => p.id !== profileId);
+    if (matchingOptions.value.scoringProfileId === profileId) {
+      await updateOptions({ scoringProfileId: STANDARD_SCORING_PROFILE_ID });
+    } else {
+      await saveScoringProfiles();
+    }
+  }
+
+  /**
+   * Put a built-in profile's weights back to how they ship
+   */
+  async function resetScoringProfile(profileId: string): Promise<void> {
+    const original = getBuiltInScoringProfile(profileId);
+    if (!original) {
+      return;
+    }
+    scoringProfiles.value = scoringProfiles.value.map(p => (p.id === profileId ? original : p));
+    await saveScoringProfiles();
+  }
+
   function validateOptions(): { valid: boolean; errors: string[]; warnings: string[] } {
     const playerStore = usePlayerStore();
     const errors: string[] = [];
@@ -207,10 +715,17 @@ export const useGameStore = defineStore('game', () => {
     const selectedPlayersValue = playerStore.selectedPlayers;
 
     // Check minimum players for at least one court
-    if (selectedPlayersValue.length < 4) {
-      errors.push('Need at least 4 selected players');
+    const fittedCourts = fitCourts(matchingOptions.value, selectedPlayersValue.length);
+    if (fittedCourts.length === 0) {
+      const minPlayers = Math.min(
+        ...Array.from({ length: matchingOptions.value.numberOfCourts }, (_, index) =>
+          countCourtPlayers(matchingOptions.value, [index + 1])
+        ),
+        4
+      );
+      errors.push(`Need at least ${minPlayers} selected players`);
     } else {
-      const maxCourts = Math.floor(selectedPlayersValue.length / 4);
+      const maxCourts = fittedCourts.length;
       if (maxCourts < matchingOptions.value.numberOfCourts) {
         warnings.push(
           `Not enough players for ${matchingOptions.value.numberOfCourts} courts. ` +
@@ -219,20 +734,71 @@ export const useGameStore = defineStore('game', () => {
       }
     }
 
-    // Check maximum players (allowing up to 4 to sit out per round)
-    const maxPlayers = matchingOptions.value.numberOfCourts * 4 + 4;
-    if (selectedPlayersValue.length > maxPlayers) {
-      errors.push(`Too many players for ${matchingOptions.value.numberOfCourts} courts. Maximum ${maxPlayers} players`);
+    if (matchingOptions.value.mode === 'fixedTeams') {
+      // Teams without a court get a bye, so there is no maximum
+      const { teams, unpaired } = buildFixedTeams(selectedPlayersValue);
+      if (teams.length < 2) {
+        errors.push('Fixed teams need at least 2 teams of selected players who are each other’s partner');
+      }
+      if (unpaired.length > 0) {
+        warnings.push(
+          `${unpaired.length} selected player${unpaired.length > 1 ? 's have' : ' has'} no selected partner ` +
+            'and will sit out every round.'
+        );
+      }
+    } else if ((matchingOptions.value.poolCount ?? 1) <= 1) {
+      // Check maximum players (allowing a few to sit out per round)
+      const maxPlayers = getCourtCapacity(matchingOptions.value) + getMaxSittingOut(matchingOptions.value);
+      if (selectedPlayersValue.length > maxPlayers) {
+        errors.push(
+          `Too many players for ${matchingOptions.value.numberOfCourts} courts. Maximum ${maxPlayers} players`
+        );
+      }
+    }
+
+    // Check that every pool can fill its courts
+    if ((matchingOptions.value.poolCount ?? 1) > 1) {
+      if (matchingOptions.value.mode === 'ladder' || matchingOptions.value.mode === 'swiss') {
+        errors.push("Pools can't be used with ladder or Swiss modes");
+      }
+      try {
+        for (const pool of splitIntoPools(selectedPlayersValue, matchingOptions.value)) {
+          const options = poolOptions(matchingOptions.value, pool);
+          const maxPlayers = getCourtCapacity(options) + getMaxSittingOut(options);
+          if (matchingOptions.value.mode !== 'fixedTeams' && pool.playerIds.length > maxPlayers) {
+            errors.push(
+              `Too many players in ${pool.name} for ${pool.courts.length} court${pool.courts.length > 1 ? 's' : ''}. ` +
+                `Maximum ${maxPlayers} players`
+            );
+          }
+        }
+      } catch (error) {
+        errors.push(error instanceof Error ? error.message : 'Players cannot be split into pools');
+      }
     }
 
     // Check court count
-    if (matchingOptions.value.numberOfCourts < 1 || matchingOptions.value.numberOfCourts > 4) {
-      errors.push('Number of courts must be between 1 and 4');
+    if (matchingOptions.value.numberOfCourts < 1 || matchingOptions.value.numberOfCourts > MAX_COURTS) {
+      errors.push(`Number of courts must be between 1 and ${MAX_COURTS}`);
     }
 
     // Check round count
-    if (matchingOptions.value.numberOfRounds < 1 || matchingOptions.value.numberOfRounds > 15) {
-      errors.push('Number of rounds must be between 1 and 15');
+    if (matchingOptions.value.numberOfRounds < 1 || matchingOptions.value.numberOfRounds > MAX_ROUNDS) {
+      errors.push(`Number of rounds must be between 1 and ${MAX_ROUNDS}`);
+    }
+
+    // Check custom search time
+    if (matchingOptions.value.effort === 'custom') {
+      const seconds = matchingOptions.value.effortSeconds ?? 0;
+      if (seconds < 1 || seconds > 60) {
+        errors.push('Custom search time must be between 1 and 60 seconds');
+      }
+    }
+
+    // Check seed
+    const seed = matchingOptions.value.seed;
+    if (seed !== undefined && (!Number.isInteger(seed) || seed < 0 || seed > 2147483647)) {
+      errors.push('Seed must be a whole number between 0 and 2147483647');
     }
 
     // Check skill difference
@@ -240,6 +806,66 @@ export const useGameStore = defineStore('game', () => {
       errors.push('Maximum skill difference must be between 0 and 8');
     }
 
+    // Check that mixed doubles can pair every man with a woman
+    if (matchingOptions.value.mixedDoubles) {
+      const men = selectedPlayersValue.filter(p => p.gender === 'male').length;
+      const women = selectedPlayersValue.filter(p => p.gender === 'female').length;
+      const flexible = selectedPlayersValue.length - men - women;
+      if (Math.abs(men - women) > flexible) {
+        warnings.push(
+          `Mixed doubles: ${men} men and ${women} women are selected, so some teams may be two ` +
+            `${men > women ? 'men' : 'women'}.`
+        );
+      }
+    }
+
+    // Check that unavailable players and courts leave enough to fill the courts each round
+    const unavailableRounds = matchingOptions.value.unavailableRounds ?? {};
+    const courtsInUse = fittedCourts.length;
+    for (let round = 1; round <= matchingOptions.value.numberOfRounds; round++) {
+      const playable = selectedPlayersValue.filter(p => !unavailableRounds[p.id]?.includes(round)).length;
+      const openCourts = Array.from({ length: matchingOptions.value.numberOfCourts }, (_, index) => index + 1).filter(
+        court => isCourtAvailable(matchingOptions.value, court, round)
+      );
+      const roundCourts = fitCourts(matchingOptions.value, playable, round).length;
+      if (openCourts.length === 0) {
+        errors.push(`Round ${round}: No courts are available`);
+        continue;
+      }
+      // Rounds with every player and every court are covered by the checks above
+      if (playable === selectedPlayersValue.length && openCourts.length === matchingOptions.value.numberOfCourts) {
+        continue;
+      }
+      if (roundCourts === 0) {
+        errors.push(`Round ${round}: Only ${playable} players are available, not enough to fill a court`);
+      } else if (roundCourts < courtsInUse) {
+        warnings.push(
+          playable < selectedPlayersValue.length
+            ? `Round ${round}: Only ${playable} players are available, so fewer courts will be used.`
+            : `Round ${round}: Only ${openCourts.length} court${openCourts.length > 1 ? 's are' : ' is'} available, so more players will rest.`
+        );
+      }
+    }
+
+    // Check that players who need an accessible court can get one
+    const needsAccessible = selectedPlayersValue.filter(p => p.needsAccessibleCourt);
+    if (needsAccessible.length > 0) {
+      const accessibleCourts = Array.from(
+        { length: matchingOptions.value.numberOfCourts },
+        (_, index) => index + 1
+      ).filter(court => getCourtDetails(matchingOptions.value, court).accessible);
+      if (accessibleCourts.length === 0) {
+        warnings.push(
+          `${needsAccessible.length} selected player${needsAccessible.length > 1 ? 's need' : ' needs'} an accessible court, ` +
+            'but no court is marked accessible.'
+        );
+      } else if (matchingOptions.value.mode === 'ladder' || matchingOptions.value.mode === 'swiss') {
+        warnings.push(
+          'Ladder and Swiss modes place players on courts by standing, so accessible courts are not guaranteed.'
+        );
+      }
+    }
+
     return {
       valid: errors.length === 0,
       errors,
@@ -247,6 +873,92 @@ export const useGameStore = defineStore('game', () => {
     };
   }
 
+  /**
+   * Summary figures for a schedule, as shown for the current schedule and when comparing schedules
+   */
+  function getScheduleStats(schedule: GameSchedule) {
+    const totalGames = schedule.rounds.reduce((sum, round) => sum + round.length, 0);
+    const totalRounds = schedule.rounds.length;
+    const playersPerRound = (schedule.rounds[0] ?? []).reduce(
+      (sum, game) => sum + game.team1.length + game.team2.length,
+      0
+    );
+    const restingPerRound = schedule.restingPlayers[0]?.length || 0;
+    const duplicatePartners = countDuplicatePartnerOccurrences(schedule);
+    const duplicateOpponents = countDuplicateOpponentOccurrences(schedule);
+    const maxOpponentRepeats = calculateMaxOpponentRepeats(schedule);
+    const maxRests = calculateMaxRests(schedule);
+
+    return {
+      totalGames,
+      totalRounds,
+      playersPerRound,
+      restingPerRound,
+      averageSkillDifference: calculateAverageSkillDifference(schedule),
+      duplicatePartners,
+      duplicateOpponents,
+      maxOpponentRepeats,
+      maxRests,
+      generatedAt: schedule.generatedAt
+    };
+  }
+
+  /**
+   * Games, rests and repeats for every player in a schedule
+   */
+  function getPlayerStats(schedule: GameSchedule): PlayerScheduleStats[] {
+    const stats = new Map<string, PlayerScheduleStats>();
+    const statsFor = (playerId: string) => {
+      let playerStats = stats.get(playerId);
+      if (!playerStats) {
+        playerStats = { playerId, games: 0, rests: 0, repeatedPartners: 0, repeatedOpponents: 0 };
+        stats.set(playerId, playerStats);
+      }
+      return playerStats;
+    };
+    const partnersSeen = new Set<string>();
+    const opponentsSeen = new Set<string>();
+
+    for (const [roundIndex, round] of schedule.rounds.entries()) {
+      for (const game of round) {
+        for (const [team, opponents] of [
+          [game.team1, game.team2],
+          [game.team2, game.team1]
+        ] as const) {
+          for (const playerId of team) {
+            const playerStats = statsFor(playerId);
+            playerStats.games++;
+            for (const partnerId of team) {
+              if (partnerId !== playerId && seenBefore(partnersSeen, `${playerId}|${partnerId}`)) {
+                playerStats.repeatedPartners++;
+              }
+            }
+            for (const opponentId of opponents) {
+              if (seenBefore(opponentsSeen, `${playerId}|${opponentId}`)) {
+                playerStats.repeatedOpponents++;
+              }
+            }
+          }
+        }
+      }
+      for (const playerId of schedule.restingPlayers[roundIndex] ?? []) {
+        statsFor(playerId).rests++;
+      }
+    }
+    return [...stats.values()];
+  }
+
+  /**
+   * Add `key` to `seen`, reporting whether it was already there
+   */
+  function seenBefore(seen: Set<string>, key: string): boolean {
+    if (seen.has(key)) {
+      return true;
+    }
+    seen.add(key);
+    return false;
+  }
+
   function calculateAverageSkillDifference(schedule: GameSchedule): number {
     const allGames = schedule.rounds.flat();
     if (allGames.length === 0) {
@@ -261,6 +973,79 @@ export const useGameStore = defineStore('game', () => {
     currentSchedule.value = null;
   }
 
+  /**
+   * Show a previously saved schedule, e.g. one reopened from the session history
+   */
+  function loadSchedule(schedule: GameSchedule): void {
+    currentSchedule.value = cloneSchedule(schedule);
+  }
+
+  function findGame(gameId: string): Game | null {
+    if (!currentSchedule.value) {
+      return null;
+    }
+    for (const round of currentSchedule.value.rounds) {
+      const game = round.find(g => g.id === gameId);
+      if (game) {
+        return game;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Record the score of a game in the current schedule and persist it as a result
+   */
+  async function recordScore(gameId: string, team1Score: number, team2Score: number): Promise<boolean> {
+    const schedule = currentSchedule.value;
+    const game = findGame(gameId);
+    if (!schedule || !game) {
+      return false;
+    }
+    if (!Number.isInteger(team1Score) || !Number.isInteger(team2Score) || team1Score < 0 || team2Score < 0) {
+      throw new Error('Scores must be whole numbers of zero or more');
+    }
+
+    game.team1Score = team1Score;
+    game.team2Score = team2Score;
+    await useSessionStore().saveSchedule(schedule);
+
+    const resultsStore = useResultsStore();
+    const saved = await resultsStore.saveResult(schedule, game);
+    if (!saved) {
+      return false;
+    }
+
+    // Feed the result into the optional rating engine
+    await useRatingStore().proposeAdjustments(saved);
+    return true;
+  }
+
+  /**
+   * Remove the recorded score of a game in the current schedule
+   */
+  async function clearScore(gameId: string): Promise<boolean> {
+    const schedule = currentSchedule.value;
+    const game = findGame(gameId);
+    if (!schedule || !game) {
+      return false;
+    }
+
+    game.team1Score = undefined;
+    game.team2Score = undefined;
+    await useSessionStore().saveSchedule(schedule);
+
+    if (!schedule.id) {
+      return true;
+    }
+    const resultsStore = useResultsStore();
+    const resultId = resultsStore.results.find(r => r.scheduleId === schedule.id && r.gameId === gameId)?.id;
+    if (resultId) {
+      await useRatingStore().discardAdjustmentsForResult(resultId);
+    }
+    return await resultsStore.removeResult(schedule.id, gameId);
+  }
+
   function pairKey(a: string, b: string): string {
     return a < b ? `${a}|${b}` : `${b}|${a}`;
   }
@@ -269,10 +1054,12 @@ export const useGameStore = defineStore('game', () => {
     const pairCounts: Record<string, number> = {};
     for (const round of schedule.rounds) {
       for (const game of round) {
-        const k1 = pairKey(game.team1[0], game.team1[1]);
-        const k2 = pairKey(game.team2[0], game.team2[1]);
-        pairCounts[k1] = (pairCounts[k1] || 0) + 1;
-        pairCounts[k2] = (pairCounts[k2] || 0) + 1;
+        for (const team of [game.team1, game.team2]) {
+          if (team.length === 2) {
+            const key = pairKey(team[0], team[1]);
+            pairCounts[key] = (pairCounts[key] || 0) + 1;
+          }
+        }
       }
     }
     return Object.values(pairCounts).reduce((sum, count) => sum + Math.max(0, count - 1), 0);
@@ -335,20 +1122,42 @@ export const useGameStore = defineStore('game', () => {
     matchingOptions,
     isGenerating,
     isLoadingPreferences,
+    generationProgress,
+    canCancelGeneration,
+    candidateSchedules,
+    scoringProfiles,
     defaultOptions,
 
     // Getters
     scheduleStats,
+    activeScoringProfile,
 
     // Actions
     generateSchedule,
+    generateCandidates,
+    chooseCandidate,
+    discardCandidates,
+    cancelGeneration,
+    improveSchedule,
+    swapPlayers,
+    regenerateRemainingRounds,
+    generateNextRound,
     loadUserPreferences,
     saveUserPreferences,
     updateOptions,
     resetOptions,
+    setScoringProfileWeight,
+    addScoringProfile,
+    deleteScoringProfile,
+    resetScoringProfile,
     validateOptions,
     clearSchedule,
+    loadSchedule,
+    recordScore,
+    clearScore,
     getGamesForRound,
-    getRestingPlayersForRound
+    getRestingPlayersForRound,
+    getScheduleStats,
+    getPlayerStats
   };
 });
@@ -1,8 +1,9 @@
 import { defineStore } from 'pinia';
 import { computed, ref } from 'vue';
 import { usePlayerApi } from '~/composables/usePlayerApi';
-import type { Player } from '~/types';
+import type { Player, PlayerGender } from '~/types';
 import type { IPlayerApi } from '~/types/api';
+import { getMaxSittingOut } from '~/utils/scheduleLimits';
 
 export const usePlayerStore = defineStore('player', () => {
   // Get API instance from DI container
@@ -34,7 +35,7 @@ export const usePlayerStore = defineStore('player', () => {
   function canGenerateGames(numberOfCourts: number): { valid: boolean; message?: string } {
     const selectedPlayersList = selectedPlayers.value;
     const minPlayers = numberOfCourts * 4; // 4 players per court
-    const maxPlayers = numberOfCourts * 4 + 4; // Allow up to 4 to sit out
+    const maxPlayers = numberOfCourts * 4 + getMaxSittingOut({ numberOfCourts }); // Allow a few to sit out
 
     if (selectedPlayersList.length < minPlayers) {
       return {
@@ -122,12 +123,20 @@ export const usePlayerStore = defineStore('player', () => {
   /**
    * Add a new player with automatic persistence
    */
-  async function addPlayer(name: string, skillLevel: number, partnerId?: string): Promise<Player | null> {
+  async function addPlayer(
+    name: string,
+    skillLevel: number,
+    partnerId?: string,
+    gender?: PlayerGender,
+    restrictions: Pick<Player, 'avoidPartnerIds' | 'avoidOpponentIds' | 'needsAccessibleCourt'> = {}
+  ): Promise<Player | null> {
     try {
       const result = await playerApi.createPlayer({
         name: name.trim(),
         skillLevel: Math.max(1, Math.min(5, skillLevel)), // Clamp between 1-5
-        partnerId
+        partnerId,
+        gender,
+        ...restrictions
       });
 
       if (result.success && result.data) {
@@ -196,6 +205,17 @@ export const usePlayerStore = defineStore('player', () => {
         await updatePlayer(player.id, { partnerId: undefined });
       }
 
+      // Remove this player from never-partner and never-opponent lists
+      const restrictingPlayers = players.value.filter(
+        p => p.avoidPartnerIds?.includes(id) || p.avoidOpponentIds?.includes(id)
+      );
+      for (const player of restrictingPlayers) {
+        await updatePlayer(player.id, {
+          avoidPartnerIds: player.avoidPartnerIds?.filter(otherId => otherId !== id),
+          avoidOpponentIds: player.avoidOpponentIds?.filter(otherId => otherId !== id)
+        });
+      }
+
       const result = await playerApi.deletePlayer(id);
       if (result.success) {
         players.value = players.value.filter(p => p.id !== id);
@@ -1,6 +1,12 @@
 import { defineStore } from 'pinia';
 import { UserPreferencesApiSupabase } from '~/services/userPreferencesApiSupabase';
-import type { Game, GameSchedule, PrintOptions } from '~/types';
+import type { Bracket, Game, GameSchedule, PrintOptions } from '~/types';
+import { getBracketChampion, getBracketRounds, getBracketSeed } from '~/utils/bracket';
+import { getCourtName } from '~/utils/courtFormats';
+import { getCourtPool } from '~/utils/pools';
+
+/** Most courts printed side by side; wider schedules continue on the next page */
+const COURTS_PER_PRINTED_GRID = 6;
 
 export const usePrintStore = defineStore('print', () => {
   /**
@@ -317,9 +323,85 @@ export const usePrintStore = defineStore('print', () => {
 <body>
     `;
 
-    // Header
-    html += '<div class="header">';
-    html += `<h1>${options.eventTitle || 'Pickleball Schedule'}</h1>`;
+    html += generateHeaderHTML(options, 'Pickleball Schedule');
+
+    // Check if there are any resting players in the entire schedule
+    const hasRestingPlayers = schedule.restingPlayers.some(round => round.length > 0);
+
+    // Wide schedules are split into several grids of courts, one per page, so every
+    // column stays readable; resting players go on the last one
+    const courts = Array.from({ length: schedule.options.numberOfCourts }, (_, index) => index + 1);
+    const courtGroups: number[][] = [];
+    for (let start = 0; start < courts.length; start += COURTS_PER_PRINTED_GRID) {
+      courtGroups.push(courts.slice(start, start + COURTS_PER_PRINTED_GRID));
+    }
+
+    for (const [groupIndex, courtGroup] of courtGroups.entries()) {
+      const showResting = hasRestingPlayers && groupIndex === courtGroups.length - 1;
+      if (groupIndex > 0) {
+        html += '<div class="page-break"></div>';
+      }
+
+      // Generate schedule grid
+      html += '<table class="schedule-grid">';
+
+      // Header row
+      html += '<thead><tr><th>Round</th>';
+      for (const court of courtGroup) {
+        const pool = getCourtPool(schedule, court);
+        html += `<th>${getCourtName(schedule.options, court)}${pool ? ` (${pool.name})` : ''}</th>`;
+      }
+      if (showResting) {
+        html += '<th>Resting</th>';
+      }
+      html += '</tr></thead><tbody>';
+
+      // Data rows
+      for (let roundIndex = 0; roundIndex < schedule.rounds.length; roundIndex++) {
+        const round = schedule.rounds[roundIndex];
+        const restingPlayers = schedule.restingPlayers[roundIndex];
+
+        html += `<tr><td class="round-header">Round ${roundIndex + 1}</td>`;
+
+        // Games for each court
+        for (const court of courtGroup) {
+          const game = round?.find(g => g.court === court);
+
+          html += '<td class="game-cell">';
+          if (game) {
+            html += generateGameHTML(game, playerName, formatSkillLevel, getPlayerSkill, options, getDisplayName);
+          }
+          html += '</td>';
+        }
+
+        // Resting players
+        if (showResting) {
+          html += '<td class="game-cell resting-cell">';
+          if (restingPlayers && restingPlayers.length > 0) {
+            const restingNames = restingPlayers
+              .map(id => getDisplayName(id, options.compactLayout ?? false))
+              .join('<br>');
+            html += `<div class="resting-players">${restingNames}</div>`;
+          } else {
+            html += '-';
+          }
+          html += '</td>';
+        }
+
+        html += '</tr>';
+      }
+
+      html += '</tbody></table>';
+    }
+
+    html += '</body></html>';
+
+    return html;
+  }
+
+  function generateHeaderHTML(options: PrintOptions, fallbackTitle: string): string {
+    let html = '<div class="header">';
+    html += `<h1>${options.eventTitle || fallbackTitle}</h1>`;
 
     // Event info - compact layout puts everything on one line
     if (options.eventDate || options.location || options.organizer) {
@@ -353,58 +435,179 @@ export const usePrintStore = defineStore('print', () => {
     }
     html += '</div>';
 
-    // Generate schedule grid
-    html += '<table class="schedule-grid">';
+    return html;
+  }
 
-    // Check if there are any resting players in the entire schedule
-    const hasRestingPlayers = schedule.restingPlayers.some(round => round.length > 0);
+  /**
+   * Printable playoff bracket: one column per round, winners side first,
+   * then the losers side and grand final for double elimination
+   */
+  function generateBracketPrintHTML(
+    bracket: Bracket,
+    options: PrintOptions,
+    playerStore?: ReturnType<typeof usePlayerStore>
+  ): string {
+    const store = playerStore || (typeof usePlayerStore === 'function' ? usePlayerStore() : null);
 
-    // Header row
-    html += '<thead><tr><th>Round</th>';
-    for (let court = 1; court <= schedule.options.numberOfCourts; court++) {
-      html += `<th>Court ${court}</th>`;
+    if (!store) {
+      throw new Error('Player store not available for generating print HTML');
     }
-    if (hasRestingPlayers) {
-      html += '<th>Resting</th>';
+
+    function teamName(team: readonly string[] | null | undefined): string {
+      if (team === null) {
+        return '<span class="bye">Bye</span>';
+      }
+      if (!team) {
+        return '&nbsp;';
+      }
+      const seed = getBracketSeed(bracket, team);
+      const names = team.map(id => store?.getPlayer(id)?.name || 'Unknown Player').join(' & ');
+      return seed ? `<span class="seed">${seed}</span> ${names}` : names;
+    }
+
+    function sideHTML(title: string, side: 'winners' | 'losers' | 'final'): string {
+      const rounds = getBracketRounds(bracket, side);
+      if (rounds.length === 0) {
+        return '';
+      }
+      let html = `<h2>${title}</h2><div class="bracket-side">`;
+      rounds.forEach((round, index) => {
+        html += '<div class="bracket-round">';
+        html += `<div class="round-title">${side === 'final' ? 'Final' : `Round ${index + 1}`}</div>`;
+        for (const match of round) {
+          const scored = match.team1Score !== undefined && match.team2Score !== undefined;
+          html += '<div class="bracket-match">';
+          html += `<div class="slot">${teamName(match.team1)}<span class="score">${scored ? match.team1Score : ''}</span></div>`;
+          html += `<div class="slot">${teamName(match.team2)}<span class="score">${scored ? match.team2Score : ''}</span></div>`;
+          html += '</div>';
+        }
+        html += '</div>';
+      });
+      html += '</div>';
+      return html;
     }
-    html += '</tr></thead><tbody>';
 
-    // Data rows
-    for (let roundIndex = 0; roundIndex < schedule.rounds.length; roundIndex++) {
-      const round = schedule.rounds[roundIndex];
-      const restingPlayers = schedule.restingPlayers[roundIndex];
+    const champion = getBracketChampion(bracket);
+    const accent = options.colorMode ? '#fce5cd' : '#e0e0e0';
 
-      html += `<tr><td class="round-header">Round ${roundIndex + 1}</td>`;
+    let html = `
+<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="UTF-8">
+    <title>${options.eventTitle || 'Playoff Bracket'}</title>
+    <style>
+        @page {
+            size: landscape;
+            margin: 0.5in;
+        }
 
-      // Games for each court
-      for (let court = 1; court <= schedule.options.numberOfCourts; court++) {
-        const game = round?.find(g => g.court === court);
+        body {
+            font-family: Arial, sans-serif;
+            font-size: 12px;
+            margin: 0;
+            padding: 0;
+        }
 
-        html += '<td class="game-cell">';
-        if (game) {
-          html += generateGameHTML(game, playerName, formatSkillLevel, getPlayerSkill, options, getDisplayName);
+        .header {
+            text-align: center;
+            margin-bottom: 20px;
+            border-bottom: 2px solid #333;
+            padding-bottom: 10px;
         }
-        html += '</td>';
-      }
 
-      // Resting players
-      if (hasRestingPlayers) {
-        html += '<td class="game-cell resting-cell">';
-        if (restingPlayers && restingPlayers.length > 0) {
-          const restingNames = restingPlayers
-            .map(id => getDisplayName(id, options.compactLayout ?? false))
-            .join('<br>');
-          html += `<div class="resting-players">${restingNames}</div>`;
-        } else {
-          html += '-';
-        }
-        html += '</td>';
-      }
+        .header h1 {
+            margin: 0;
+            font-size: 18px;
+            font-weight: bold;
+        }
 
-      html += '</tr>';
-    }
+        .header .event-info {
+            margin: 5px 0;
+            font-size: 12px;
+            color: #555;
+        }
+
+        h2 {
+            font-size: 14px;
+            margin: 12px 0 6px;
+        }
+
+        .bracket-side {
+            display: flex;
+            gap: 16px;
+            align-items: center;
+        }
+
+        .bracket-round {
+            display: flex;
+            flex-direction: column;
+            justify-content: space-around;
+            gap: 12px;
+            min-width: 160px;
+        }
+
+        .round-title {
+            font-weight: bold;
+            text-align: center;
+        }
+
+        .bracket-match {
+            border: 1px solid #333;
+        }
 
-    html += '</tbody></table></body></html>';
+        .slot {
+            display: flex;
+            justify-content: space-between;
+            gap: 8px;
+            padding: 4px 6px;
+            min-height: 14px;
+        }
+
+        .slot + .slot {
+            border-top: 1px solid #333;
+        }
+
+        .seed {
+            font-size: 10px;
+            color: #555;
+        }
+
+        .score {
+            font-weight: bold;
+        }
+
+        .bye {
+            color: #777;
+            font-style: italic;
+        }
+
+        .champion {
+            margin-top: 16px;
+            padding: 8px;
+            text-align: center;
+            font-size: 14px;
+            font-weight: bold;
+            background: ${accent};
+            border: 1px solid #333;
+        }
+
+        @media print {
+            body { -webkit-print-color-adjust: exact; }
+        }
+    </style>
+</head>
+<body>
+    `;
+
+    html += generateHeaderHTML(options, 'Playoff Bracket');
+    html += sideHTML(bracket.format === 'double' ? 'Winners Bracket' : 'Bracket', 'winners');
+    html += sideHTML('Losers Bracket', 'losers');
+    html += sideHTML('Grand Final', 'final');
+    if (champion) {
+      html += `<div class="champion">Champion: ${teamName(champion)}</div>`;
+    }
+    html += '</body></html>';
 
     return html;
   }
@@ -420,58 +623,26 @@ export const usePrintStore = defineStore('print', () => {
     const displayNameFn = getDisplayName || ((id: string, _: boolean) => playerName(id));
     const isCompactLayout = options.compactLayout ?? false;
 
-    const team1Player1 = displayNameFn(game.team1[0], isCompactLayout);
-    const team1Player2 = displayNameFn(game.team1[1], isCompactLayout);
-    const team2Player1 = displayNameFn(game.team2[0], isCompactLayout);
-    const team2Player2 = displayNameFn(game.team2[1], isCompactLayout);
+    // Singles teams have one player, doubles teams two
+    const teamHTML = (team: readonly string[], separator: string): string =>
+      team
+        .map(id => {
+          const name = displayNameFn(id, isCompactLayout);
+          return options.showRatings ? `${name} (${formatSkillLevel(getPlayerSkill(id))})` : name;
+        })
+        .join(separator);
 
     let html = '<div class="game-holder">';
 
     if (options.compactLayout) {
       // Compact layout: players on same line with &, line divider instead of "vs"
-      html += `<div class="team team1">`;
-
-      if (options.showRatings) {
-        const skill1 = getPlayerSkill(game.team1[0]);
-        const skill2 = getPlayerSkill(game.team1[1]);
-        html += `${team1Player1} (${formatSkillLevel(skill1)}) & ${team1Player2} (${formatSkillLevel(skill2)})`;
-      } else {
-        html += `${team1Player1} & ${team1Player2}`;
-      }
-      html += '</div>';
-
-      html += `<div class="team team2">`;
-      if (options.showRatings) {
-        const skill1 = getPlayerSkill(game.team2[0]);
-        const skill2 = getPlayerSkill(game.team2[1]);
-        html += `${team2Player1} (${formatSkillLevel(skill1)}) & ${team2Player2} (${formatSkillLevel(skill2)})`;
-      } else {
-        html += `${team2Player1} & ${team2Player2}`;
-      }
-      html += '</div>';
+      html += `<div class="team team1">${teamHTML(game.team1, ' & ')}</div>`;
+      html += `<div class="team team2">${teamHTML(game.team2, ' & ')}</div>`;
     } else {
       // Standard layout: separate lines for each player, "vs" divider
-      html += `<div class="team team1">`;
-      if (options.showRatings) {
-        const skill1 = getPlayerSkill(game.team1[0]);
-        const skill2 = getPlayerSkill(game.team1[1]);
-        html += `${team1Player1} (${formatSkillLevel(skill1)}) <br>${team1Player2} (${formatSkillLevel(skill2)})`;
-      } else {
-        html += `${team1Player1}<br>${team1Player2}`;
-      }
-      html += '</div>';
-
+      html += `<div class="team team1">${teamHTML(game.team1, options.showRatings ? ' <br>' : '<br>')}</div>`;
       html += '<div class="team-divider"></div>';
-
-      html += `<div class="team team2">`;
-      if (options.showRatings) {
-        const skill1 = getPlayerSkill(game.team2[0]);
-        const skill2 = getPlayerSkill(game.team2[1]);
-        html += `${team2Player1} (${formatSkillLevel(skill1)}) <br>${team2Player2} (${formatSkillLevel(skill2)})`;
-      } else {
-        html += `${team2Player1}<br>${team2Player2}`;
-      }
-      html += '</div>';
+      html += `<div class="team team2">${teamHTML(game.team2, options.showRatings ? ' <br>' : '<br>')}</div>`;
     }
 
     html += '</div>';
@@ -487,6 +658,13 @@ export const usePrintStore = defineStore('print', () => {
     const options = { ...printOptions.value, ...customOptions };
     const html = generatePrintHTML(schedule, options, playerStore);
 
+    openPrintWindow(html, 'pickleball-schedule');
+  }
+
+  /**
+   * Print the HTML from a new window, or download it when pop-ups are blocked
+   */
+  function openPrintWindow(html: string, fileName: string): void {
     // Create a new window for printing
     const printWindow = window.open('', '_blank');
     if (printWindow) {
@@ -506,12 +684,21 @@ export const usePrintStore = defineStore('print', () => {
       const url = URL.createObjectURL(blob);
       const link = document.createElement('a');
       link.href = url;
-      link.download = `pickleball-schedule-${new Date().toISOString().split('T')[0]}.html`;
+      link.download = `${fileName}-${new Date().toISOString().split('T')[0]}.html`;
       link.click();
       URL.revokeObjectURL(url);
     }
   }
 
+  function printBracket(
+    bracket: Bracket,
+    customOptions?: Partial<PrintOptions>,
+    playerStore?: ReturnType<typeof usePlayerStore>
+  ): void {
+    const options = { ...printOptions.value, ...customOptions };
+    openPrintWindow(generateBracketPrintHTML(bracket, options, playerStore), 'pickleball-bracket');
+  }
+
   function downloadScheduleHTML(
     schedule: GameSchedule,
     customOptions?: Partial<PrintOptions>,
@@ -579,11 +766,13 @@ export const usePrintStore = defineStore('print', () => {
 
     // Actions
     printSchedule,
+    printBracket,
     downloadScheduleHTML,
     updatePrintOptions,
     resetPrintOptions,
     loadUserPrintPreferences,
     saveUserPrintPreferences,
-    generatePrintHTML
+    generatePrintHTML,
+    generateBracketPrintHTML
   };
 });
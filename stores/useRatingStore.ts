@@ -0,0 +1,290 @@
+import { defineStore } from 'pinia';
+import { computed, ref } from 'vue';
+import { usePlayerApi } from '~/composables/usePlayerApi';
+import type { GameResult, RatingAdjustment } from '~/types';
+import type { IPlayerApi } from '~/types/api';
+import { calculateRatingChanges, clampRating, DEFAULT_RATING_OPTIONS } from '~/utils/ratingEngine';
+
+/**
+ * Rating engine settings, stored locally per device
+ */
+export interface RatingSettings {
+  /** Propose rating changes when scores are recorded */
+  enabled: boolean;
+  /** Hold proposed changes for review instead of applying them immediately */
+  requireApproval: boolean;
+  kFactor: number;
+}
+
+export const useRatingStore = defineStore('rating', () => {
+  // Get API instance from DI container
+  const playerApi: IPlayerApi = usePlayerApi();
+
+  const settingsStorageKey = 'paddleroster-rating-settings';
+
+  /**
+   * State
+   */
+  const adjustments = ref<RatingAdjustment[]>([]);
+  const isLoading = ref(false);
+  const settings = ref<RatingSettings>({
+    enabled: false,
+    requireApproval: true,
+    kFactor: DEFAULT_RATING_OPTIONS.kFactor,
+    ...loadLocalSettings()
+  });
+
+  function loadLocalSettings(): Partial<RatingSettings> {
+    if (!process.client) {
+      return {};
+    }
+    try {
+      const raw = localStorage.getItem(settingsStorageKey);
+      if (!raw) {
+        return {};
+      }
+      const parsed = JSON.parse(raw) as Partial<RatingSettings>;
+      return {
+        enabled: parsed.enabled === true,
+        requireApproval: parsed.requireApproval !== false,
+        kFactor:
+          typeof parsed.kFactor === 'number' && parsed.kFactor > 0 ? parsed.kFactor : DEFAULT_RATING_OPTIONS.kFactor
+      };
+    } catch (error) {
+      console.warn('Failed to load rating settings:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Getters
+   */
+  const pendingAdjustments = computed(() => adjustments.value.filter(adjustment => adjustment.status === 'pending'));
+
+  const reviewedAdjustments = computed(() =>
+    adjustments.value
+      .filter(adjustment => adjustment.status !== 'pending')
+      .sort((a, b) => new Date(b.reviewedAt ?? b.createdAt).getTime() - new Date(a.reviewedAt ?? a.createdAt).getTime())
+  );
+
+  function getPlayerHistory(playerId: string): RatingAdjustment[] {
+    return adjustments.value.filter(adjustment => adjustment.playerId === playerId);
+  }
+
+  /**
+   * Actions
+   */
+  function updateSettings(newSettings: Partial<RatingSettings>): void {
+    settings.value = { ...settings.value, ...newSettings };
+    if (!process.client) {
+      return;
+    }
+    try {
+      localStorage.setItem(settingsStorageKey, JSON.stringify(settings.value));
+    } catch (error) {
+      console.warn('Failed to save rating settings:', error);
+    }
+  }
+
+  async function loadAdjustments(): Promise<{ success: boolean; message: string }> {
+    try {
+      isLoading.value = true;
+      const result = await playerApi.getRatingAdjustments();
+
+      if (result.success && result.data) {
+        adjustments.value = result.data;
+        return { success: true, message: `Loaded ${result.data.length} rating adjustments` };
+      }
+      return { success: false, message: result.message || 'Failed to load rating adjustments' };
+    } catch (error) {
+      console.error('RatingStore: Error loading rating adjustments:', error);
+      return { success: false, message: 'Failed to load rating adjustments' };
+    } finally {
+      isLoading.value = false;
+    }
+  }
+
+  async function setStatus(
+    adjustment: RatingAdjustment,
+    status: Exclude<RatingAdjustment['status'], 'pending'>
+  ): Promise<boolean> {
+    const result = await playerApi.updateRatingAdjustment(adjustment.id, { status, reviewedAt: new Date() });
+    if (!result.success || !result.data) {
+      return false;
+    }
+    const updated = result.data;
+    const index = adjustments.value.findIndex(a => a.id === updated.id);
+    if (index !== -1) {
+      adjustments.value[index] = updated;
+    }
+    return true;
+  }
+
+  /**
+   * Apply a proposed change to the player's current skill level.
+   * The delta is applied rather than the proposed rating so that several
+   * accepted games accumulate correctly.
+   */
+  async function acceptAdjustment(id: string): Promise<boolean> {
+    const adjustment = adjustments.value.find(a => a.id === id);
+    if (!adjustment || adjustment.status !== 'pending') {
+      return false;
+    }
+
+    try {
+      const playerStore = usePlayerStore();
+      const player = playerStore.getPlayer(adjustment.playerId);
+      if (!player) {
+        return false;
+      }
+
+      const updated = await playerStore.updatePlayer(player.id, {
+        skillLevel: clampRating(player.skillLevel + adjustment.delta)
+      });
+      if (!updated) {
+        return false;
+      }
+
+      return await setStatus(adjustment, 'accepted');
+    } catch (error) {
+      console.error('Error accepting rating adjustment:', error);
+      return false;
+    }
+  }
+
+  async function rejectAdjustment(id: string): Promise<boolean> {
+    const adjustment = adjustments.value.find(a => a.id === id);
+    if (!adjustment || adjustment.status !== 'pending') {
+      return false;
+    }
+
+    try {
+      return await setStatus(adjustment, 'rejected');
+    } catch (error) {
+      console.error('Error rejecting rating adjustment:', error);
+      return false;
+    }
+  }
+
+  async function acceptAllPending(): Promise<number> {
+    let accepted = 0;
+    for (const adjustment of [...pendingAdjustments.value]) {
+      if (await acceptAdjustment(adjustment.id)) {
+        accepted++;
+      }
+    }
+    return accepted;
+  }
+
+  /**
+   * Take an accepted change back off the player's current skill level
+   */
+  async function revertAdjustment(adjustment: RatingAdjustment): Promise<boolean> {
+    try {
+      const playerStore = usePlayerStore();
+      const player = playerStore.getPlayer(adjustment.playerId);
+      // A deleted player has no rating left to correct
+      if (player) {
+        const updated = await playerStore.updatePlayer(player.id, {
+          skillLevel: clampRating(player.skillLevel - adjustment.delta)
+        });
+        if (!updated) {
+          return false;
+        }
+      }
+
+      return await setStatus(adjustment, 'reverted');
+    } catch (error) {
+      console.error('Error reverting rating adjustment:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Undo the rating changes of a game whose score was changed or cleared:
+   * pending proposals are rejected and accepted ones are reverted
+   */
+  async function discardAdjustmentsForResult(resultId: string): Promise<void> {
+    const stale = adjustments.value.filter(
+      adjustment => adjustment.resultId === resultId && ['pending', 'accepted'].includes(adjustment.status)
+    );
+    for (const adjustment of stale) {
+      if (adjustment.status === 'pending') {
+        await rejectAdjustment(adjustment.id);
+      } else {
+        await revertAdjustment(adjustment);
+      }
+    }
+  }
+
+  /**
+   * Propose rating changes for a newly recorded game result.
+   * When approval is not required the changes are applied straight away.
+   */
+  async function proposeAdjustments(result: GameResult): Promise<RatingAdjustment[]> {
+    if (!settings.value.enabled) {
+      return [];
+    }
+
+    try {
+      await discardAdjustmentsForResult(result.id);
+
+      const playerStore = usePlayerStore();
+      const ratings: Record<string, number> = {};
+      for (const playerId of [...result.team1, ...result.team2]) {
+        const player = playerStore.getPlayer(playerId);
+        if (player) {
+          ratings[playerId] = player.skillLevel;
+        }
+      }
+
+      const changes = calculateRatingChanges(result, ratings, { kFactor: settings.value.kFactor }).filter(
+        change => change.delta !== 0
+      );
+      if (changes.length === 0) {
+        return [];
+      }
+
+      const createdAt = new Date();
+      const response = await playerApi.createRatingAdjustments(
+        changes.map(change => ({ ...change, resultId: result.id, status: 'pending' as const, createdAt }))
+      );
+      if (!response.success || !response.data) {
+        throw new Error(response.error || response.message || 'Failed to save rating adjustments');
+      }
+
+      adjustments.value.push(...response.data);
+
+      if (!settings.value.requireApproval) {
+        for (const adjustment of response.data) {
+          await acceptAdjustment(adjustment.id);
+        }
+      }
+      return response.data;
+    } catch (error) {
+      console.error('Error proposing rating adjustments:', error);
+      return [];
+    }
+  }
+
+  return {
+    // State
+    adjustments,
+    isLoading,
+    settings,
+
+    // Getters
+    pendingAdjustments,
+    reviewedAdjustments,
+    getPlayerHistory,
+
+    // Actions
+    updateSettings,
+    loadAdjustments,
+    acceptAdjustment,
+    rejectAdjustment,
+    acceptAllPending,
+    discardAdjustmentsForResult,
+    proposeAdjustments
+  };
+});
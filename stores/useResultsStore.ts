@@ -0,0 +1,124 @@
+import { defineStore } from 'pinia';
+import { computed, ref } from 'vue';
+import { usePlayerApi } from '~/composables/usePlayerApi';
+import type { Game, GameResult, GameSchedule } from '~/types';
+import type { IPlayerApi } from '~/types/api';
+
+export const useResultsStore = defineStore('results', () => {
+  // Get API instance from DI container
+  const playerApi: IPlayerApi = usePlayerApi();
+
+  /**
+   * State: All recorded game results
+   */
+  const results = ref<GameResult[]>([]);
+  const isLoading = ref(false);
+
+  /**
+   * Getters
+   */
+  const totalResults = computed(() => results.value.length);
+
+  function getResultsForSchedule(scheduleId: string): GameResult[] {
+    return results.value.filter(result => result.scheduleId === scheduleId);
+  }
+
+  /**
+   * Load all recorded results from the API
+   */
+  async function loadResults(): Promise<{ success: boolean; message: string }> {
+    try {
+      isLoading.value = true;
+      const result = await playerApi.getGameResults();
+
+      if (result.success && result.data) {
+        results.value = result.data.sort((a, b) => new Date(a.playedAt).getTime() - new Date(b.playedAt).getTime());
+        return { success: true, message: `Loaded ${result.data.length} game results` };
+      }
+      return { success: false, message: result.message || 'Failed to load game results' };
+    } catch (error) {
+      console.error('ResultsStore: Error loading game results:', error);
+      return { success: false, message: 'Failed to load game results' };
+    } finally {
+      isLoading.value = false;
+    }
+  }
+
+  /**
+   * Persist the score of a scheduled game. Correcting a score keeps the game's original play time.
+   */
+  async function saveResult(schedule: GameSchedule, game: Game): Promise<GameResult | null> {
+    if (!schedule.id || game.team1Score === undefined || game.team2Score === undefined) {
+      return null;
+    }
+
+    try {
+      const existing = results.value.find(r => r.scheduleId === schedule.id && r.gameId === game.id);
+      const result = await playerApi.saveGameResult({
+        scheduleId: schedule.id,
+        gameId: game.id,
+        eventLabel: schedule.eventLabel,
+        round: game.round,
+        court: game.court,
+        team1: [...game.team1],
+        team2: [...game.team2],
+        team1Score: game.team1Score,
+        team2Score: game.team2Score,
+        playedAt: existing?.playedAt ?? new Date()
+      });
+
+      if (result.success && result.data) {
+        const saved = result.data;
+        const index = results.value.findIndex(r => r.scheduleId === saved.scheduleId && r.gameId === saved.gameId);
+        if (index !== -1) {
+          results.value[index] = saved;
+        } else {
+          results.value.push(saved);
+        }
+        return saved;
+      }
+
+      throw new Error(result.error || result.message || 'Failed to save game result');
+    } catch (error) {
+      console.error('Error saving game result:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Remove the recorded score of a scheduled game
+   */
+  async function removeResult(scheduleId: string, gameId: string): Promise<boolean> {
+    const existing = results.value.find(r => r.scheduleId === scheduleId && r.gameId === gameId);
+    if (!existing) {
+      return true;
+    }
+
+    try {
+      const result = await playerApi.deleteGameResult(existing.id);
+      if (result.success) {
+        results.value = results.value.filter(r => r.id !== existing.id);
+        return true;
+      }
+      return false;
+    } catch (error) {
+      console.error('Error removing game result:', error);
+      return false;
+    }
+  }
+
+  return {
+    // State
+    results,
+    isLoading,
+
+    // Getters
+    totalResults,
+    getResultsForSchedule,
+
+    // Actions
+    loadResults,
+    saveResult,
+    removeResult
+  };
+});
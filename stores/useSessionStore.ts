@@ -0,0 +1,164 @@
+import { defineStore } from 'pinia';
+import { computed, ref } from 'vue';
+import { usePlayerApi } from '~/composables/usePlayerApi';
+import type { GameSchedule, ScheduleSession } from '~/types';
+import type { IPlayerApi } from '~/types/api';
+import { cloneSchedule } from '~/utils/scheduleUtils';
+
+export const useSessionStore = defineStore('session', () => {
+  // Get API instance from DI container
+  const playerApi: IPlayerApi = usePlayerApi();
+
+  /**
+   * State
+   */
+  const sessions = ref<ScheduleSession[]>([]);
+  const isLoading = ref(false);
+
+  /**
+   * Getters
+   */
+  const sortedSessions = computed(() =>
+    [...sessions.value].sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime())
+  );
+
+  function getSession(id: string): ScheduleSession | undefined {
+    return sessions.value.find(session => session.id === id);
+  }
+
+  function defaultSessionName(schedule: GameSchedule): string {
+    return schedule.eventLabel || `Session ${new Date(schedule.generatedAt).toLocaleDateString()}`;
+  }
+
+  function upsertLocal(session: ScheduleSession): void {
+    const index = sessions.value.findIndex(s => s.id === session.id);
+    if (index !== -1) {
+      sessions.value[index] = session;
+    } else {
+      sessions.value.push(session);
+    }
+  }
+
+  async function persist(session: ScheduleSession): Promise<ScheduleSession | null> {
+    try {
+      const result = await playerApi.saveSession(session);
+      if (result.success && result.data) {
+        upsertLocal(result.data);
+        return result.data;
+      }
+      throw new Error(result.error || result.message || 'Failed to save session');
+    } catch (error) {
+      console.error('Error saving session:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Actions
+   */
+  async function loadSessions(): Promise<{ success: boolean; message: string }> {
+    try {
+      isLoading.value = true;
+      const result = await playerApi.getSessions();
+
+      if (result.success && result.data) {
+        sessions.value = result.data;
+        return { success: true, message: `Loaded ${result.data.length} sessions` };
+      }
+      return { success: false, message: result.message || 'Failed to load sessions' };
+    } catch (error) {
+      console.error('SessionStore: Error loading sessions:', error);
+      return { success: false, message: 'Failed to load sessions' };
+    } finally {
+      isLoading.value = false;
+    }
+  }
+
+  /**
+   * Save a schedule to the history, creating its session on first save.
+   * Called whenever a schedule is generated or its scores change.
+   */
+  async function saveSchedule(schedule: GameSchedule): Promise<ScheduleSession | null> {
+    if (!schedule.id) {
+      return null;
+    }
+
+    const existing = getSession(schedule.id);
+    const now = new Date();
+    return await persist({
+      id: schedule.id,
+      name: existing?.name ?? defaultSessionName(schedule),
+      schedule: cloneSchedule(schedule),
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now
+    });
+  }
+
+  async function renameSession(id: string, name: string): Promise<boolean> {
+    const session = getSession(id);
+    const trimmed = name.trim();
+    if (!session || !trimmed) {
+      return false;
+    }
+    const saved = await persist({ ...session, name: trimmed, updatedAt: new Date() });
+    return saved !== null;
+  }
+
+  /**
+   * Copy a session's schedule into a new session with no recorded scores
+   */
+  async function duplicateSession(id: string): Promise<ScheduleSession | null> {
+    const session = getSession(id);
+    if (!session) {
+      return null;
+    }
+
+    const schedule = cloneSchedule(session.schedule);
+    schedule.id = crypto.randomUUID();
+    schedule.generatedAt = new Date();
+    for (const game of schedule.rounds.flat()) {
+      game.team1Score = undefined;
+      game.team2Score = undefined;
+    }
+
+    const now = new Date();
+    return await persist({
+      id: schedule.id,
+      name: `${session.name} (copy)`,
+      schedule,
+      createdAt: now,
+      updatedAt: now
+    });
+  }
+
+  async function deleteSession(id: string): Promise<boolean> {
+    try {
+      const result = await playerApi.deleteSession(id);
+      if (result.success) {
+        sessions.value = sessions.value.filter(session => session.id !== id);
+        return true;
+      }
+      return false;
+    } catch (error) {
+      console.error('Error deleting session:', error);
+      return false;
+    }
+  }
+
+  return {
+    // State
+    sessions,
+    isLoading,
+
+    // Getters
+    sortedSessions,
+    getSession,
+
+    // Actions
+    loadSessions,
+    saveSchedule,
+    renameSession,
+    duplicateSession,
+    deleteSession
+  };
+});
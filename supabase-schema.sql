@@ -5,16 +5,33 @@ CREATE TABLE IF NOT EXISTS public.players (
     id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
     user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
     name TEXT NOT NULL,
-    skill_level DECIMAL(2, 1) NOT NULL CHECK (
+    skill_level DECIMAL(3, 2) NOT NULL CHECK (
         skill_level >= 1.0
         AND skill_level <= 5.0
     ),
     partner_id UUID REFERENCES public.players(id) ON DELETE
     SET NULL,
+        gender TEXT CHECK (gender IN ('male', 'female')),
+        avoid_partner_ids UUID[] DEFAULT '{}' NOT NULL,
+        avoid_opponent_ids UUID[] DEFAULT '{}' NOT NULL,
+        needs_accessible_court BOOLEAN DEFAULT false NOT NULL,
         created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
         updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
 );
 ALTER TABLE public.players ENABLE ROW LEVEL SECURITY;
+-- Keep two decimals of skill level on players tables created before the rating engine
+ALTER TABLE public.players
+ALTER COLUMN skill_level TYPE DECIMAL(3, 2);
+-- Add gender to players tables created before mixed doubles support
+ALTER TABLE public.players
+ADD COLUMN IF NOT EXISTS gender TEXT CHECK (gender IN ('male', 'female'));
+-- Add never-partner and never-opponent lists to players tables created before they existed
+ALTER TABLE public.players
+ADD COLUMN IF NOT EXISTS avoid_partner_ids UUID[] DEFAULT '{}' NOT NULL,
+    ADD COLUMN IF NOT EXISTS avoid_opponent_ids UUID[] DEFAULT '{}' NOT NULL;
+-- Add accessible court needs to players tables created before court details existed
+ALTER TABLE public.players
+ADD COLUMN IF NOT EXISTS needs_accessible_court BOOLEAN DEFAULT false NOT NULL;
 -- Create indexes for better performance
 CREATE INDEX IF NOT EXISTS players_user_id_idx ON public.players(user_id);
 CREATE INDEX IF NOT EXISTS players_name_idx ON public.players(name);
@@ -42,11 +59,11 @@ CREATE TABLE IF NOT EXISTS public.user_preferences (
     user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL UNIQUE,
     number_of_courts INTEGER DEFAULT 3 CHECK (
         number_of_courts >= 1
-        AND number_of_courts <= 4
+        AND number_of_courts <= 20
     ),
     number_of_rounds INTEGER DEFAULT 7 CHECK (
         number_of_rounds >= 1
-        AND number_of_rounds <= 15
+        AND number_of_rounds <= 30
     ),
     balance_skill_levels BOOLEAN DEFAULT true,
     respect_partner_preferences BOOLEAN DEFAULT true,
@@ -65,9 +82,27 @@ CREATE TABLE IF NOT EXISTS public.user_preferences (
     print_compact_layout BOOLEAN DEFAULT false,
     print_color_mode BOOLEAN DEFAULT true,
     print_show_ratings BOOLEAN DEFAULT true,
+    -- Scoring profiles
+    scoring_profile_id TEXT DEFAULT 'standard' NOT NULL,
+    scoring_profiles JSONB DEFAULT '[]'::jsonb NOT NULL,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
 );
+-- Raise the court and round limits on user_preferences tables created with the old ones
+ALTER TABLE public.user_preferences DROP CONSTRAINT IF EXISTS user_preferences_number_of_courts_check,
+    ADD CONSTRAINT user_preferences_number_of_courts_check CHECK (
+        number_of_courts >= 1
+        AND number_of_courts <= 20
+    ),
+    DROP CONSTRAINT IF EXISTS user_preferences_number_of_rounds_check,
+    ADD CONSTRAINT user_preferences_number_of_rounds_check CHECK (
+        number_of_rounds >= 1
+        AND number_of_rounds <= 30
+    );
+-- Add scoring profiles to user_preferences tables created before they existed
+ALTER TABLE public.user_preferences
+ADD COLUMN IF NOT EXISTS scoring_profile_id TEXT DEFAULT 'standard' NOT NULL,
+    ADD COLUMN IF NOT EXISTS scoring_profiles JSONB DEFAULT '[]'::jsonb NOT NULL;
 -- Enable Row Level Security for user_preferences
 ALTER TABLE public.user_preferences ENABLE ROW LEVEL SECURITY;
 -- Create indexes for user_preferences
@@ -82,4 +117,101 @@ UPDATE USING (auth.uid() = user_id);
 CREATE POLICY "Users can delete their own preferences" ON public.user_preferences FOR DELETE USING (auth.uid() = user_id);
 -- Trigger to automatically update updated_at on user_preferences updates
 CREATE TRIGGER update_user_preferences_updated_at BEFORE
-UPDATE ON public.user_preferences FOR EACH ROW EXECUTE PROCEDURE update_updated_at_column();
\ No newline at end of file
+UPDATE ON public.user_preferences FOR EACH ROW EXECUTE PROCEDURE update_updated_at_column();
+-- Create game_results table for recorded scores
+CREATE TABLE IF NOT EXISTS public.game_results (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    schedule_id TEXT NOT NULL,
+    game_id TEXT NOT NULL,
+    event_label TEXT DEFAULT '' NOT NULL,
+    round INTEGER NOT NULL CHECK (round >= 1),
+    court INTEGER NOT NULL CHECK (court >= 1),
+    team1_player_ids UUID[] NOT NULL,
+    team2_player_ids UUID[] NOT NULL,
+    team1_score INTEGER NOT NULL CHECK (team1_score >= 0),
+    team2_score INTEGER NOT NULL CHECK (team2_score >= 0),
+    played_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    UNIQUE (user_id, schedule_id, game_id)
+);
+-- Enable Row Level Security for game_results
+ALTER TABLE public.game_results ENABLE ROW LEVEL SECURITY;
+-- Create indexes for game_results
+CREATE INDEX IF NOT EXISTS game_results_user_id_idx ON public.game_results(user_id);
+CREATE INDEX IF NOT EXISTS game_results_schedule_id_idx ON public.game_results(schedule_id);
+-- Row Level Security Policies for game_results
+CREATE POLICY "Users can view their own game results" ON public.game_results FOR
+SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert their own game results" ON public.game_results FOR
+INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own game results" ON public.game_results FOR
+UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own game results" ON public.game_results FOR DELETE USING (auth.uid() = user_id);
+-- Trigger to automatically update updated_at on game_results updates
+CREATE TRIGGER update_game_results_updated_at BEFORE
+UPDATE ON public.game_results FOR EACH ROW EXECUTE PROCEDURE update_updated_at_column();
+-- Create rating_adjustments table for rating engine proposals and history
+CREATE TABLE IF NOT EXISTS public.rating_adjustments (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    player_id UUID REFERENCES public.players(id) ON DELETE CASCADE NOT NULL,
+    result_id TEXT NOT NULL,
+    previous_rating DECIMAL(3, 2) NOT NULL,
+    proposed_rating DECIMAL(3, 2) NOT NULL,
+    delta DECIMAL(4, 2) NOT NULL,
+    status TEXT DEFAULT 'pending' NOT NULL CHECK (
+        status IN ('pending', 'accepted', 'rejected', 'reverted')
+    ),
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+-- Allow reverted adjustments on rating_adjustments tables created before they existed
+ALTER TABLE public.rating_adjustments DROP CONSTRAINT IF EXISTS rating_adjustments_status_check,
+    ADD CONSTRAINT rating_adjustments_status_check CHECK (
+        status IN ('pending', 'accepted', 'rejected', 'reverted')
+    );
+-- Enable Row Level Security for rating_adjustments
+ALTER TABLE public.rating_adjustments ENABLE ROW LEVEL SECURITY;
+-- Create indexes for rating_adjustments
+CREATE INDEX IF NOT EXISTS rating_adjustments_user_id_idx ON public.rating_adjustments(user_id);
+CREATE INDEX IF NOT EXISTS rating_adjustments_player_id_idx ON public.rating_adjustments(player_id);
+-- Row Level Security Policies for rating_adjustments
+CREATE POLICY "Users can view their own rating adjustments" ON public.rating_adjustments FOR
+SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert their own rating adjustments" ON public.rating_adjustments FOR
+INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own rating adjustments" ON public.rating_adjustments FOR
+UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own rating adjustments" ON public.rating_adjustments FOR DELETE USING (auth.uid() = user_id);
+-- Trigger to automatically update updated_at on rating_adjustments updates
+CREATE TRIGGER update_rating_adjustments_updated_at BEFORE
+UPDATE ON public.rating_adjustments FOR EACH ROW EXECUTE PROCEDURE update_updated_at_column();
+-- Create schedule_sessions table for saved schedule history
+CREATE TABLE IF NOT EXISTS public.schedule_sessions (
+    id UUID PRIMARY KEY,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    name TEXT NOT NULL,
+    event_label TEXT DEFAULT '' NOT NULL,
+    schedule JSONB NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+-- Enable Row Level Security for schedule_sessions
+ALTER TABLE public.schedule_sessions ENABLE ROW LEVEL SECURITY;
+-- Create indexes for schedule_sessions
+CREATE INDEX IF NOT EXISTS schedule_sessions_user_id_idx ON public.schedule_sessions(user_id);
+CREATE INDEX IF NOT EXISTS schedule_sessions_updated_at_idx ON public.schedule_sessions(updated_at);
+-- Row Level Security Policies for schedule_sessions
+CREATE POLICY "Users can view their own sessions" ON public.schedule_sessions FOR
+SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert their own sessions" ON public.schedule_sessions FOR
+INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own sessions" ON public.schedule_sessions FOR
+UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own sessions" ON public.schedule_sessions FOR DELETE USING (auth.uid() = user_id);
+-- Trigger to automatically update updated_at on schedule_sessions updates
+CREATE TRIGGER update_schedule_sessions_updated_at BEFORE
+UPDATE ON public.schedule_sessions FOR EACH ROW EXECUTE PROCEDURE update_updated_at_column();
\ No newline at end of file
@@ -0,0 +1,129 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { PlayerApiSupabase } from '../../../services/playerApiSupabase';
+
+const playerRow = {
+  id: 'p1',
+  name: 'Alex',
+  skill_level: 3.55,
+  partner_id: 'p2',
+  gender: null,
+  avoid_partner_ids: [],
+  avoid_opponent_ids: [],
+  needs_accessible_court: false
+};
+
+// Schedules come back from the JSONB column with their dates as strings
+const sessionRow = {
+  id: 's1',
+  user_id: 'user-1',
+  name: 'League Night',
+  event_label: 'League Night',
+  schedule: {
+    id: 's1',
+    rounds: [
+      [{ id: 'g-1-1', round: 1, court: 1, team1: ['a', 'b'], team2: ['c', 'd'], team1Score: 11, team2Score: 5 }]
+    ],
+    restingPlayers: [[]],
+    eventLabel: 'League Night',
+    options: { numberOfCourts: 1, numberOfRounds: 1 },
+    generatedAt: '2025-03-01T19:00:00.000Z'
+  },
+  created_at: '2025-03-01T19:00:05.000Z',
+  updated_at: '2025-03-01T21:30:00.000Z'
+};
+
+let sentUpdates: Record<string, unknown>[] = [];
+let sentUpserts: Record<string, unknown>[] = [];
+let returnedRow: unknown = playerRow;
+
+function mockSupabase() {
+  const query = {
+    eq: () => query,
+    select: () => query,
+    order: () => Promise.resolve({ data: [returnedRow], error: null }),
+    single: () => Promise.resolve({ data: returnedRow, error: null })
+  };
+  return {
+    from: () => ({
+      select: () => query,
+      update: (data: Record<string, unknown>) => {
+        sentUpdates.push(data);
+        return query;
+      },
+      upsert: (data: Record<string, unknown>) => {
+        sentUpserts.push(data);
+        return query;
+      }
+    })
+  };
+}
+
+describe('PlayerApiSupabase', () => {
+  beforeEach(() => {
+    sentUpdates = [];
+    sentUpserts = [];
+    returnedRow = playerRow;
+    vi.stubGlobal('useSupabaseClient', mockSupabase);
+    vi.stubGlobal('useSupabaseUser', () => ({ value: { id: 'user-1' } }));
+  });
+
+  describe('updatePlayer', () => {
+    it('should leave the partner alone on a skill-only update', async () => {
+      await new PlayerApiSupabase().updatePlayer('p1', { skillLevel: 3.55 });
+
+      expect(sentUpdates[0]).toMatchObject({ skill_level: 3.55 });
+      expect(sentUpdates[0]?.partner_id).toBeUndefined();
+    });
+
+    it('should leave the partner alone when only the avoid lists change', async () => {
+      await new PlayerApiSupabase().updatePlayer('p1', { avoidPartnerIds: [], avoidOpponentIds: ['p3'] });
+
+      expect(sentUpdates[0]).toMatchObject({ avoid_partner_ids: [], avoid_opponent_ids: ['p3'] });
+      expect(sentUpdates[0]?.partner_id).toBeUndefined();
+    });
+
+    it('should clear the partner when the update asks for it', async () => {
+      await new PlayerApiSupabase().updatePlayer('p1', { partnerId: undefined });
+
+      expect(sentUpdates[0]?.partner_id).toBeNull();
+    });
+  });
+
+  describe('sessions', () => {
+    it('should turn session rows back into sessions with dates', async () => {
+      returnedRow = sessionRow;
+
+      const result = await new PlayerApiSupabase().getSessions();
+
+      const session = result.data?.[0];
+      expect(session).toMatchObject({ id: 's1', name: 'League Night' });
+      expect(session?.createdAt).toEqual(new Date('2025-03-01T19:00:05.000Z'));
+      expect(session?.updatedAt).toEqual(new Date('2025-03-01T21:30:00.000Z'));
+      expect(session?.schedule.generatedAt).toBeInstanceOf(Date);
+      expect(session?.schedule.generatedAt).toEqual(new Date('2025-03-01T19:00:00.000Z'));
+      expect(session?.schedule.rounds[0]?.[0]).toMatchObject({ team1Score: 11, team2Score: 5 });
+    });
+
+    it('should save the schedule as JSON with ISO timestamps', async () => {
+      returnedRow = sessionRow;
+      const api = new PlayerApiSupabase();
+      const [loaded] = (await api.getSessions()).data ?? [];
+      if (!loaded) {
+        throw new Error('Expected a session');
+      }
+
+      const result = await api.saveSession(loaded);
+
+      expect(sentUpserts[0]).toMatchObject({
+        id: 's1',
+        user_id: 'user-1',
+        name: 'League Night',
+        event_label: 'League Night',
+        created_at: '2025-03-01T19:00:05.000Z',
+        updated_at: '2025-03-01T21:30:00.000Z'
+      });
+      expect(JSON.parse(JSON.stringify(sentUpserts[0]?.schedule)).generatedAt).toBe('2025-03-01T19:00:00.000Z');
+      expect(result.data?.schedule.generatedAt).toBeInstanceOf(Date);
+    });
+  });
+});
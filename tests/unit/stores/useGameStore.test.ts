@@ -0,0 +1,145 @@
+import { createPinia, setActivePinia } from 'pinia';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { computed, ref } from 'vue';
+import { useGameStore } from '../../../stores/useGameStore';
+import type { GameSchedule, GenerationProgress, Player } from '../../../types';
+import type { ScheduleWorkerMessage } from '../../../utils/scheduleGeneration';
+
+/**
+ * Stand-in for the schedule generation worker that lets a test post its messages
+ */
+class FakeWorker {
+  static latest: FakeWorker | null = null;
+  posted: unknown[] = [];
+  terminated = false;
+  private listeners: Record<string, ((event: unknown) => void)[]> = {};
+
+  constructor() {
+    FakeWorker.latest = this;
+  }
+
+  addEventListener(type: string, listener: (event: unknown) => void): void {
+    this.listeners[type] = [...(this.listeners[type] ?? []), listener];
+  }
+
+  postMessage(message: unknown): void {
+    this.posted.push(message);
+  }
+
+  terminate(): void {
+    this.terminated = true;
+  }
+
+  send(message: ScheduleWorkerMessage): void {
+    for (const listener of this.listeners.message ?? []) {
+      listener({ data: message });
+    }
+  }
+}
+
+const players: Player[] = Array.from({ length: 8 }, (_, i) => ({ id: `p${i}`, name: `Player ${i}`, skillLevel: 3 }));
+const saveSchedule = vi.fn(async () => true);
+
+function makeSchedule(): GameSchedule {
+  return {
+    rounds: [[{ id: 'g-1-1', round: 1, court: 1, team1: ['p0', 'p1'], team2: ['p2', 'p3'] }]],
+    restingPlayers: [[]],
+    eventLabel: 'League Night',
+    options: {
+      numberOfCourts: 1,
+      numberOfRounds: 1,
+      balanceSkillLevels: true,
+      respectPartnerPreferences: false,
+      maxSkillDifference: 2,
+      distributeRestEqually: true
+    },
+    generatedAt: new Date('2025-03-01T19:00:00')
+  };
+}
+
+/** Let the store reach the point where it waits on the worker */
+async function workerStarted(): Promise<FakeWorker> {
+  await vi.waitFor(() => expect(FakeWorker.latest?.posted).toHaveLength(1));
+  return FakeWorker.latest as FakeWorker;
+}
+
+describe('useGameStore', () => {
+  beforeEach(() => {
+    FakeWorker.latest = null;
+    saveSchedule.mockClear();
+    vi.stubGlobal('ref', ref);
+    vi.stubGlobal('computed', computed);
+    vi.stubGlobal('Worker', FakeWorker);
+    vi.stubGlobal('useSupabaseClient', () => ({}));
+    vi.stubGlobal('useSupabaseUser', () => ({ value: null }));
+    vi.stubGlobal('usePlayerStore', () => ({ selectedPlayers: players }));
+    vi.stubGlobal('useSessionStore', () => ({ saveSchedule }));
+    setActivePinia(createPinia());
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('generateSchedule', () => {
+    it('should show worker progress and keep the finished schedule', async () => {
+      const store = useGameStore();
+      const generating = store.generateSchedule('League Night');
+      const worker = await workerStarted();
+
+      expect(store.isGenerating).toBe(true);
+      expect(store.canCancelGeneration).toBe(true);
+      const progress: GenerationProgress = { iteration: 12, elapsedMs: 400, budgetMs: 3000, bestScore: 42 };
+      worker.send({ type: 'progress', progress });
+      expect(store.generationProgress).toEqual(progress);
+
+      worker.send({ type: 'done', schedule: makeSchedule() });
+      const schedule = await generating;
+
+      expect(schedule?.id).toBeDefined();
+      expect(store.currentSchedule).toEqual(schedule);
+      expect(saveSchedule).toHaveBeenCalledWith(schedule);
+      expect(worker.terminated).toBe(true);
+      expect(store.isGenerating).toBe(false);
+      expect(store.generationProgress).toBeNull();
+    });
+
+    it('should stop the worker and clear the generating state when cancelled', async () => {
+      const store = useGameStore();
+      const generating = store.generateSchedule('League Night');
+      const worker = await workerStarted();
+
+      store.cancelGeneration();
+
+      expect(await generating).toBeNull();
+      expect(worker.terminated).toBe(true);
+      expect(store.isGenerating).toBe(false);
+      expect(store.canCancelGeneration).toBe(false);
+      expect(store.currentSchedule).toBeNull();
+      expect(saveSchedule).not.toHaveBeenCalled();
+    });
+
+    it('should pass on errors from the worker', async () => {
+      const store = useGameStore();
+      const generating = store.generateSchedule('League Night');
+      const worker = await workerStarted();
+
+      worker.send({ type: 'error', message: 'Not enough players' });
+
+      await expect(generating).rejects.toThrow('Not enough players');
+      expect(worker.terminated).toBe(true);
+      expect(store.isGenerating).toBe(false);
+    });
+
+    it('should not offer cancelling when there is no worker to stop', async () => {
+      vi.stubGlobal('Worker', undefined);
+      const store = useGameStore();
+      store.matchingOptions = { ...store.matchingOptions, numberOfCourts: 2, numberOfRounds: 1, effort: undefined };
+
+      const schedule = await store.generateSchedule('League Night');
+
+      expect(schedule?.rounds).toHaveLength(1);
+      expect(store.canCancelGeneration).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import { createPinia, setActivePinia } from 'pinia';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { useRatingStore } from '../../../stores/useRatingStore';
+import type { GameResult, Player, RatingAdjustment } from '../../../types';
+
+let players: Player[] = [];
+let saved: RatingAdjustment[] = [];
+
+vi.mock('~/composables/usePlayerApi', () => ({
+  usePlayerApi: () => ({
+    createRatingAdjustments: vi.fn(async (adjustments: Omit<RatingAdjustment, 'id'>[]) => {
+      const created = adjustments.map((adjustment, index) => ({ ...adjustment, id: `adj${saved.length + index}` }));
+      saved.push(...created);
+      return { success: true, message: 'Saved', data: created };
+    }),
+    updateRatingAdjustment: vi.fn(async (id: string, updates: Pick<RatingAdjustment, 'status' | 'reviewedAt'>) => {
+      const index = saved.findIndex(adjustment => adjustment.id === id);
+      const updated = { ...(saved[index] as RatingAdjustment), ...updates };
+      saved[index] = updated;
+      return { success: true, message: 'Updated', data: updated };
+    })
+  })
+}));
+
+function makeResult(team1Score: number, team2Score: number): GameResult {
+  return {
+    id: 'r1',
+    scheduleId: 's1',
+    gameId: 'g-1-1',
+    eventLabel: 'League Night',
+    round: 1,
+    court: 1,
+    team1: ['a', 'b'],
+    team2: ['c', 'd'],
+    team1Score,
+    team2Score,
+    playedAt: new Date('2025-03-01T19:00:00')
+  };
+}
+
+function skillOf(id: string): number | undefined {
+  return players.find(p => p.id === id)?.skillLevel;
+}
+
+describe('useRatingStore', () => {
+  beforeEach(() => {
+    players = ['a', 'b', 'c', 'd'].map(id => ({ id, name: id.toUpperCase(), skillLevel: 3.5 }));
+    saved = [];
+    vi.stubGlobal('usePlayerStore', () => ({
+      getPlayer: (id: string) => players.find(p => p.id === id),
+      updatePlayer: async (id: string, updates: Partial<Player>) => {
+        players = players.map(p => (p.id === id ? { ...p, ...updates } : p));
+        return true;
+      }
+    }));
+    setActivePinia(createPinia());
+  });
+
+  describe('proposeAdjustments', () => {
+    it('should apply changes straight away when approval is not required', async () => {
+      const store = useRatingStore();
+      store.updateSettings({ enabled: true, requireApproval: false });
+
+      await store.proposeAdjustments(makeResult(11, 5));
+
+      expect(skillOf('a')).toBeGreaterThan(3.5);
+      expect(skillOf('c')).toBeLessThan(3.5);
+      expect(store.adjustments.every(adjustment => adjustment.status === 'accepted')).toBe(true);
+    });
+
+    it('should revert accepted changes when a score is re-recorded', async () => {
+      const store = useRatingStore();
+      store.updateSettings({ enabled: true, requireApproval: false });
+
+      await store.proposeAdjustments(makeResult(11, 5));
+      await store.proposeAdjustments(makeResult(5, 11));
+
+      // Only the corrected score counts, as if it had been recorded first
+      const corrected = store.adjustments.filter(adjustment => adjustment.status === 'accepted');
+      expect(corrected).toHaveLength(4);
+      for (const adjustment of corrected) {
+        expect(skillOf(adjustment.playerId)).toBeCloseTo(3.5 + adjustment.delta);
+      }
+      expect(skillOf('a')).toBeLessThan(3.5);
+      expect(store.adjustments.filter(adjustment => adjustment.status === 'reverted')).toHaveLength(4);
+    });
+
+    it('should reject pending changes when a score is re-recorded', async () => {
+      const store = useRatingStore();
+      store.updateSettings({ enabled: true, requireApproval: true });
+
+      await store.proposeAdjustments(makeResult(11, 5));
+      await store.proposeAdjustments(makeResult(5, 11));
+
+      expect(store.pendingAdjustments).toHaveLength(4);
+      expect(store.adjustments.filter(adjustment => adjustment.status === 'rejected')).toHaveLength(4);
+      expect(players.every(p => p.skillLevel === 3.5)).toBe(true);
+    });
+  });
+
+  describe('discardAdjustmentsForResult', () => {
+    it('should restore ratings when an accepted score is cleared', async () => {
+      const store = useRatingStore();
+      store.updateSettings({ enabled: true, requireApproval: true });
+
+      await store.proposeAdjustments(makeResult(11, 5));
+      await store.acceptAdjustment('adj0');
+      await store.discardAdjustmentsForResult('r1');
+
+      expect(players.every(p => p.skillLevel === 3.5)).toBe(true);
+      expect(store.adjustments.find(adjustment => adjustment.id === 'adj0')?.status).toBe('reverted');
+      expect(store.pendingAdjustments).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { createPinia, setActivePinia } from 'pinia';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { useResultsStore } from '../../../stores/useResultsStore';
+import type { Game, GameResult, GameSchedule } from '../../../types';
+import { computeStandings } from '../../../utils/standings';
+
+const saved: GameResult[] = [];
+
+vi.mock('~/composables/usePlayerApi', () => ({
+  usePlayerApi: () => ({
+    saveGameResult: vi.fn(async (result: Omit<GameResult, 'id'>) => {
+      const index = saved.findIndex(r => r.scheduleId === result.scheduleId && r.gameId === result.gameId);
+      const stored = { ...result, id: index === -1 ? `r${saved.length + 1}` : (saved[index]?.id ?? '') };
+      if (index === -1) {
+        saved.push(stored);
+      } else {
+        saved[index] = stored;
+      }
+      return { success: true, message: 'Saved', data: stored };
+    })
+  })
+}));
+
+function makeGame(team1Score: number, team2Score: number): Game {
+  return { id: 'g-1-1', round: 1, court: 1, team1: ['a', 'b'], team2: ['c', 'd'], team1Score, team2Score };
+}
+
+const schedule: GameSchedule = {
+  id: 's1',
+  rounds: [[makeGame(11, 5)]],
+  restingPlayers: [[]],
+  eventLabel: 'League Night',
+  options: {
+    numberOfCourts: 1,
+    numberOfRounds: 1,
+    balanceSkillLevels: false,
+    respectPartnerPreferences: false,
+    maxSkillDifference: 2,
+    distributeRestEqually: true
+  },
+  generatedAt: new Date('2025-03-01T19:00:00')
+};
+
+describe('useResultsStore', () => {
+  beforeEach(() => {
+    saved.length = 0;
+    setActivePinia(createPinia());
+    vi.useRealTimers();
+  });
+
+  describe('saveResult', () => {
+    it('should record the score of a game', async () => {
+      const store = useResultsStore();
+      const result = await store.saveResult(schedule, makeGame(11, 5));
+
+      expect(result).toMatchObject({ scheduleId: 's1', gameId: 'g-1-1', team1Score: 11, team2Score: 5 });
+      expect(store.getResultsForSchedule('s1')).toHaveLength(1);
+    });
+
+    it('should skip games without both scores', async () => {
+      const store = useResultsStore();
+      const result = await store.saveResult(schedule, { ...makeGame(11, 5), team2Score: undefined });
+
+      expect(result).toBeNull();
+      expect(store.totalResults).toBe(0);
+    });
+
+    it('should update an edited score in place', async () => {
+      const store = useResultsStore();
+      const first = await store.saveResult(schedule, makeGame(11, 5));
+      const edited = await store.saveResult(schedule, makeGame(9, 11));
+
+      expect(store.totalResults).toBe(1);
+      expect(edited?.id).toBe(first?.id);
+      expect(edited).toMatchObject({ team1Score: 9, team2Score: 11 });
+    });
+
+    it('should keep when the game was played when its score is corrected', async () => {
+      const store = useResultsStore();
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2025-03-01T19:30:00'));
+      await store.saveResult(schedule, makeGame(11, 5));
+
+      vi.setSystemTime(new Date('2025-03-05T09:00:00'));
+      const edited = await store.saveResult(schedule, makeGame(9, 11));
+
+      expect(edited?.playedAt).toEqual(new Date('2025-03-01T19:30:00'));
+    });
+
+    it('should reflect edited scores in the standings', async () => {
+      const store = useResultsStore();
+      await store.saveResult(schedule, makeGame(11, 5));
+      await store.saveResult(schedule, makeGame(9, 11));
+
+      const standings = computeStandings(store.results);
+      expect(standings.find(s => s.playerId === 'a')).toMatchObject({ wins: 0, losses: 1, pointDifferential: -2 });
+      expect(standings.find(s => s.playerId === 'c')).toMatchObject({ wins: 1, losses: 0, pointDifferential: 2 });
+    });
+  });
+});
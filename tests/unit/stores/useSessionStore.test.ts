@@ -0,0 +1,129 @@
+import { createPinia, setActivePinia } from 'pinia';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { useSessionStore } from '../../../stores/useSessionStore';
+import type { GameSchedule, ScheduleSession } from '../../../types';
+
+let saved: ScheduleSession[] = [];
+
+vi.mock('~/composables/usePlayerApi', () => ({
+  usePlayerApi: () => ({
+    getSessions: vi.fn(async () => ({ success: true, message: 'Loaded', data: [...saved] })),
+    saveSession: vi.fn(async (session: ScheduleSession) => {
+      saved = [...saved.filter(s => s.id !== session.id), session];
+      return { success: true, message: 'Saved', data: session };
+    }),
+    deleteSession: vi.fn(async (id: string) => {
+      saved = saved.filter(s => s.id !== id);
+      return { success: true, message: 'Deleted' };
+    })
+  })
+}));
+
+function makeSchedule(): GameSchedule {
+  return {
+    id: 's1',
+    rounds: [
+      [{ id: 'g-1-1', round: 1, court: 1, team1: ['a', 'b'], team2: ['c', 'd'], team1Score: 11, team2Score: 5 }]
+    ],
+    restingPlayers: [[]],
+    eventLabel: 'League Night',
+    options: {
+      numberOfCourts: 1,
+      numberOfRounds: 1,
+      balanceSkillLevels: true,
+      respectPartnerPreferences: false,
+      maxSkillDifference: 2,
+      distributeRestEqually: true
+    },
+    generatedAt: new Date('2025-03-01T19:00:00')
+  };
+}
+
+describe('useSessionStore', () => {
+  beforeEach(() => {
+    saved = [];
+    setActivePinia(createPinia());
+  });
+
+  describe('saveSchedule', () => {
+    it('should create a session named after the event when a schedule is generated', async () => {
+      const store = useSessionStore();
+
+      const session = await store.saveSchedule(makeSchedule());
+
+      expect(session).toMatchObject({ id: 's1', name: 'League Night' });
+      expect(store.sessions).toHaveLength(1);
+      expect(saved).toHaveLength(1);
+    });
+
+    it('should skip schedules without an ID', async () => {
+      const store = useSessionStore();
+
+      expect(await store.saveSchedule({ ...makeSchedule(), id: undefined })).toBeNull();
+      expect(store.sessions).toHaveLength(0);
+    });
+
+    it('should keep the name and creation time when a schedule is saved again', async () => {
+      const store = useSessionStore();
+      const first = await store.saveSchedule(makeSchedule());
+      await store.renameSession('s1', 'Tuesday Ladder');
+
+      const schedule = makeSchedule();
+      schedule.eventLabel = 'Changed Label';
+      const again = await store.saveSchedule(schedule);
+
+      expect(again?.name).toBe('Tuesday Ladder');
+      expect(again?.createdAt).toEqual(first?.createdAt);
+      expect(store.sessions).toHaveLength(1);
+    });
+  });
+
+  describe('renameSession', () => {
+    it('should trim the new name', async () => {
+      const store = useSessionStore();
+      await store.saveSchedule(makeSchedule());
+
+      expect(await store.renameSession('s1', '  Finals Night  ')).toBe(true);
+      expect(store.getSession('s1')?.name).toBe('Finals Night');
+    });
+
+    it('should reject an empty name', async () => {
+      const store = useSessionStore();
+      await store.saveSchedule(makeSchedule());
+
+      expect(await store.renameSession('s1', '   ')).toBe(false);
+      expect(store.getSession('s1')?.name).toBe('League Night');
+    });
+  });
+
+  describe('duplicateSession', () => {
+    it('should copy the schedule under a new ID with no scores', async () => {
+      const store = useSessionStore();
+      await store.saveSchedule(makeSchedule());
+
+      const copy = await store.duplicateSession('s1');
+
+      expect(copy?.id).not.toBe('s1');
+      expect(copy?.schedule.id).toBe(copy?.id);
+      expect(copy?.name).toBe('League Night (copy)');
+      expect(copy?.schedule.rounds[0]?.[0]).toMatchObject({ team1: ['a', 'b'], team2: ['c', 'd'] });
+      expect(copy?.schedule.rounds[0]?.[0]?.team1Score).toBeUndefined();
+      expect(copy?.schedule.rounds[0]?.[0]?.team2Score).toBeUndefined();
+      // The original keeps its scores
+      expect(store.getSession('s1')?.schedule.rounds[0]?.[0]?.team1Score).toBe(11);
+      expect(store.sessions).toHaveLength(2);
+    });
+  });
+
+  describe('deleteSession', () => {
+    it('should remove the session', async () => {
+      const store = useSessionStore();
+      await store.saveSchedule(makeSchedule());
+
+      expect(await store.deleteSession('s1')).toBe(true);
+      expect(store.sessions).toHaveLength(0);
+      await store.loadSessions();
+      expect(store.sessions).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, expect, it } from 'vitest';
+import type { Bracket, GameSchedule, PlayerStanding, Team } from '../../../types';
+import {
+  clearBracketScore,
+  createBracket,
+  getBracketChampion,
+  getBracketRounds,
+  recordBracketScore,
+  seedBracketTeams
+} from '../../../utils/bracket';
+
+function makeTeams(count: number): Team[] {
+  return Array.from({ length: count }, (_, index) => [`p${index * 2}`, `p${index * 2 + 1}`] as Team);
+}
+
+function makeStanding(playerId: string): PlayerStanding {
+  return {
+    playerId,
+    gamesPlayed: 1,
+    wins: 0,
+    losses: 0,
+    ties: 0,
+    pointsFor: 0,
+    pointsAgainst: 0,
+    pointDifferential: 0,
+    winPercentage: 0
+  };
+}
+
+function makeSchedule(mode: 'rotating' | 'fixedTeams'): GameSchedule {
+  return {
+    rounds: [
+      [
+        {
+          id: 'g1',
+          round: 1,
+          court: 1,
+          team1: ['a', 'b'],
+          team2: ['c', 'd'],
+          team1SkillLevel: 6,
+          team2SkillLevel: 6,
+          skillDifference: 0
+        },
+        {
+          id: 'g2',
+          round: 1,
+          court: 2,
+          team1: ['e', 'f'],
+          team2: ['g', 'h'],
+          team1SkillLevel: 6,
+          team2SkillLevel: 6,
+          skillDifference: 0
+        }
+      ]
+    ],
+    restingPlayers: [[]],
+    eventLabel: 'Pool Play',
+    options: {
+      mode,
+      numberOfCourts: 2,
+      numberOfRounds: 1,
+      balanceSkillLevels: true,
+      respectPartnerPreferences: false,
+      maxSkillDifference: 2,
+      distributeRestEqually: true
+    },
+    generatedAt: new Date()
+  };
+}
+
+/**
+ * Play every ready match, letting the better seed (listed first in the seeds) win
+ */
+function playOut(bracket: Bracket): Bracket {
+  let current = bracket;
+  for (let guard = 0; guard < 50; guard++) {
+    const ready = current.matches.find(
+      m => m.team1 && m.team2 && (m.team1Score === undefined || m.team2Score === undefined)
+    );
+    if (!ready?.team1 || !ready.team2) {
+      return current;
+    }
+    const seedOf = (team: Team) => current.seeds.findIndex(seed => seed.join() === team.join());
+    const team1Wins = seedOf(ready.team1) < seedOf(ready.team2);
+    current = recordBracketScore(current, ready.id, team1Wins ? 11 : 4, team1Wins ? 4 : 11);
+  }
+  return current;
+}
+
+describe('bracket utils', () => {
+  describe('seedBracketTeams', () => {
+    it('should keep fixed teams together in standings order', () => {
+      const standings = ['g', 'h', 'a', 'b', 'c', 'd', 'e', 'f'].map(makeStanding);
+
+      const teams = seedBracketTeams(makeSchedule('fixedTeams'), standings, 3);
+
+      expect(teams).toEqual([
+        ['g', 'h'],
+        ['a', 'b'],
+        ['c', 'd']
+      ]);
+    });
+
+    it('should pair the strongest qualifiers with the weakest in a rotating schedule', () => {
+      const standings = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'].map(makeStanding);
+
+      const teams = seedBracketTeams(makeSchedule('rotating'), standings, 2);
+
+      expect(teams).toEqual([
+        ['a', 'd'],
+        ['b', 'c']
+      ]);
+    });
+  });
+
+  describe('createBracket', () => {
+    it('should give byes to the top seeds', () => {
+      const bracket = createBracket(makeTeams(6), 'single');
+
+      const [firstRound, secondRound] = getBracketRounds(bracket, 'winners');
+      expect(firstRound).toHaveLength(4);
+      expect(firstRound?.filter(m => m.team2 === null).map(m => m.team1)).toEqual([
+        ['p0', 'p1'],
+        ['p2', 'p3']
+      ]);
+      expect(secondRound?.some(m => m.team1?.[0] === 'p0')).toBe(true);
+    });
+
+    it('should crown the top seed when the better seed always wins', () => {
+      const bracket = playOut(createBracket(makeTeams(8), 'single'));
+
+      expect(bracket.matches).toHaveLength(7);
+      expect(getBracketChampion(bracket)).toEqual(['p0', 'p1']);
+    });
+
+    it('should give every team a second life in double elimination', () => {
+      const bracket = createBracket(makeTeams(8), 'double');
+
+      expect(getBracketRounds(bracket, 'losers')).toHaveLength(4);
+      // 7 winners side games, 6 losers side games and a grand final
+      expect(bracket.matches).toHaveLength(14);
+
+      const finished = playOut(bracket);
+      const final = finished.matches.find(m => m.side === 'final');
+      expect(final?.team1).toEqual(['p0', 'p1']);
+      expect(final?.team2).toEqual(['p2', 'p3']);
+      expect(getBracketChampion(finished)).toEqual(['p0', 'p1']);
+    });
+  });
+
+  describe('recordBracketScore', () => {
+    it('should reject ties', () => {
+      const bracket = createBracket(makeTeams(4), 'single');
+
+      expect(() => recordBracketScore(bracket, 'W1-1', 9, 9)).toThrow('Playoff games need a winner');
+    });
+
+    it('should clear later games when an earlier score is removed', () => {
+      const bracket = playOut(createBracket(makeTeams(4), 'single'));
+      expect(getBracketChampion(bracket)).not.toBeNull();
+
+      const cleared = clearBracketScore(bracket, 'W1-1');
+
+      const final = cleared.matches.find(m => m.id === 'W2-1');
+      expect(final?.team1).toBeUndefined();
+      expect(final?.team1Score).toBeUndefined();
+      expect(getBracketChampion(cleared)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import {
+  countCourtPlayers,
+  fitCourts,
+  getCourtCapacity,
+  getCourtFormat,
+  getCourtName,
+  isCourtAvailable
+} from '../../../utils/courtFormats';
+
+describe('courtFormats', () => {
+  it('should default courts to doubles', () => {
+    expect(getCourtFormat({}, 1)).toBe('doubles');
+    expect(getCourtFormat({ courtFormats: ['singles'] }, 2)).toBe('doubles');
+    expect(getCourtFormat({ courtFormats: ['singles'] }, 1)).toBe('singles');
+  });
+
+  it('should count players needed for mixed courts', () => {
+    const options = { numberOfCourts: 3, courtFormats: ['doubles', 'singles'] as const };
+    expect(countCourtPlayers(options, [1, 2])).toBe(6);
+    expect(getCourtCapacity(options)).toBe(10);
+  });
+
+  it('should fit courts in order and skip courts that cannot be filled', () => {
+    const options = { numberOfCourts: 3, courtFormats: ['doubles', 'doubles', 'singles'] as const };
+    expect(fitCourts(options, 10)).toEqual([1, 2, 3]);
+    expect(fitCourts(options, 7)).toEqual([1, 3]);
+    expect(fitCourts(options, 3)).toEqual([3]);
+    expect(fitCourts(options, 1)).toEqual([]);
+  });
+
+  it('should name courts, falling back to their number', () => {
+    const options = { courts: [{ name: 'Center Court' }, { name: '  ' }] };
+    expect(getCourtName(options, 1)).toBe('Center Court');
+    expect(getCourtName(options, 2)).toBe('Court 2');
+    expect(getCourtName(options, 3)).toBe('Court 3');
+  });
+
+  it('should skip courts that are not available in a round', () => {
+    const options = { numberOfCourts: 3, courts: [{}, { availableRounds: [1, 2] }] };
+    expect(isCourtAvailable(options, 1, 5)).toBe(true);
+    expect(isCourtAvailable(options, 2, 3)).toBe(false);
+    expect(fitCourts(options, 12, 1)).toEqual([1, 2, 3]);
+    expect(fitCourts(options, 12, 3)).toEqual([1, 3]);
+    expect(fitCourts(options, 12)).toEqual([1, 2, 3]);
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import type { GameSchedule, Player } from '../../../types';
+import { buildPairingHistory } from '../../../utils/pairingHistory';
+import { PickleballMatcher } from '../../../utils/pickleballMatcher';
+
+function makeSchedule(generatedAt: string, team1: [string, string], team2: [string, string]): GameSchedule {
+  return {
+    rounds: [[{ id: 'g-1-1', court: 1, round: 1, team1, team2 }]],
+    restingPlayers: [[]],
+    eventLabel: '',
+    options: {
+      numberOfCourts: 1,
+      numberOfRounds: 1,
+      balanceSkillLevels: false,
+      respectPartnerPreferences: false,
+      maxSkillDifference: 2,
+      distributeRestEqually: true
+    },
+    generatedAt: new Date(generatedAt)
+  };
+}
+
+describe('buildPairingHistory', () => {
+  it('should record partners and opponents in both directions', () => {
+    const history = buildPairingHistory([makeSchedule('2025-03-01', ['a', 'b'], ['c', 'd'])], 1);
+
+    expect(history.partners.a?.b).toBe(1);
+    expect(history.partners.b?.a).toBe(1);
+    expect(history.partners.a?.c).toBeUndefined();
+    expect(history.opponents.a?.c).toBe(1);
+    expect(history.opponents.d?.b).toBe(1);
+    expect(history.opponents.a?.b).toBeUndefined();
+  });
+
+  it('should weight recent sessions more heavily', () => {
+    const history = buildPairingHistory(
+      [makeSchedule('2025-03-01', ['a', 'b'], ['c', 'd']), makeSchedule('2025-03-08', ['a', 'c'], ['b', 'd'])],
+      2
+    );
+
+    expect(history.partners.a?.c).toBe(1);
+    expect(history.partners.a?.b).toBe(0.5);
+  });
+
+  it('should only include the requested number of most recent sessions', () => {
+    const history = buildPairingHistory(
+      [
+        makeSchedule('2025-03-08', ['a', 'c'], ['b', 'd']),
+        makeSchedule('2025-03-01', ['a', 'b'], ['c', 'd']),
+        makeSchedule('2025-03-15', ['a', 'd'], ['b', 'c'])
+      ],
+      2
+    );
+
+    expect(history.partners.a?.d).toBe(1);
+    expect(history.partners.a?.c).toBe(0.5);
+    expect(history.partners.a?.b).toBeUndefined();
+  });
+
+  it('should count only the last regenerated draft of an evening', () => {
+    const history = buildPairingHistory(
+      [
+        makeSchedule('2025-03-01T19:00:00', ['a', 'b'], ['c', 'd']),
+        makeSchedule('2025-03-08T19:00:00', ['a', 'b'], ['c', 'd']),
+        makeSchedule('2025-03-08T19:05:00', ['a', 'c'], ['b', 'd']),
+        makeSchedule('2025-03-08T19:10:00', ['a', 'd'], ['b', 'c'])
+      ],
+      3
+    );
+
+    expect(history.partners.a?.d).toBe(1);
+    expect(history.partners.a?.c).toBeUndefined();
+    expect(history.partners.a?.b).toBe(0.5);
+  });
+
+  it('should return empty history when no sessions are requested', () => {
+    const history = buildPairingHistory([makeSchedule('2025-03-01', ['a', 'b'], ['c', 'd'])], 0);
+    expect(history).toEqual({ partners: {}, opponents: {} });
+  });
+
+  it('should steer the matcher away from last session partners', async () => {
+    const players: Player[] = Array.from({ length: 8 }, (_, i) => ({
+      id: `p${i + 1}`,
+      name: `Player ${i + 1}`,
+      skillLevel: 3
+    }));
+    const previous = makeSchedule('2025-03-01', ['p1', 'p2'], ['p3', 'p4']);
+    previous.rounds[0]?.push({ id: 'g-1-2', court: 2, round: 1, team1: ['p5', 'p6'], team2: ['p7', 'p8'] });
+    const history = buildPairingHistory([previous], 1);
+
+    const matcher = new PickleballMatcher(
+      players,
+      {
+        numberOfCourts: 2,
+        numberOfRounds: 1,
+        balanceSkillLevels: false,
+        respectPartnerPreferences: false,
+        maxSkillDifference: 2,
+        distributeRestEqually: true
+      },
+      history
+    );
+    const schedule = await matcher.generateSchedule();
+
+    for (const game of schedule.rounds.flat()) {
+      for (const team of [game.team1, game.team2]) {
+        expect(history.partners[team[0]]?.[team[1]]).toBeUndefined();
+      }
+    }
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, expect, it } from 'vitest';
-import type { Game, GameSchedule, MatchingOptions, Player } from '../../../types';
-import { PickleballMatcher } from '../../../utils/pickleballMatcher';
+import type { Game, GameSchedule, GenerationProgress, MatchingOptions, Player, Team } from '../../../types';
+import { getSearchBudgetMs, PickleballMatcher } from '../../../utils/pickleballMatcher';
+import { getMaxSittingOut } from '../../../utils/scheduleLimits';
 
 /**
  * Helper function to validate all games have exactly 4 players
@@ -55,6 +56,70 @@ describe('PickleballMatcher', () => {
     });
   });
 
+  describe('progress', () => {
+    it('should report progress until every iteration is done', async () => {
+      const progress: GenerationProgress[] = [];
+      const matcher = new PickleballMatcher(
+        players.slice(0, 4),
+        { ...defaultOptions, numberOfCourts: 1, numberOfRounds: 2 },
+        undefined,
+        update => progress.push(update)
+      );
+      await matcher.generateSchedule();
+
+      const last = progress[progress.length - 1];
+      expect(progress.length).toBeGreaterThan(1);
+      expect(last?.iteration).toBe(last?.iterations);
+      expect(Number.isFinite(last?.bestScore)).toBe(true);
+    });
+  });
+
+  describe('search effort', () => {
+    it('should turn effort levels into time budgets', () => {
+      expect(getSearchBudgetMs(defaultOptions)).toBeUndefined();
+      expect(getSearchBudgetMs({ ...defaultOptions, effort: 'quick' })).toBe(1000);
+      expect(getSearchBudgetMs({ ...defaultOptions, effort: 'custom', effortSeconds: 90 })).toBe(60000);
+    });
+
+    it('should give a search only its share of the time budget', () => {
+      expect(getSearchBudgetMs({ ...defaultOptions, effort: 'thorough', effortShare: 0.25 })).toBe(2500);
+      expect(getSearchBudgetMs({ ...defaultOptions, effort: 'custom', effortSeconds: 8, effortShare: 0.5 })).toBe(4000);
+    });
+
+    it('should stop searching when the time budget runs out', async () => {
+      const options: MatchingOptions = { ...defaultOptions, numberOfCourts: 2, numberOfRounds: 4, effort: 'quick' };
+      const startedAt = Date.now();
+      const schedule = await new PickleballMatcher(players.slice(0, 10), options).generateSchedule();
+
+      expect(Date.now() - startedAt).toBeLessThan(3000);
+      expect(schedule.rounds).toHaveLength(4);
+      expect(schedule.searchIterations).toBeGreaterThan(0);
+    });
+
+    it('should only replace a schedule when improving it finds a better one', async () => {
+      const options: MatchingOptions = { ...defaultOptions, numberOfCourts: 2, numberOfRounds: 4, effort: 'quick' };
+      const matcher = new PickleballMatcher(players.slice(0, 10), options);
+      const schedule = await matcher.generateSchedule();
+      const improved = await matcher.improveSchedule(schedule);
+
+      expect(improved.score).toBeLessThanOrEqual(schedule.score ?? Number.POSITIVE_INFINITY);
+      expect(improved.searchIterations).toBeGreaterThan(schedule.searchIterations ?? 0);
+    });
+
+    it('should not improve schedules with recorded scores', async () => {
+      const options: MatchingOptions = { ...defaultOptions, numberOfCourts: 1, numberOfRounds: 2, effort: 'quick' };
+      const matcher = new PickleballMatcher(players.slice(0, 4), options);
+      const schedule = await matcher.generateSchedule();
+      const firstGame = schedule.rounds[0]?.[0];
+      if (firstGame) {
+        firstGame.team1Score = 11;
+        firstGame.team2Score = 5;
+      }
+
+      await expect(matcher.improveSchedule(schedule)).rejects.toThrow('recorded scores');
+    });
+  });
+
   describe('should generate a valid schedule', () => {
     describe('16 players on 3 courts', () => {
       it('should generate valid schedule for 6 rounds', async () => {
@@ -653,6 +718,27 @@ describe('PickleballMatcher', () => {
       expect(schedule.rounds).toHaveLength(0);
       expect(schedule.restingPlayers).toHaveLength(0);
     });
+
+    it('should schedule a large club on many courts', async () => {
+      const club: Player[] = Array.from({ length: 52 }, (_, index) => ({
+        id: `c${index}`,
+        name: `Club Player ${index}`,
+        skillLevel: 2 + (index % 13) * 0.25
+      }));
+      const options: MatchingOptions = { ...defaultOptions, numberOfCourts: 12, numberOfRounds: 10, effort: 'quick' };
+      const schedule = await new PickleballMatcher(club, options).generateSchedule();
+
+      validateAllGamesHavePlayers(schedule);
+      for (const [index, round] of schedule.rounds.entries()) {
+        expect(round).toHaveLength(12);
+        const playing = round.flatMap(game => [...game.team1, ...game.team2]);
+        const resting = schedule.restingPlayers[index] ?? [];
+        // Everyone is either on one court or resting, never both
+        expect(new Set([...playing, ...resting]).size).toBe(club.length);
+        expect(playing.length + resting.length).toBe(club.length);
+        expect(resting.length).toBeLessThanOrEqual(getMaxSittingOut(options));
+      }
+    });
   });
 
   describe('input validation and error handling', () => {
@@ -669,6 +755,242 @@ describe('PickleballMatcher', () => {
     });
   });
 
+  describe('score breakdown', () => {
+    it('should break the score down into the parts it is made of', async () => {
+      const options: MatchingOptions = { ...defaultOptions, numberOfCourts: 2, numberOfRounds: 4, seed: 5 };
+      const schedule = await new PickleballMatcher(players.slice(0, 10), options).generateSchedule();
+      const breakdown = schedule.scoreBreakdown ?? [];
+
+      expect(breakdown.map(component => component.key)).toContain('partnerRepeats');
+      expect(breakdown.map(component => component.key)).not.toContain('skillBalance');
+      expect(breakdown.reduce((sum, component) => sum + component.penalty, 0)).toBeCloseTo(schedule.score ?? -1);
+    });
+
+    it('should score with the weights the options give', async () => {
+      const options: MatchingOptions = { ...defaultOptions, numberOfCourts: 2, numberOfRounds: 4, seed: 5 };
+      const weighted = { ...options, scoreWeights: { partnerRepeats: 100, restSpacing: 0 } };
+      const schedule = await new PickleballMatcher(players.slice(0, 10), options).generateSchedule();
+      const breakdown = new PickleballMatcher(players.slice(0, 10), weighted).getScoreBreakdown(schedule);
+      const weightOf = (key: string) => breakdown.find(component => component.key === key)?.weight;
+
+      expect(weightOf('partnerRepeats')).toBe(100);
+      expect(weightOf('restSpacing')).toBe(0);
+      expect(weightOf('opponentRepeats')).toBe(320);
+    });
+
+    it('should apply the opponent variety priority on top of the weights', () => {
+      const options: MatchingOptions = {
+        ...defaultOptions,
+        opponentDiversityPriority: 'strict',
+        scoreWeights: { opponentRepeats: 100 }
+      };
+      const schedule = { rounds: [], restingPlayers: [], eventLabel: '', options, generatedAt: new Date() };
+      const breakdown = new PickleballMatcher(players, options).getScoreBreakdown(schedule);
+
+      expect(breakdown.find(component => component.key === 'opponentRepeats')?.weight).toBe(150);
+    });
+
+    it('should score swaps, sitter swaps and re-solved rounds the same as rescoring the whole schedule', async () => {
+      const pool = players.slice(0, 14).map((player, index) => ({
+        ...player,
+        gender: index % 3 === 0 ? ('female' as const) : ('male' as const),
+        needsAccessibleCourt: player.id === '6' || player.id === '11'
+      }));
+      const options: MatchingOptions = {
+        ...defaultOptions,
+        numberOfRounds: 6,
+        balanceSkillLevels: true,
+        respectPartnerPreferences: true,
+        mixedDoubles: true,
+        courtFormats: ['doubles', 'doubles', 'singles'],
+        courts: [{ accessible: true }, {}, {}],
+        seed: 4
+      };
+      const history = { partners: { '1': { '5': 2 }, '5': { '1': 2 } }, opponents: { '3': { '6': 1 } } };
+      const matcher = new PickleballMatcher(pool, options, history);
+      const schedule = await matcher.generateSchedule();
+
+      type Position = { gi: number; ti: 0 | 1; pi: 0 | 1 };
+      type RoundEdit = { roundIdx: number; games: Map<number, Game>; resting?: string[] };
+      type Delta = { edits: RoundEdit[]; penalty: number };
+      const internals = matcher as unknown as {
+        evaluateScore: (s: GameSchedule) => number;
+        buildScoreTables: (s: GameSchedule) => unknown;
+        scoreWeights: () => unknown;
+        swapPositions: (round: Game[]) => Position[];
+        swapGames: (round: Game[], a: Position, b: Position) => [Game, Game];
+        scoreSwap: (
+          s: GameSchedule,
+          tables: unknown,
+          weights: unknown,
+          roundIdx: number,
+          a: Position,
+          b: Position,
+          games: [Game, Game]
+        ) => Delta;
+        sitterSwapEdits: (
+          s: GameSchedule,
+          tables: unknown,
+          playerToSit: string,
+          sitterToPlay: string,
+          roundR: number,
+          roundR2: number
+        ) => RoundEdit[] | null;
+        scoreEdits: (s: GameSchedule, tables: unknown, weights: unknown, edits: RoundEdit[]) => Delta;
+        withEdits: (s: GameSchedule, edits: RoundEdit[]) => GameSchedule;
+      };
+      const tables = internals.buildScoreTables(schedule);
+      const weights = internals.scoreWeights();
+      const score = internals.evaluateScore(schedule);
+      const expectSameAsRescoring = (delta: Delta) =>
+        expect(delta.penalty).toBeCloseTo(
+          internals.evaluateScore(internals.withEdits(schedule, delta.edits)) - score,
+          6
+        );
+
+      let swaps = 0;
+      schedule.rounds.forEach((round, roundIdx) => {
+        const positions = internals.swapPositions(round);
+        for (const a of positions) {
+          for (const b of positions) {
+            if (a.gi >= b.gi) {
+              continue;
+            }
+            const games = internals.swapGames(round, a, b);
+            expectSameAsRescoring(internals.scoreSwap(schedule, tables, weights, roundIdx, a, b, games));
+            swaps++;
+          }
+        }
+      });
+      expect(swaps).toBeGreaterThan(100);
+
+      // A sitter in one round trades places with a player who sits out another
+      let sitterSwaps = 0;
+      schedule.restingPlayers.forEach((sitters, roundR) => {
+        const playing = schedule.rounds[roundR]?.flatMap(game => [...game.team1, ...game.team2]) ?? [];
+        for (const sitter of sitters) {
+          for (const playerToSit of playing) {
+            schedule.restingPlayers.forEach((sittersR2, roundR2) => {
+              if (!sittersR2.includes(playerToSit) || sittersR2.includes(sitter)) {
+                return;
+              }
+              const edits = internals.sitterSwapEdits(schedule, tables, playerToSit, sitter, roundR, roundR2);
+              expect(edits).not.toBeNull();
+              expectSameAsRescoring(internals.scoreEdits(schedule, tables, weights, edits ?? []));
+              sitterSwaps++;
+            });
+          }
+        }
+      });
+      expect(sitterSwaps).toBeGreaterThan(50);
+
+      // Every player in a round moves one slot along, as when a round is re-solved
+      schedule.rounds.forEach((round, roundIdx) => {
+        const playing = round.flatMap(game => [...game.team1, ...game.team2]);
+        const moved = [...playing.slice(1), playing[0] as string];
+        let slot = 0;
+        const take = (team: readonly string[]) => team.map(() => moved[slot++] as string) as Team;
+        const games = new Map(
+          round.map((game, gi) => [gi, { ...game, team1: take(game.team1), team2: take(game.team2) }])
+        );
+        expectSameAsRescoring(internals.scoreEdits(schedule, tables, weights, [{ roundIdx, games }]));
+      });
+    });
+  });
+
+  describe('seeded generation', () => {
+    const games = (schedule: GameSchedule) => ({ rounds: schedule.rounds, restingPlayers: schedule.restingPlayers });
+
+    it('should give identical schedules for identical players, options and seed', async () => {
+      const options: MatchingOptions = { ...defaultOptions, numberOfCourts: 2, numberOfRounds: 5, seed: 42 };
+      const first = await new PickleballMatcher(players.slice(0, 11), options).generateSchedule();
+      const second = await new PickleballMatcher(players.slice(0, 11), options).generateSchedule();
+
+      expect(games(second)).toEqual(games(first));
+      expect(first.options.seed).toBe(42);
+    });
+
+    it('should not depend on the clock when a seed and effort are both set', async () => {
+      const options: MatchingOptions = {
+        ...defaultOptions,
+        numberOfCourts: 2,
+        numberOfRounds: 4,
+        effort: 'quick',
+        seed: 7
+      };
+      const first = await new PickleballMatcher(players.slice(0, 10), options).generateSchedule();
+      const second = await new PickleballMatcher(players.slice(0, 10), options).generateSchedule();
+
+      expect(getSearchBudgetMs(options)).toBeUndefined();
+      expect(first.searchIterations).toBe(second.searchIterations);
+      expect(games(second)).toEqual(games(first));
+    });
+
+    it('should reproduce fixed-team court assignments', async () => {
+      const options: MatchingOptions = {
+        ...defaultOptions,
+        mode: 'fixedTeams',
+        numberOfCourts: 2,
+        numberOfRounds: 4,
+        seed: 3
+      };
+      const first = await new PickleballMatcher(players, options).generateSchedule();
+      const second = await new PickleballMatcher(players, options).generateSchedule();
+
+      expect(games(second)).toEqual(games(first));
+    });
+
+    it('should reproduce improving a seeded schedule further', async () => {
+      const options: MatchingOptions = {
+        ...defaultOptions,
+        numberOfCourts: 2,
+        numberOfRounds: 4,
+        effort: 'quick',
+        seed: 11
+      };
+      const matcher = new PickleballMatcher(players.slice(0, 10), options);
+      const schedule = await matcher.generateSchedule();
+      const first = await matcher.improveSchedule(schedule);
+      const second = await new PickleballMatcher(players.slice(0, 10), options).improveSchedule(schedule);
+
+      expect(games(second)).toEqual(games(first));
+    });
+  });
+
+  describe('candidate schedules', () => {
+    const options: MatchingOptions = {
+      ...defaultOptions,
+      numberOfCourts: 2,
+      numberOfRounds: 4,
+      effort: 'quick',
+      seed: 5
+    };
+
+    it('should return distinct schedules, best first', async () => {
+      const candidates = await new PickleballMatcher(players.slice(0, 10), options).generateCandidates('Compare', 3);
+
+      expect(candidates).toHaveLength(3);
+      const scores = candidates.map(schedule => schedule.score ?? 0);
+      expect(scores).toEqual([...scores].sort((a, b) => a - b));
+      const signatures = candidates.map(schedule =>
+        JSON.stringify(schedule.rounds.map(round => round.map(game => [game.team1, game.team2])))
+      );
+      expect(new Set(signatures).size).toBe(3);
+      for (const schedule of candidates) {
+        validateAllGamesHavePlayers(schedule);
+        expect(schedule.scoreBreakdown).toBeDefined();
+      }
+    });
+
+    it('should reject modes other than rotating partners', async () => {
+      const matcher = new PickleballMatcher(players, { ...options, mode: 'fixedTeams' });
+
+      await expect(matcher.generateCandidates('Compare', 3)).rejects.toThrow(
+        'Only rotating partner schedules can be compared'
+      );
+    });
+  });
+
   describe('schedule consistency', () => {
     it('should generate consistent schedules with same inputs', async () => {
       const matcher1 = new PickleballMatcher(players, defaultOptions);
@@ -819,4 +1141,461 @@ describe('PickleballMatcher', () => {
       validateAllGamesHavePlayers(schedule);
     });
   });
+
+  describe('regenerating remaining rounds', () => {
+    const options: MatchingOptions = { ...defaultOptions, numberOfCourts: 2, numberOfRounds: 6 };
+    const initialPlayers = players.slice(0, 8);
+
+    it('should keep played rounds and respect late arrivals and early departures', async () => {
+      const singleCourt: MatchingOptions = { ...options, numberOfCourts: 1 };
+      const fivePlayers = players.slice(0, 5);
+      const original = await new PickleballMatcher(fivePlayers, singleCourt).generateSchedule();
+      const lateArrival = players[5];
+      expect(lateArrival).toBeDefined();
+      const attendance = { [lateArrival?.id ?? '']: { arrivesRound: 4 }, '1': { leavesAfterRound: 4 } };
+
+      const matcher = new PickleballMatcher([...fivePlayers, lateArrival as Player], singleCourt);
+      const schedule = await matcher.regenerateRemainingRounds(original, 3, attendance);
+
+      expect(schedule.rounds).toHaveLength(6);
+      expect(schedule.rounds.slice(0, 3)).toEqual(original.rounds.slice(0, 3));
+      expect(schedule.restingPlayers.slice(0, 3)).toEqual(original.restingPlayers.slice(0, 3));
+      validateAllGamesHavePlayers(schedule);
+
+      for (let roundIdx = 3; roundIdx < 6; roundIdx++) {
+        const present = [
+          ...(schedule.rounds[roundIdx] ?? []).flatMap(g => [...g.team1, ...g.team2]),
+          ...(schedule.restingPlayers[roundIdx] ?? [])
+        ];
+        expect(present).toContain(lateArrival?.id);
+        expect(new Set(present).size).toBe(present.length);
+        if (roundIdx >= 4) {
+          expect(present).not.toContain('1');
+        } else {
+          expect(present).toContain('1');
+        }
+      }
+    });
+
+    it('should avoid repeating partners from the played rounds', async () => {
+      const original = await new PickleballMatcher(initialPlayers, options).generateSchedule();
+      const schedule = await new PickleballMatcher(initialPlayers, options).regenerateRemainingRounds(original, 3);
+
+      const partnerCounts: Record<string, number> = {};
+      for (const game of schedule.rounds.flat()) {
+        for (const team of [game.team1, game.team2]) {
+          const key = [...team].sort().join('|');
+          partnerCounts[key] = (partnerCounts[key] || 0) + 1;
+        }
+      }
+      expect(Math.max(...Object.values(partnerCounts))).toBe(1);
+    });
+
+    it('should reject rounds with too few players available', async () => {
+      const fourPlayers = players.slice(0, 4);
+      const original = await new PickleballMatcher(fourPlayers, { ...options, numberOfCourts: 1 }).generateSchedule();
+      const matcher = new PickleballMatcher(fourPlayers, { ...options, numberOfCourts: 1 });
+
+      await expect(matcher.regenerateRemainingRounds(original, 2, { '1': { leavesAfterRound: 2 } })).rejects.toThrow(
+        'Round 3: Not enough players are available to fill a court'
+      );
+    });
+  });
+
+  describe('player availability', () => {
+    const sixPlayers = players.slice(0, 6);
+    const options: MatchingOptions = { ...defaultOptions, numberOfCourts: 1, numberOfRounds: 6 };
+
+    it('should sit players in the rounds they are unavailable', async () => {
+      const matcher = new PickleballMatcher(sixPlayers, {
+        ...options,
+        unavailableRounds: { '1': [1, 2], '2': [5] }
+      });
+      const schedule = await matcher.generateSchedule();
+
+      expect(schedule.restingPlayers[0]).toContain('1');
+      expect(schedule.restingPlayers[1]).toContain('1');
+      expect(schedule.restingPlayers[4]).toContain('2');
+      validateAllGamesHavePlayers(schedule);
+    });
+
+    it('should count forced sits toward rest equality', async () => {
+      const matcher = new PickleballMatcher(sixPlayers, { ...options, unavailableRounds: { '1': [1, 2, 3] } });
+      const schedule = await matcher.generateSchedule();
+
+      const restCounts: Record<string, number> = {};
+      for (const pid of schedule.restingPlayers.flat()) {
+        restCounts[pid] = (restCounts[pid] || 0) + 1;
+      }
+      // Player 1 already sat three rounds, so they get no optional rests
+      expect(restCounts['1']).toBe(3);
+      const others = sixPlayers.filter(p => p.id !== '1').map(p => restCounts[p.id] || 0);
+      expect(Math.max(...others) - Math.min(...others)).toBeLessThanOrEqual(1);
+    });
+
+    it('should reject rounds without enough available players', async () => {
+      const matcher = new PickleballMatcher(players.slice(0, 4), { ...options, unavailableRounds: { '1': [2] } });
+
+      await expect(matcher.generateSchedule()).rejects.toThrow(
+        'Round 2: Not enough players are available to fill a court'
+      );
+    });
+  });
+
+  describe('singles courts', () => {
+    const sixPlayers = players.slice(0, 6);
+    const options: MatchingOptions = {
+      ...defaultOptions,
+      numberOfCourts: 2,
+      numberOfRounds: 4,
+      courtFormats: ['doubles', 'singles']
+    };
+
+    it('should play one player per side on singles courts', async () => {
+      const matcher = new PickleballMatcher(sixPlayers, options);
+      const schedule = await matcher.generateSchedule();
+
+      for (const round of schedule.rounds) {
+        expect(round).toHaveLength(2);
+        for (const game of round) {
+          const size = game.court === 2 ? 1 : 2;
+          expect(game.team1).toHaveLength(size);
+          expect(game.team2).toHaveLength(size);
+        }
+        expect(new Set(round.flatMap(game => [...game.team1, ...game.team2])).size).toBe(6);
+      }
+      expect(schedule.restingPlayers.flat()).toHaveLength(0);
+    });
+
+    it('should share singles games between players', async () => {
+      const matcher = new PickleballMatcher(sixPlayers, { ...options, numberOfRounds: 6 });
+      const schedule = await matcher.generateSchedule();
+
+      const singlesCounts: Record<string, number> = {};
+      for (const game of schedule.rounds.flat()) {
+        if (game.court === 2) {
+          for (const pid of [...game.team1, ...game.team2]) {
+            singlesCounts[pid] = (singlesCounts[pid] || 0) + 1;
+          }
+        }
+      }
+      const counts = sixPlayers.map(p => singlesCounts[p.id] || 0);
+      expect(Math.max(...counts) - Math.min(...counts)).toBeLessThanOrEqual(1);
+    });
+
+    it('should skip a doubles court that cannot be filled', async () => {
+      const matcher = new PickleballMatcher(sixPlayers, {
+        ...options,
+        numberOfCourts: 3,
+        courtFormats: ['doubles', 'doubles', 'singles']
+      });
+      const schedule = await matcher.generateSchedule();
+
+      for (const round of schedule.rounds) {
+        expect(round.map(game => game.court)).toEqual([1, 3]);
+      }
+    });
+  });
+
+  describe('mixed doubles', () => {
+    const options: MatchingOptions = { ...defaultOptions, numberOfCourts: 2, numberOfRounds: 4, mixedDoubles: true };
+
+    function withGenders(genders: Array<Player['gender']>): Player[] {
+      return genders.map((gender, index) => ({ ...players[index], gender }) as Player);
+    }
+
+    function countSameGenderTeams(schedule: GameSchedule, pool: Player[]): number[] {
+      const genderOf = (id: string) => pool.find(p => p.id === id)?.gender;
+      return schedule.rounds.map(
+        round =>
+          round
+            .flatMap(game => [game.team1, game.team2])
+            .filter(([a, b]) => b !== undefined && genderOf(a) !== undefined && genderOf(a) === genderOf(b)).length
+      );
+    }
+
+    it('should pair one man with one woman on every team', async () => {
+      const pool = withGenders(['male', 'female', 'male', 'female', 'male', 'female', 'male', 'female']);
+      const schedule = await new PickleballMatcher(pool, options).generateSchedule();
+
+      expect(countSameGenderTeams(schedule, pool)).toEqual([0, 0, 0, 0]);
+    });
+
+    it('should fall back to as few same-gender teams as possible', async () => {
+      const pool = withGenders(['male', 'male', 'male', 'male', 'male', 'male', 'female', 'female']);
+      const schedule = await new PickleballMatcher(pool, options).generateSchedule();
+
+      expect(countSameGenderTeams(schedule, pool)).toEqual([2, 2, 2, 2]);
+    });
+
+    it('should let players without a gender partner the surplus', async () => {
+      const pool = withGenders(['male', 'male', 'male', 'male', 'male', 'female', 'female', undefined]);
+      const schedule = await new PickleballMatcher(pool, options).generateSchedule();
+
+      expect(countSameGenderTeams(schedule, pool)).toEqual([1, 1, 1, 1]);
+    });
+  });
+
+  describe('never-partner and never-opponent lists', () => {
+    function withLists(pool: Player[], lists: Record<string, Partial<Player>>): Player[] {
+      return pool.map(player => ({ ...player, ...lists[player.id] }));
+    }
+
+    function partnered(schedule: GameSchedule, a: string, b: string): boolean {
+      return schedule.rounds
+        .flat()
+        .some(game => [game.team1, game.team2].some(team => team.includes(a) && team.includes(b)));
+    }
+
+    function faced(schedule: GameSchedule, a: string, b: string): boolean {
+      return schedule.rounds
+        .flat()
+        .some(
+          game =>
+            (game.team1.includes(a) && game.team2.includes(b)) || (game.team1.includes(b) && game.team2.includes(a))
+        );
+    }
+
+    it("should never partner players on either player's never-partner list", async () => {
+      const pool = withLists(players, { '1': { avoidPartnerIds: ['5', '9'] }, '10': { avoidPartnerIds: ['3'] } });
+      const schedule = await new PickleballMatcher(pool, defaultOptions).generateSchedule();
+
+      expect(partnered(schedule, '1', '5')).toBe(false);
+      expect(partnered(schedule, '1', '9')).toBe(false);
+      expect(partnered(schedule, '3', '10')).toBe(false);
+    });
+
+    it('should never match players on a never-opponent list in tight two-court rounds', async () => {
+      const pool = withLists(players.slice(0, 9), { '2': { avoidOpponentIds: ['6', '7'] } });
+      const options = { ...defaultOptions, numberOfCourts: 2, numberOfRounds: 6, seed: 4, effort: 'quick' as const };
+      const schedule = await new PickleballMatcher(pool, options).generateSchedule();
+
+      validateAllGamesHavePlayers(schedule);
+      expect(faced(schedule, '2', '6')).toBe(false);
+      expect(faced(schedule, '2', '7')).toBe(false);
+    });
+
+    it('should explain when the lists leave no valid games', async () => {
+      const pool = withLists(players.slice(0, 4), {
+        '1': { avoidPartnerIds: ['2'], avoidOpponentIds: ['2'] }
+      });
+      const matcher = new PickleballMatcher(pool, { ...defaultOptions, numberOfCourts: 1, numberOfRounds: 2 });
+
+      await expect(matcher.generateSchedule()).rejects.toThrow(
+        'Round 1 cannot be scheduled without pairing up or matching players who must never partner or never face each other'
+      );
+    });
+  });
+
+  describe('court details', () => {
+    it('should only use a court in the rounds it is available', async () => {
+      const options: MatchingOptions = {
+        ...defaultOptions,
+        numberOfRounds: 6,
+        courts: [{}, {}, { availableRounds: [1, 2, 3] }],
+        seed: 3,
+        effort: 'quick'
+      };
+      const schedule = await new PickleballMatcher(players.slice(0, 12), options).generateSchedule();
+
+      validateAllGamesHavePlayers(schedule);
+      schedule.rounds.forEach((round, index) => {
+        const courts = round.map(game => game.court).sort();
+        expect(courts).toEqual(index < 3 ? [1, 2, 3] : [1, 2]);
+        expect(schedule.restingPlayers[index]).toHaveLength(index < 3 ? 0 : 4);
+      });
+    });
+
+    it('should put players who need an accessible court on one', async () => {
+      const pool = players.map(player =>
+        player.id === '5' || player.id === '9' ? { ...player, needsAccessibleCourt: true } : player
+      );
+      const options: MatchingOptions = {
+        ...defaultOptions,
+        courts: [{}, { accessible: true }, {}],
+        seed: 8,
+        effort: 'quick'
+      };
+      const schedule = await new PickleballMatcher(pool, options).generateSchedule();
+
+      for (const game of schedule.rounds.flat()) {
+        if ([...game.team1, ...game.team2].some(pid => pid === '5' || pid === '9')) {
+          expect(game.court).toBe(2);
+        }
+      }
+      expect(schedule.scoreBreakdown?.find(component => component.key === 'accessibleCourts')?.raw).toBe(0);
+    });
+  });
+
+  describe('fixed teams', () => {
+    function makeTeams(teamCount: number): Player[] {
+      return Array.from({ length: teamCount * 2 }, (_, index) => ({
+        id: `t${index}`,
+        name: `Team Player ${index}`,
+        skillLevel: 3,
+        partnerId: `t${index % 2 === 0 ? index + 1 : index - 1}`
+      }));
+    }
+
+    function matchupKeys(schedule: GameSchedule): string[] {
+      return schedule.rounds.flat().map(game => [game.team1[0], game.team2[0]].sort().join('|'));
+    }
+
+    it('should keep partners together and play every other team once', async () => {
+      const schedule = await new PickleballMatcher(makeTeams(4), {
+        ...defaultOptions,
+        mode: 'fixedTeams',
+        numberOfCourts: 2,
+        numberOfRounds: 3
+      }).generateSchedule();
+
+      for (const game of schedule.rounds.flat()) {
+        for (const team of [game.team1, game.team2]) {
+          expect(team[1]).toBe(makeTeams(4).find(p => p.id === team[0])?.partnerId);
+        }
+      }
+      expect(schedule.rounds.map(round => round.length)).toEqual([2, 2, 2]);
+      expect(new Set(matchupKeys(schedule)).size).toBe(6);
+    });
+
+    it('should give byes evenly when there are more teams than courts', async () => {
+      const pool = makeTeams(5);
+      const schedule = await new PickleballMatcher(pool, {
+        ...defaultOptions,
+        mode: 'fixedTeams',
+        numberOfCourts: 2,
+        numberOfRounds: 5
+      }).generateSchedule();
+
+      expect(new Set(matchupKeys(schedule)).size).toBe(10);
+      const byes: Record<string, number> = {};
+      for (const rests of schedule.restingPlayers) {
+        for (const pid of rests) {
+          byes[pid] = (byes[pid] || 0) + 1;
+        }
+      }
+      expect(pool.map(p => byes[p.id] || 0)).toEqual(pool.map(() => 1));
+    });
+
+    it('should not repeat a matchup until every pairing has been played', async () => {
+      const schedule = await new PickleballMatcher(makeTeams(6), {
+        ...defaultOptions,
+        mode: 'fixedTeams',
+        numberOfCourts: 2,
+        numberOfRounds: 9
+      }).generateSchedule();
+
+      // A round may finish the last new pairing and start repeats on another court
+      const seen = new Set<string>();
+      for (const round of schedule.rounds) {
+        const keys = matchupKeys({ ...schedule, rounds: [round] });
+        const repeats = keys.some(key => seen.has(key));
+        for (const key of keys) {
+          seen.add(key);
+        }
+        if (repeats) {
+          break;
+        }
+      }
+      expect(seen.size).toBe(15);
+    });
+  });
+
+  describe('ladder', () => {
+    const pool = players.slice(0, 8);
+    const options: MatchingOptions = { ...defaultOptions, mode: 'ladder', numberOfCourts: 2, numberOfRounds: 4 };
+
+    function scoreRound(schedule: GameSchedule): void {
+      for (const game of schedule.rounds[schedule.rounds.length - 1] ?? []) {
+        game.team1Score = 11;
+        game.team2Score = 5;
+      }
+    }
+
+    it('should generate only the first round, seeded by skill', async () => {
+      const schedule = await new PickleballMatcher(pool, options).generateSchedule();
+
+      expect(schedule.rounds).toHaveLength(1);
+      const topFour = [...pool].sort((a, b) => b.skillLevel - a.skillLevel).slice(0, 4);
+      const court1 = schedule.rounds[0]?.find(game => game.court === 1);
+      const court1Skills = [...(court1?.team1 ?? []), ...(court1?.team2 ?? [])]
+        .map(id => pool.find(p => p.id === id)?.skillLevel)
+        .sort();
+      expect(court1Skills).toEqual(topFour.map(p => p.skillLevel).sort());
+    });
+
+    it('should move winners up, losers down and split partners', async () => {
+      const matcher = new PickleballMatcher(pool, options);
+      const first = await matcher.generateSchedule();
+      scoreRound(first);
+      const second = await new PickleballMatcher(pool, options).generateNextRound(first);
+
+      expect(second.rounds).toHaveLength(2);
+      const [court1, court2] = [...(first.rounds[0] ?? [])].sort((a, b) => a.court - b.court);
+      const next = [...(second.rounds[1] ?? [])].sort((a, b) => a.court - b.court);
+      const playersOn = (game: Game | undefined) => [...(game?.team1 ?? []), ...(game?.team2 ?? [])].sort();
+
+      expect(playersOn(next[0])).toEqual([...(court1?.team1 ?? []), ...(court2?.team1 ?? [])].sort());
+      expect(playersOn(next[1])).toEqual([...(court1?.team2 ?? []), ...(court2?.team2 ?? [])].sort());
+      const previousTeams = (first.rounds[0] ?? []).flatMap(game =>
+        [game.team1, game.team2].map(t => [...t].sort().join())
+      );
+      for (const game of second.rounds[1] ?? []) {
+        for (const team of [game.team1, game.team2]) {
+          expect(previousTeams).not.toContain([...team].sort().join());
+        }
+      }
+    });
+
+    it('should require a winner in every game before the next round', async () => {
+      const first = await new PickleballMatcher(pool, options).generateSchedule();
+
+      await expect(new PickleballMatcher(pool, options).generateNextRound(first)).rejects.toThrow(
+        'Round 1: Every game needs a score with a winner before the next ladder round'
+      );
+    });
+  });
+
+  describe('swiss', () => {
+    const pool = players.slice(0, 8);
+    const options: MatchingOptions = { ...defaultOptions, mode: 'swiss', numberOfCourts: 2, numberOfRounds: 4 };
+
+    function scoreRound(schedule: GameSchedule): void {
+      for (const game of schedule.rounds[schedule.rounds.length - 1] ?? []) {
+        game.team1Score = 11;
+        game.team2Score = 7;
+      }
+    }
+
+    it('should group players with the same record and avoid repeat partners', async () => {
+      const first = await new PickleballMatcher(pool, options).generateSchedule();
+      expect(first.rounds).toHaveLength(1);
+      scoreRound(first);
+
+      const second = await new PickleballMatcher(pool, options).generateNextRound(first);
+      const winners = new Set((first.rounds[0] ?? []).flatMap(game => [...game.team1]));
+      for (const game of second.rounds[1] ?? []) {
+        const gamePlayers = [...game.team1, ...game.team2];
+        const winnerCount = gamePlayers.filter(pid => winners.has(pid)).length;
+        expect([0, 4]).toContain(winnerCount);
+      }
+
+      const previousTeams = (first.rounds[0] ?? []).flatMap(game =>
+        [game.team1, game.team2].map(team => [...team].sort().join())
+      );
+      for (const game of second.rounds[1] ?? []) {
+        for (const team of [game.team1, game.team2]) {
+          expect(previousTeams).not.toContain([...team].sort().join());
+        }
+      }
+    });
+
+    it('should require every game to be scored before the next round', async () => {
+      const first = await new PickleballMatcher(pool, options).generateSchedule();
+
+      await expect(new PickleballMatcher(pool, options).generateNextRound(first)).rejects.toThrow(
+        'Round 1: Every game needs a score before the next Swiss round'
+      );
+    });
+  });
 });
@@ -0,0 +1,152 @@
+import { describe, expect, it } from 'vitest';
+import type { GameSchedule, MatchingOptions, Player } from '../../../types';
+import { mergePoolSchedules, poolOptions, splitIntoPools } from '../../../utils/pools';
+
+function makePlayers(skills: number[]): Player[] {
+  return skills.map((skillLevel, index) => ({ id: `p${index}`, name: `Player ${index}`, skillLevel }));
+}
+
+const baseOptions: MatchingOptions = {
+  numberOfCourts: 4,
+  numberOfRounds: 2,
+  balanceSkillLevels: true,
+  respectPartnerPreferences: false,
+  maxSkillDifference: 2,
+  distributeRestEqually: true,
+  poolCount: 2
+};
+
+const skills = [4.0, 3.75, 3.5, 3.5, 3.25, 3.25, 3.0, 3.0, 2.75, 2.5, 2.5, 2.25, 2.0, 2.0, 2.0, 1.75];
+
+describe('pool utils', () => {
+  describe('splitIntoPools', () => {
+    it('should fill tiers from the highest skill level down', () => {
+      const pools = splitIntoPools(makePlayers(skills), { ...baseOptions, poolSplit: 'tiers' });
+
+      expect(pools.map(pool => pool.name)).toEqual(['Tier 1', 'Tier 2']);
+      expect(pools[0]?.playerIds).toEqual(['p0', 'p1', 'p2', 'p3', 'p4', 'p5', 'p6', 'p7']);
+      expect(pools[0]?.courts).toEqual([1, 2]);
+      expect(pools[1]?.courts).toEqual([3, 4]);
+    });
+
+    it('should keep players with the same skill level in the same tier', () => {
+      const pools = splitIntoPools(makePlayers([4.0, 3.5, 3.5, 3.5, 3.5, 3.5, 3.0, 3.0, 3.0, 2.5]), {
+        ...baseOptions,
+        numberOfCourts: 2,
+        poolSplit: 'tiers'
+      });
+
+      expect(pools[0]?.playerIds).toEqual(['p0', 'p1', 'p2', 'p3', 'p4', 'p5']);
+      expect(pools[1]?.playerIds).toEqual(['p6', 'p7', 'p8', 'p9']);
+    });
+
+    it('should split a skill level only when a tier would be too small otherwise', () => {
+      const pools = splitIntoPools(makePlayers([3.5, 3.5, 3.5, 3.5, 3.5, 3.5, 3.5, 3.5, 3.0]), {
+        ...baseOptions,
+        numberOfCourts: 2,
+        poolSplit: 'tiers'
+      });
+
+      expect(pools.map(pool => pool.playerIds.length)).toEqual([5, 4]);
+    });
+
+    it('should give balanced pools a similar average skill level', () => {
+      const players = makePlayers(skills);
+      const pools = splitIntoPools(players, { ...baseOptions, poolSplit: 'balanced' });
+
+      const averages = pools.map(
+        pool =>
+          pool.playerIds.reduce((sum, id) => sum + (players.find(p => p.id === id)?.skillLevel ?? 0), 0) /
+          pool.playerIds.length
+      );
+      expect(pools.map(pool => pool.playerIds.length)).toEqual([8, 8]);
+      expect(Math.abs((averages[0] ?? 0) - (averages[1] ?? 0))).toBeLessThan(0.25);
+    });
+
+    it('should keep fixed teams in the same pool', () => {
+      const players = makePlayers(skills).map((player, index) => ({
+        ...player,
+        partnerId: `p${index % 2 === 0 ? index + 15 - index * 2 : 15 - index}`
+      }));
+      const pools = splitIntoPools(players, { ...baseOptions, mode: 'fixedTeams' });
+
+      for (const pool of pools) {
+        for (const id of pool.playerIds) {
+          const partnerId = players.find(p => p.id === id)?.partnerId ?? '';
+          expect(pool.playerIds).toContain(partnerId);
+        }
+      }
+    });
+
+    it('should give extra courts only to pools that can fill them', () => {
+      const crowded = splitIntoPools(makePlayers(skills), { ...baseOptions, numberOfCourts: 3 });
+      expect(crowded[0]?.courts).toEqual([1, 2]);
+      expect(crowded[1]?.courts).toEqual([3]);
+
+      const small = splitIntoPools(makePlayers(skills.slice(1, 15)), { ...baseOptions, numberOfCourts: 3 });
+      expect(small.map(pool => pool.playerIds.length)).toEqual([7, 7]);
+      expect(small.map(pool => pool.courts)).toEqual([[1], [2]]);
+    });
+
+    it('should need a court for every pool', () => {
+      expect(() => splitIntoPools(makePlayers(skills), { ...baseOptions, numberOfCourts: 1 })).toThrow(
+        'Each pool needs its own court'
+      );
+    });
+  });
+
+  describe('poolOptions', () => {
+    it('should renumber the pool courts and keep their formats', () => {
+      const options = poolOptions(
+        { ...baseOptions, courtFormats: ['doubles', 'doubles', 'singles', 'doubles'] },
+        { name: 'Tier 2', playerIds: ['p1'], courts: [3, 4] }
+      );
+
+      expect(options.numberOfCourts).toBe(2);
+      expect(options.courtFormats).toEqual(['singles', 'doubles']);
+      expect(options.poolCount).toBeUndefined();
+    });
+  });
+
+  describe('mergePoolSchedules', () => {
+    it('should move each pool onto its own courts', () => {
+      const poolSchedule = (prefix: string): GameSchedule => ({
+        rounds: [
+          [
+            {
+              id: 'g-1-1',
+              round: 1,
+              court: 1,
+              team1: [`${prefix}1`, `${prefix}2`],
+              team2: [`${prefix}3`, `${prefix}4`],
+              team1SkillLevel: 6,
+              team2SkillLevel: 6,
+              skillDifference: 0
+            }
+          ]
+        ],
+        restingPlayers: [[`${prefix}5`]],
+        eventLabel: '',
+        options: baseOptions,
+        generatedAt: new Date()
+      });
+
+      const merged = mergePoolSchedules(
+        [
+          { name: 'Tier 1', playerIds: [], courts: [1] },
+          { name: 'Tier 2', playerIds: [], courts: [2] }
+        ],
+        [poolSchedule('a'), poolSchedule('b')],
+        baseOptions,
+        'Pools'
+      );
+
+      expect(merged.rounds[0]?.map(game => [game.id, game.court])).toEqual([
+        ['g-1-1', 1],
+        ['g-1-2', 2]
+      ]);
+      expect(merged.restingPlayers[0]).toEqual(['a5', 'b5']);
+      expect(merged.pools).toHaveLength(2);
+    });
+  });
+});
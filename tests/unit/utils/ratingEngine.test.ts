@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { calculateRatingChanges, clampRating, expectedScore } from '../../../utils/ratingEngine';
+
+describe('ratingEngine utils', () => {
+  describe('expectedScore', () => {
+    it('should return 0.5 for evenly rated teams', () => {
+      expect(expectedScore(3.5, 3.5, 1)).toBe(0.5);
+    });
+
+    it('should favour the higher rated team', () => {
+      expect(expectedScore(4, 3, 1)).toBeCloseTo(10 / 11, 5);
+      expect(expectedScore(3, 4, 1)).toBeCloseTo(1 / 11, 5);
+    });
+  });
+
+  describe('calculateRatingChanges', () => {
+    const ratings = { a: 3, b: 3, c: 3, d: 3 };
+
+    it('should move winners up and losers down by equal amounts in an even game', () => {
+      const changes = calculateRatingChanges(
+        { team1: ['a', 'b'], team2: ['c', 'd'], team1Score: 11, team2Score: 7 },
+        ratings,
+        { kFactor: 0.1 }
+      );
+
+      expect(changes).toHaveLength(4);
+      expect(changes.find(c => c.playerId === 'a')).toMatchObject({
+        previousRating: 3,
+        proposedRating: 3.05,
+        delta: 0.05
+      });
+      expect(changes.find(c => c.playerId === 'd')).toMatchObject({
+        previousRating: 3,
+        proposedRating: 2.95,
+        delta: -0.05
+      });
+    });
+
+    it('should account for partner ratings when judging an upset', () => {
+      const strongPartner = calculateRatingChanges(
+        { team1: ['a', 'b'], team2: ['c', 'd'], team1Score: 11, team2Score: 5 },
+        { a: 3, b: 4.5, c: 3, d: 3 }
+      );
+      const weakPartner = calculateRatingChanges(
+        { team1: ['a', 'b'], team2: ['c', 'd'], team1Score: 11, team2Score: 5 },
+        { a: 3, b: 2, c: 3, d: 3 }
+      );
+
+      const gainWithStrong = strongPartner.find(c => c.playerId === 'a')?.delta ?? 0;
+      const gainWithWeak = weakPartner.find(c => c.playerId === 'a')?.delta ?? 0;
+      expect(gainWithWeak).toBeGreaterThan(gainWithStrong);
+    });
+
+    it('should not change ratings for a tie between even teams', () => {
+      const changes = calculateRatingChanges(
+        { team1: ['a', 'b'], team2: ['c', 'd'], team1Score: 10, team2Score: 10 },
+        ratings
+      );
+      expect(changes.every(c => c.delta === 0)).toBe(true);
+    });
+
+    it('should clamp ratings to the 1-5 range', () => {
+      const changes = calculateRatingChanges(
+        { team1: ['a', 'b'], team2: ['c', 'd'], team1Score: 11, team2Score: 0 },
+        { a: 5, b: 1, c: 1, d: 1 },
+        { kFactor: 0.5 }
+      );
+      expect(changes.find(c => c.playerId === 'a')?.proposedRating).toBe(5);
+      expect(changes.find(c => c.playerId === 'c')?.proposedRating).toBeGreaterThanOrEqual(1);
+    });
+
+    it('should skip players without a known rating', () => {
+      const changes = calculateRatingChanges(
+        { team1: ['a', 'x'], team2: ['c', 'd'], team1Score: 11, team2Score: 3 },
+        { a: 3, c: 3, d: 3 }
+      );
+      expect(changes.map(c => c.playerId).sort()).toEqual(['a', 'c', 'd']);
+    });
+  });
+
+  describe('clampRating', () => {
+    it('should round to two decimals within range', () => {
+      expect(clampRating(2.678)).toBe(2.68);
+      expect(clampRating(0.5)).toBe(1);
+      expect(clampRating(5.6)).toBe(5);
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import type { Game, GameSchedule, MatchingOptions, Player } from '../../../types';
+import { swapPlayersInRound } from '../../../utils/scheduleEditing';
+
+const players: Player[] = ['Ann', 'Ben', 'Cat', 'Dan', 'Eve', 'Fay', 'Gus', 'Hal', 'Ivy'].map((name, index) => ({
+  id: `p${index}`,
+  name,
+  skillLevel: 2 + index * 0.25
+}));
+
+const options: MatchingOptions = {
+  numberOfCourts: 2,
+  numberOfRounds: 2,
+  balanceSkillLevels: true,
+  respectPartnerPreferences: false,
+  maxSkillDifference: 1,
+  distributeRestEqually: true
+};
+
+function game(round: number, court: number, team1: [string, string], team2: [string, string]): Game {
+  return {
+    id: `g-${round}-${court}`,
+    round,
+    court,
+    team1,
+    team2,
+    team1SkillLevel: 0,
+    team2SkillLevel: 0,
+    skillDifference: 0
+  };
+}
+
+function makeSchedule(): GameSchedule {
+  return {
+    rounds: [
+      [game(1, 1, ['p0', 'p1'], ['p2', 'p3']), game(1, 2, ['p4', 'p5'], ['p6', 'p7'])],
+      [game(2, 1, ['p0', 'p4'], ['p2', 'p6']), game(2, 2, ['p1', 'p5'], ['p3', 'p8'])]
+    ],
+    restingPlayers: [['p8'], ['p7']],
+    eventLabel: '',
+    options,
+    generatedAt: new Date()
+  };
+}
+
+describe('swapPlayersInRound', () => {
+  it('should swap players between games and recalculate skill levels', () => {
+    const schedule = makeSchedule();
+
+    swapPlayersInRound(schedule, 1, 'p1', 'p4', players);
+
+    const [court1, court2] = schedule.rounds[1] as [Game, Game];
+    expect(court1.team1).toEqual(['p0', 'p1']);
+    expect(court2.team1).toEqual(['p4', 'p5']);
+    expect(court1.team1SkillLevel).toBe(4.25);
+    expect(court1.team2SkillLevel).toBe(6);
+    expect(court1.skillDifference).toBe(1.75);
+  });
+
+  it('should swap a resting player into a game', () => {
+    const schedule = makeSchedule();
+
+    swapPlayersInRound(schedule, 0, 'p8', 'p5', players);
+
+    expect(schedule.rounds[0]?.[1]?.team1).toEqual(['p4', 'p8']);
+    expect(schedule.restingPlayers[0]).toEqual(['p5']);
+  });
+
+  it('should warn about repeats the swap creates but not ones already there', () => {
+    const schedule = makeSchedule();
+
+    const warnings = swapPlayersInRound(schedule, 1, 'p1', 'p4', players);
+
+    expect(warnings).toContain('Ann and Ben are now partners for the 2nd time');
+    expect(warnings).toContain('Eve and Fay are now partners for the 2nd time');
+    expect(warnings.some(warning => warning.includes('Ann and Cat'))).toBe(false);
+  });
+
+  it('should warn when a swap puts together players set to never partner or oppose', () => {
+    const schedule = makeSchedule();
+    const restricted = players.map(player =>
+      player.id === 'p0'
+        ? { ...player, avoidPartnerIds: ['p4'] }
+        : player.id === 'p2'
+          ? { ...player, avoidOpponentIds: ['p4'] }
+          : player
+    );
+
+    const warnings = swapPlayersInRound(schedule, 0, 'p1', 'p4', restricted);
+
+    expect(warnings).toContain('Ann and Eve are now partners, but are set to never partner');
+    expect(warnings).toContain('Cat and Eve now face each other, but are set to never oppose');
+  });
+
+  it('should warn about back-to-back rests and unavailable players', () => {
+    const schedule = makeSchedule();
+    schedule.options = { ...options, unavailableRounds: { p7: [2] } };
+
+    const warnings = swapPlayersInRound(schedule, 1, 'p7', 'p8', players);
+
+    expect(warnings).toContain('Ivy now rests in back-to-back rounds');
+    expect(warnings).toContain('Hal is not available in round 2');
+  });
+
+  it('should not move players in a game that already has a score', () => {
+    const schedule = makeSchedule();
+    const scored = schedule.rounds[0]?.[0] as Game;
+    scored.team1Score = 11;
+    scored.team2Score = 7;
+
+    expect(() => swapPlayersInRound(schedule, 0, 'p0', 'p4', players)).toThrow(
+      'Players cannot be moved in a game that already has a score'
+    );
+    expect(scored.team1).toEqual(['p0', 'p1']);
+  });
+});
@@ -0,0 +1,14 @@
+import { describe, expect, it } from 'vitest';
+import { getMaxSittingOut } from '../../../utils/scheduleLimits';
+
+describe('getMaxSittingOut', () => {
+  it('should let up to 4 players sit out on a few courts', () => {
+    expect(getMaxSittingOut({ numberOfCourts: 1 })).toBe(4);
+    expect(getMaxSittingOut({ numberOfCourts: 4 })).toBe(4);
+  });
+
+  it('should let more players sit out as the courts grow', () => {
+    expect(getMaxSittingOut({ numberOfCourts: 12 })).toBe(12);
+    expect(getMaxSittingOut({ numberOfCourts: 5, courtFormats: ['singles'] })).toBe(5);
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import type { GameSchedule, MatchingOptions, Player } from '../../../types';
+import { describeScoreBreakdown } from '../../../utils/scoreReport';
+
+const players: Player[] = ['Ann', 'Ben', 'Cat', 'Dan', 'Eve'].map((name, index) => ({
+  id: `p${index}`,
+  name,
+  skillLevel: 3
+}));
+
+const options: MatchingOptions = {
+  numberOfCourts: 1,
+  numberOfRounds: 2,
+  balanceSkillLevels: true,
+  respectPartnerPreferences: false,
+  maxSkillDifference: 1,
+  distributeRestEqually: true
+};
+
+function makeSchedule(scoreBreakdown: GameSchedule['scoreBreakdown']): GameSchedule {
+  const game = (round: number) => ({
+    id: `g-${round}-1`,
+    round,
+    court: 1,
+    team1: ['p0', 'p1'] as [string, string],
+    team2: ['p2', 'p3'] as [string, string],
+    team1SkillLevel: 6,
+    team2SkillLevel: 6,
+    skillDifference: 0
+  });
+  return {
+    rounds: [[game(1)], [game(2)]],
+    restingPlayers: [['p4'], ['p4']],
+    eventLabel: '',
+    options,
+    generatedAt: new Date(),
+    scoreBreakdown
+  };
+}
+
+describe('describeScoreBreakdown', () => {
+  it('should list compromised rules first with their share of the score', () => {
+    const report = describeScoreBreakdown(
+      makeSchedule([
+        { key: 'restDistribution', raw: 2, weight: 10000, penalty: 20000 },
+        { key: 'partnerRepeats', raw: 2, weight: 2500, penalty: 5000 },
+        { key: 'skillBalance', raw: 0, weight: 5, penalty: 0 }
+      ]),
+      players
+    );
+
+    expect(report.map(item => item.key)).toEqual(['restDistribution', 'partnerRepeats', 'skillBalance']);
+    expect(report[0]?.share).toBe(0.8);
+    expect(report[2]?.compromised).toBe(false);
+    expect(report[2]?.explanation).toBe('Every game is evenly matched.');
+  });
+
+  it('should name repeated partners and explain when repeats are unavoidable', () => {
+    const [item] = describeScoreBreakdown(
+      makeSchedule([{ key: 'partnerRepeats', raw: 2, weight: 2500, penalty: 5000 }]),
+      players
+    );
+
+    expect(item?.explanation).toContain('Ann & Ben (2×)');
+    expect(item?.explanation).toContain('Avoiding them would have cost more elsewhere');
+  });
+
+  it('should describe the rest spread', () => {
+    const [item] = describeScoreBreakdown(
+      makeSchedule([{ key: 'restDistribution', raw: 2, weight: 10000, penalty: 20000 }]),
+      players
+    );
+
+    expect(item?.explanation).toContain('between 0 and 2 times');
+  });
+});
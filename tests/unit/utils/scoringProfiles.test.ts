@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_SCORE_WEIGHTS,
+  findScoringProfile,
+  getDefaultScoringProfiles,
+  normalizeScoringProfiles,
+  STANDARD_SCORING_PROFILE_ID
+} from '../../../utils/scoringProfiles';
+
+describe('getDefaultScoringProfiles', () => {
+  it('should fill in every weight, with the standard profile using the standard weights', () => {
+    const profiles = getDefaultScoringProfiles();
+
+    expect(profiles.map(profile => profile.name)).toEqual([
+      'Standard',
+      'Social mixer',
+      'Competitive',
+      'Beginners clinic'
+    ]);
+    expect(profiles[0]?.weights).toEqual(DEFAULT_SCORE_WEIGHTS);
+    for (const profile of profiles) {
+      expect(Object.keys(profile.weights).sort()).toEqual(Object.keys(DEFAULT_SCORE_WEIGHTS).sort());
+      expect(profile.builtIn).toBe(true);
+    }
+  });
+
+  it('should return copies that can be edited without changing the built-in profiles', () => {
+    const [standard] = getDefaultScoringProfiles();
+    if (standard) {
+      standard.weights.partnerRepeats = 1;
+    }
+
+    expect(getDefaultScoringProfiles()[0]?.weights.partnerRepeats).toBe(DEFAULT_SCORE_WEIGHTS.partnerRepeats);
+  });
+});
+
+describe('findScoringProfile', () => {
+  it('should fall back to the standard profile for an unknown ID', () => {
+    const profiles = getDefaultScoringProfiles();
+
+    expect(findScoringProfile(profiles, 'competitive').name).toBe('Competitive');
+    expect(findScoringProfile(profiles, 'deleted').id).toBe(STANDARD_SCORING_PROFILE_ID);
+    expect(findScoringProfile([], undefined).id).toBe(STANDARD_SCORING_PROFILE_ID);
+  });
+});
+
+describe('normalizeScoringProfiles', () => {
+  it('should keep edited built-in weights and custom profiles', () => {
+    const profiles = normalizeScoringProfiles([
+      { id: 'custom-1', name: ' League night ', weights: { skillBalance: 30 } },
+      { id: 'social', name: 'Social mixer', weights: { partnerRepeats: 9000 } }
+    ]);
+
+    expect(profiles.map(profile => profile.id)).toEqual(['standard', 'social', 'competitive', 'beginners', 'custom-1']);
+    expect(profiles[1]?.weights.partnerRepeats).toBe(9000);
+    expect(profiles[4]).toMatchObject({ name: 'League night', weights: { skillBalance: 30, partnerRepeats: 2500 } });
+    expect(profiles[4]?.builtIn).toBeUndefined();
+  });
+
+  it('should drop broken profiles and weights', () => {
+    const profiles = normalizeScoringProfiles([
+      { id: 'no-name', weights: {} },
+      { name: 'No ID' },
+      null,
+      { id: 'custom-2', name: 'Odd weights', weights: { skillBalance: -4, restSpacing: 'lots', made_up: 3 } }
+    ]);
+
+    expect(profiles.map(profile => profile.id)).toEqual(['standard', 'social', 'competitive', 'beginners', 'custom-2']);
+    expect(profiles[4]?.weights.skillBalance).toBe(0);
+    expect(profiles[4]?.weights.restSpacing).toBe(DEFAULT_SCORE_WEIGHTS.restSpacing);
+    expect(profiles[4]?.weights).not.toHaveProperty('made_up');
+  });
+
+  it('should start from the built-in profiles when nothing was saved', () => {
+    expect(normalizeScoringProfiles(undefined)).toEqual(getDefaultScoringProfiles());
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import type { GameResult } from '../../../types';
+import { computeStandings, filterResultsByScope, getResultSeasons, getResultSessions } from '../../../utils/standings';
+
+function makeResult(overrides: Partial<GameResult>): GameResult {
+  return {
+    id: 'r',
+    scheduleId: 's1',
+    gameId: 'g',
+    eventLabel: 'League Night',
+    round: 1,
+    court: 1,
+    team1: ['a', 'b'],
+    team2: ['c', 'd'],
+    team1Score: 11,
+    team2Score: 5,
+    playedAt: new Date('2025-03-01T19:00:00'),
+    ...overrides
+  };
+}
+
+describe('standings utils', () => {
+  describe('computeStandings', () => {
+    it('should credit each player individually with their team result', () => {
+      const standings = computeStandings([makeResult({})]);
+
+      const a = standings.find(s => s.playerId === 'a');
+      const c = standings.find(s => s.playerId === 'c');
+      expect(a).toMatchObject({ wins: 1, losses: 0, pointsFor: 11, pointsAgainst: 5, pointDifferential: 6 });
+      expect(c).toMatchObject({ wins: 0, losses: 1, pointsFor: 5, pointsAgainst: 11, pointDifferential: -6 });
+      expect(a?.winPercentage).toBe(1);
+      expect(c?.winPercentage).toBe(0);
+    });
+
+    it('should accumulate across games with changing partners', () => {
+      const standings = computeStandings([
+        makeResult({ gameId: 'g1' }),
+        makeResult({ gameId: 'g2', team1: ['a', 'c'], team2: ['b', 'd'], team1Score: 9, team2Score: 11 })
+      ]);
+
+      const a = standings.find(s => s.playerId === 'a');
+      const b = standings.find(s => s.playerId === 'b');
+      const d = standings.find(s => s.playerId === 'd');
+      expect(a).toMatchObject({ gamesPlayed: 2, wins: 1, losses: 1, pointsFor: 20, pointsAgainst: 16 });
+      expect(b).toMatchObject({ gamesPlayed: 2, wins: 2, losses: 0 });
+      expect(d).toMatchObject({ gamesPlayed: 2, wins: 1, losses: 1, pointDifferential: -4 });
+    });
+
+    it('should count ties as half a win', () => {
+      const standings = computeStandings([makeResult({ team1Score: 10, team2Score: 10 })]);
+      expect(standings.every(s => s.ties === 1 && s.winPercentage === 0.5)).toBe(true);
+    });
+
+    it('should rank by win percentage, then point differential', () => {
+      const standings = computeStandings([
+        makeResult({ gameId: 'g1', team1Score: 11, team2Score: 9 }),
+        makeResult({ gameId: 'g2', team1: ['e', 'f'], team2: ['g', 'h'], team1Score: 11, team2Score: 1 })
+      ]);
+
+      expect(standings.slice(0, 2).map(s => s.playerId)).toEqual(['e', 'f']);
+      expect(standings.slice(2, 4).map(s => s.playerId)).toEqual(['a', 'b']);
+      expect(standings[standings.length - 1]?.playerId).toBe('h');
+    });
+
+    it('should return an empty list when there are no results', () => {
+      expect(computeStandings([])).toEqual([]);
+    });
+  });
+
+  describe('filterResultsByScope', () => {
+    const results = [
+      makeResult({ id: '1', scheduleId: 's1', playedAt: new Date('2024-06-01T19:00:00') }),
+      makeResult({ id: '2', scheduleId: 's2', playedAt: new Date('2025-06-01T19:00:00') }),
+      makeResult({ id: '3', scheduleId: 's2', playedAt: new Date('2025-06-01T19:20:00') })
+    ];
+
+    it('should filter by session', () => {
+      expect(filterResultsByScope(results, { type: 'session', scheduleId: 's2' }).map(r => r.id)).toEqual(['2', '3']);
+    });
+
+    it('should filter by season year', () => {
+      expect(filterResultsByScope(results, { type: 'season', year: 2024 }).map(r => r.id)).toEqual(['1']);
+    });
+
+    it('should include everything for all-time', () => {
+      expect(filterResultsByScope(results, { type: 'all' })).toHaveLength(3);
+    });
+  });
+
+  describe('getResultSessions and getResultSeasons', () => {
+    const results = [
+      makeResult({ id: '1', scheduleId: 's1', eventLabel: 'Week 1', playedAt: new Date('2024-06-01T19:00:00') }),
+      makeResult({ id: '2', scheduleId: 's2', eventLabel: 'Week 2', playedAt: new Date('2025-06-08T19:30:00') }),
+      makeResult({ id: '3', scheduleId: 's2', eventLabel: 'Week 2', playedAt: new Date('2025-06-08T19:00:00') })
+    ];
+
+    it('should list sessions most recent first with game counts', () => {
+      const sessions = getResultSessions(results);
+      expect(sessions.map(s => s.scheduleId)).toEqual(['s2', 's1']);
+      expect(sessions[0]?.gameCount).toBe(2);
+      expect(sessions[0]?.playedAt).toEqual(new Date('2025-06-08T19:00:00'));
+    });
+
+    it('should list seasons most recent first', () => {
+      expect(getResultSeasons(results)).toEqual([2025, 2024]);
+    });
+  });
+});
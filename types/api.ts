@@ -1,4 +1,4 @@
-import type { Player } from '~/types';
+import type { GameResult, Player, RatingAdjustment, ScheduleSession } from '~/types';
 
 /**
  * API response wrapper
@@ -48,4 +48,52 @@ export interface IPlayerApi {
    * Clear all players
    */
   clearAllPlayers(): Promise<ApiResponse>;
+
+  /**
+   * Get all recorded game results
+   */
+  getGameResults(): Promise<ApiResponse<GameResult[]>>;
+
+  /**
+   * Create or replace the recorded result for a scheduled game
+   */
+  saveGameResult(result: Omit<GameResult, 'id'>): Promise<ApiResponse<GameResult>>;
+
+  /**
+   * Delete a recorded game result
+   */
+  deleteGameResult(id: string): Promise<ApiResponse>;
+
+  /**
+   * Get all rating adjustments (pending and reviewed)
+   */
+  getRatingAdjustments(): Promise<ApiResponse<RatingAdjustment[]>>;
+
+  /**
+   * Save newly proposed rating adjustments
+   */
+  createRatingAdjustments(adjustments: Omit<RatingAdjustment, 'id'>[]): Promise<ApiResponse<RatingAdjustment[]>>;
+
+  /**
+   * Update the review status of a rating adjustment
+   */
+  updateRatingAdjustment(
+    id: string,
+    updates: Pick<RatingAdjustment, 'status' | 'reviewedAt'>
+  ): Promise<ApiResponse<RatingAdjustment>>;
+
+  /**
+   * Get all saved schedule sessions
+   */
+  getSessions(): Promise<ApiResponse<ScheduleSession[]>>;
+
+  /**
+   * Create or replace a saved schedule session
+   */
+  saveSession(session: ScheduleSession): Promise<ApiResponse<ScheduleSession>>;
+
+  /**
+   * Delete a saved schedule session
+   */
+  deleteSession(id: string): Promise<ApiResponse>;
 }
@@ -2,6 +2,8 @@
  * Database types for Supabase integration
  */
 
+export type Json = string | number | boolean | null | { [key: string]: Json | undefined } | Json[];
+
 export interface Database {
   public: {
     Tables: {
@@ -12,6 +14,10 @@ export interface Database {
           name: string;
           skill_level: number;
           partner_id: string | null;
+          gender: 'male' | 'female' | null;
+          avoid_partner_ids: string[];
+          avoid_opponent_ids: string[];
+          needs_accessible_court: boolean;
           created_at: string;
           updated_at: string;
         };
@@ -21,6 +27,10 @@ export interface Database {
           name: string;
           skill_level: number;
           partner_id?: string | null;
+          gender?: 'male' | 'female' | null;
+          avoid_partner_ids?: string[];
+          avoid_opponent_ids?: string[];
+          needs_accessible_court?: boolean;
           created_at?: string;
           updated_at?: string;
         };
@@ -30,6 +40,10 @@ export interface Database {
           name?: string;
           skill_level?: number;
           partner_id?: string | null;
+          gender?: 'male' | 'female' | null;
+          avoid_partner_ids?: string[];
+          avoid_opponent_ids?: string[];
+          needs_accessible_court?: boolean;
           created_at?: string;
           updated_at?: string;
         };
@@ -54,6 +68,9 @@ export interface Database {
           print_compact_layout: boolean;
           print_color_mode: boolean;
           print_show_ratings: boolean;
+          // Scoring profiles
+          scoring_profile_id: string;
+          scoring_profiles: Json;
           created_at: string;
           updated_at: string;
         };
@@ -76,6 +93,9 @@ export interface Database {
           print_compact_layout?: boolean;
           print_color_mode?: boolean;
           print_show_ratings?: boolean;
+          // Scoring profiles
+          scoring_profile_id?: string;
+          scoring_profiles?: Json;
           created_at?: string;
           updated_at?: string;
         };
@@ -98,6 +118,129 @@ export interface Database {
           print_compact_layout?: boolean;
           print_color_mode?: boolean;
           print_show_ratings?: boolean;
+          // Scoring profiles
+          scoring_profile_id?: string;
+          scoring_profiles?: Json;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      game_results: {
+        Row: {
+          id: string;
+          user_id: string;
+          schedule_id: string;
+          game_id: string;
+          event_label: string;
+          round: number;
+          court: number;
+          team1_player_ids: string[];
+          team2_player_ids: string[];
+          team1_score: number;
+          team2_score: number;
+          played_at: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          schedule_id: string;
+          game_id: string;
+          event_label?: string;
+          round: number;
+          court: number;
+          team1_player_ids: string[];
+          team2_player_ids: string[];
+          team1_score: number;
+          team2_score: number;
+          played_at?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          schedule_id?: string;
+          game_id?: string;
+          event_label?: string;
+          round?: number;
+          court?: number;
+          team1_player_ids?: string[];
+          team2_player_ids?: string[];
+          team1_score?: number;
+          team2_score?: number;
+          played_at?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      rating_adjustments: {
+        Row: {
+          id: string;
+          user_id: string;
+          player_id: string;
+          result_id: string;
+          previous_rating: number;
+          proposed_rating: number;
+          delta: number;
+          status: 'pending' | 'accepted' | 'rejected' | 'reverted';
+          reviewed_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          player_id: string;
+          result_id: string;
+          previous_rating: number;
+          proposed_rating: number;
+          delta: number;
+          status?: 'pending' | 'accepted' | 'rejected' | 'reverted';
+          reviewed_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          player_id?: string;
+          result_id?: string;
+          previous_rating?: number;
+          proposed_rating?: number;
+          delta?: number;
+          status?: 'pending' | 'accepted' | 'rejected' | 'reverted';
+          reviewed_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      schedule_sessions: {
+        Row: {
+          id: string;
+          user_id: string;
+          name: string;
+          event_label: string;
+          schedule: Json;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id: string;
+          user_id: string;
+          name: string;
+          event_label?: string;
+          schedule: Json;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          name?: string;
+          event_label?: string;
+          schedule?: Json;
           created_at?: string;
           updated_at?: string;
         };
@@ -119,6 +262,16 @@ export type PlayerRow = Database['public']['Tables']['players']['Row'];
 export type PlayerInsert = Database['public']['Tables']['players']['Insert'];
 export type PlayerUpdate = Database['public']['Tables']['players']['Update'];
 
+export type GameResultRow = Database['public']['Tables']['game_results']['Row'];
+export type GameResultInsert = Database['public']['Tables']['game_results']['Insert'];
+
+export type RatingAdjustmentRow = Database['public']['Tables']['rating_adjustments']['Row'];
+export type RatingAdjustmentInsert = Database['public']['Tables']['rating_adjustments']['Insert'];
+export type RatingAdjustmentUpdate = Database['public']['Tables']['rating_adjustments']['Update'];
+
+export type ScheduleSessionRow = Database['public']['Tables']['schedule_sessions']['Row'];
+export type ScheduleSessionInsert = Database['public']['Tables']['schedule_sessions']['Insert'];
+
 export type UserPreferencesRow = Database['public']['Tables']['user_preferences']['Row'];
 export type UserPreferencesInsert = Database['public']['Tables']['user_preferences']['Insert'];
 export type UserPreferencesUpdate = Database['public']['Tables']['user_preferences']['Update'];
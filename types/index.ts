@@ -16,6 +16,50 @@ export interface Player {
   partnerId?: string;
   /** Whether this player is currently active/available for games */
   active?: boolean;
+  /** Used by mixed doubles; players without one can partner anyone */
+  gender?: PlayerGender;
+  /**
+   * Players this player must never partner with in rotating partner schedules.
+   * Applies both ways, whichever player's list it is on.
+   */
+  avoidPartnerIds?: string[];
+  /** Players this player must never face in rotating partner schedules, applying both ways */
+  avoidOpponentIds?: string[];
+  /** Whether this player must play on a court marked accessible */
+  needsAccessibleCourt?: boolean;
+}
+
+export type PlayerGender = 'male' | 'female';
+
+/**
+ * Players on one side of a game: two for doubles, one for singles
+ */
+export type Team = [string] | [string, string];
+
+/**
+ * How a court is played: doubles (2v2) or singles (1v1)
+ */
+export type CourtFormat = 'doubles' | 'singles';
+
+/**
+ * Where a court is: `indoor` or `outdoor`
+ */
+export type CourtSetting = 'indoor' | 'outdoor';
+
+/**
+ * Details of one court beyond its format. Every field is optional; a court with no
+ * details is called "Court N" and is available every round.
+ */
+export interface CourtDetails {
+  /** Display name, e.g. 'Center Court' */
+  name?: string;
+  setting?: CourtSetting;
+  /** Whether this is the show court, e.g. the one with seating for spectators */
+  showCourt?: boolean;
+  /** Whether players who need an accessible court can play here */
+  accessible?: boolean;
+  /** Rounds (1-based) the court can be used in. Unset means every round. */
+  availableRounds?: readonly number[];
 }
 
 /**
@@ -26,27 +70,62 @@ export interface Game {
   id: string;
   /** Which round this game belongs to */
   round: number;
-  /** Court number (1-4) */
+  /** Court number, starting at 1 */
   court: number;
-  /** Player IDs for team 1 (2 players) */
-  readonly team1: [string, string];
-  /** Player IDs for team 2 (2 players) */
-  readonly team2: [string, string];
+  /** Player IDs for team 1 (2 players, or 1 on a singles court) */
+  readonly team1: Team;
+  /** Player IDs for team 2 (2 players, or 1 on a singles court) */
+  readonly team2: Team;
   /** Combined skill level of team 1 */
   team1SkillLevel: number;
   /** Combined skill level of team 2 */
   team2SkillLevel: number;
   /** Skill difference between teams (for balancing) */
   skillDifference: number;
+  /** Points scored by team 1, once the game has been played */
+  team1Score?: number;
+  /** Points scored by team 2, once the game has been played */
+  team2Score?: number;
 }
 
+/**
+ * How the matcher forms teams
+ */
+export type MatchingMode = 'rotating' | 'fixedTeams' | 'ladder' | 'swiss';
+
+/**
+ * How players are divided into pools: `tiers` keeps similar skill levels together,
+ * `balanced` spreads skill levels so every pool has a similar average
+ */
+export type PoolSplit = 'tiers' | 'balanced';
+
+/**
+ * How long the schedule search runs: `quick`, `normal` and `thorough` are preset time
+ * budgets, `custom` uses `MatchingOptions.effortSeconds`
+ */
+export type GenerationEffort = 'quick' | 'normal' | 'thorough' | 'custom';
+
 /**
  * Configuration options for the matching algorithm
  */
 export interface MatchingOptions {
-  /** Number of courts available (1-4) */
+  /**
+   * How teams are formed. `rotating` (the default) mixes partners every round;
+   * `fixedTeams` keeps registered partners together and plays a team round robin;
+   * `ladder` moves winners up and losers down a court, one round at a time from scores;
+   * `swiss` groups players with similar win records, one round at a time from scores.
+   */
+  mode?: MatchingMode;
+  /** Number of courts available (1-20) */
   numberOfCourts: number;
-  /** Number of rounds to generate (typically 7-9) */
+  /** Format of each court, by court number minus one. Courts not listed play doubles. */
+  courtFormats?: readonly CourtFormat[];
+  /**
+   * Names, availability and accessibility of each court, by court number minus one.
+   * Courts not listed have no details.
+   */
+  courts?: readonly CourtDetails[];
+  /** Number of rounds to generate (typically 7-9, at most 30) */
   numberOfRounds: number;
   /** Whether to attempt skill level balancing */
   balanceSkillLevels: boolean;
@@ -56,8 +135,25 @@ export interface MatchingOptions {
   maxSkillDifference: number;
   /** Whether to ensure equal distribution of rest periods */
   distributeRestEqually: boolean;
+  /**
+   * Number of pools to divide the players into, each playing its own schedule on its own
+   * courts. Unset or 1 keeps everyone in one pool.
+   */
+  poolCount?: number;
+  /** How players are divided when `poolCount` is more than 1, defaults to `tiers` */
+  poolSplit?: PoolSplit;
+  /**
+   * Pair one man with one woman on every doubles team.
+   * When the pool is unbalanced, the fewest possible same-gender teams are used.
+   */
+  mixedDoubles?: boolean;
   /**  */
   firstRoundSitters?: readonly string[];
+  /**
+   * Rounds (1-based) each player must sit out, by player ID.
+   * Forced sits count toward the player's rests.
+   */
+  unavailableRounds?: Record<string, readonly number[]>;
   /**
    * Outcome preference for reducing repeated opponents.
    * `balanced` matches current default behavior.
@@ -68,15 +164,86 @@ export interface MatchingOptions {
    * `balanced` matches current default behavior.
    */
   courtDiversityPriority?: 'relaxed' | 'balanced' | 'strict';
+  /**
+   * Number of recent session days whose partners and opponents the matcher
+   * should try not to repeat. 0 or unset ignores past sessions.
+   */
+  historySessionCount?: number;
+  /**
+   * Time budget for the schedule search, which returns the best schedule found when it runs out.
+   * Unset picks a fixed number of tries from the player count instead.
+   */
+  effort?: GenerationEffort;
+  /** Seconds to search for when `effort` is `custom` (1-60) */
+  effortSeconds?: number;
+  /**
+   * Part of the effort this search gets (0-1) when several searches share it, such as one per
+   * pool. Unset gives it the whole effort.
+   */
+  effortShare?: number;
+  /** Scoring profile the organizer picked, by ID; unset uses the standard weights */
+  scoringProfileId?: string;
+  /**
+   * Weights the matcher scores schedules with, filled in from the scoring profile when a
+   * schedule is generated. Unset uses the standard weights.
+   */
+  scoreWeights?: ScoreWeights;
+  /**
+   * Seed for the random choices made during the search. The same players, options and seed
+   * always give the same schedule; unset gives a different schedule each time.
+   */
+  seed?: number;
+}
+
+/**
+ * Partner and opponent pairings from previous sessions.
+ * Counts are weighted so that more recent sessions count more.
+ */
+export interface PairingHistory {
+  /** Weighted partner count by player ID, then partner ID */
+  partners: Record<string, Record<string, number>>;
+  /** Weighted opponent count by player ID, then opponent ID */
+  opponents: Record<string, Record<string, number>>;
+}
+
+/**
+ * How far a schedule search has got, reported while it runs
+ */
+export interface GenerationProgress {
+  /** Starting points tried so far */
+  iteration: number;
+  /** Starting points the search will try in total, when it runs for a fixed number of tries */
+  iterations?: number;
+  /** Time spent searching so far, in milliseconds */
+  elapsedMs: number;
+  /** Time the search may take, in milliseconds, when it has a time budget */
+  budgetMs?: number;
+  /** Score of the best schedule so far (lower is better) */
+  bestScore: number;
+  /** Pool being scheduled, when the players are split into pools */
+  pool?: string;
+}
+
+/**
+ * A group of players with its own courts within a pooled schedule
+ */
+export interface SchedulePool {
+  /** Display name, e.g. 'Tier 1' or 'Pool A' */
+  name: string;
+  playerIds: string[];
+  /** Court numbers (1-based) the pool plays on */
+  courts: number[];
 }
 
 /**
  * Represents a complete game schedule for all rounds
  */
 export interface GameSchedule {
+  /** Unique identifier for the schedule, used to group recorded results */
+  id?: string;
   /** All games organized by round */
   rounds: Game[][];
-  /** Players sitting out each round (1-4 players per round) */
+  /** Players sitting out each round */
   restingPlayers: string[][];
   /** Tournament/event label for printing */
   eventLabel: string;
@@ -84,8 +251,179 @@ export interface GameSchedule {
   options: MatchingOptions;
   /** Timestamp when schedule was generated */
   generatedAt: Date;
+  /** Late arrivals and early departures, by player ID */
+  attendance?: Record<string, PlayerAttendance>;
+  /** Pools that were scheduled independently, when the players were split */
+  pools?: SchedulePool[];
+  /** Playoff bracket seeded from this schedule's standings */
+  bracket?: Bracket;
+  /** Starting points tried so far, so improving the schedule further tries new ones */
+  searchIterations?: number;
   // Used to build schedule
   score?: number;
+  /** The parts `score` is made of, for explaining what the schedule had to compromise on */
+  scoreBreakdown?: ScoreComponent[];
+}
+
+/**
+ * A part of a schedule's score. Lower is better for every part.
+ */
+export type ScoreComponentKey =
+  | 'mixedDoubles'
+  | 'restDistribution'
+  | 'restSpacing'
+  | 'partnerRepeats'
+  | 'consecutiveOpponents'
+  | 'opponentRepeats'
+  | 'opponentsAboveTwo'
+  | 'consecutiveCourts'
+  | 'priorPartners'
+  | 'priorOpponents'
+  | 'singlesBalance'
+  | 'skillBalance'
+  | 'maxSkillDifference'
+  | 'couples'
+  | 'accessibleCourts';
+
+export interface ScoreComponent {
+  key: ScoreComponentKey;
+  /** Unweighted measure from the component's scoring rule */
+  raw: number;
+  /** How much the component counts, including any priority setting */
+  weight: number;
+  /** `raw * weight`, this component's share of the score */
+  penalty: number;
+}
+
+/**
+ * Base weight of each score component, before the opponent and court diversity priorities
+ * scale them. Components left out keep their standard weight.
+ */
+export type ScoreWeights = Partial<Record<ScoreComponentKey, number>>;
+
+/**
+ * A named set of score weights, for switching between the trade-offs different events want
+ */
+export interface ScoringProfile {
+  id: string;
+  name: string;
+  weights: ScoreWeights;
+  /** Whether the profile ships with the app; these can be edited and reset but not deleted */
+  builtIn?: boolean;
+}
+
+/**
+ * How one player fares in a schedule, for comparing schedules player by player
+ */
+export interface PlayerScheduleStats {
+  playerId: string;
+  games: number;
+  rests: number;
+  /** Games with a partner this player has already played with */
+  repeatedPartners: number;
+  /** Times this player faces an opponent they have already faced */
+  repeatedOpponents: number;
+}
+
+/**
+ * Single elimination ends a team's run at its first loss; double elimination at its second
+ */
+export type BracketFormat = 'single' | 'double';
+
+/**
+ * Part of a bracket a match belongs to. Single elimination only has a winners side.
+ */
+export type BracketSide = 'winners' | 'losers' | 'final';
+
+/**
+ * The slot a team moves into after a bracket match
+ */
+export interface BracketSlotRef {
+  matchId: string;
+  slot: 1 | 2;
+}
+
+/**
+ * One game of a playoff bracket
+ */
+export interface BracketMatch {
+  /** Unique within the bracket, e.g. 'W1-1' for the first winners match of round 1 */
+  id: string;
+  side: BracketSide;
+  /** Round within its side (1-based) */
+  round: number;
+  /** Team in slot 1: unset until decided, null when it is a bye */
+  team1?: Team | null;
+  /** Team in slot 2: unset until decided, null when it is a bye */
+  team2?: Team | null;
+  team1Score?: number;
+  team2Score?: number;
+  /** Where the winner plays next; unset for the deciding match */
+  winnerTo?: BracketSlotRef;
+  /** Where the loser plays next in double elimination */
+  loserTo?: BracketSlotRef;
+}
+
+/**
+ * A playoff bracket seeded from a schedule's pool standings
+ */
+export interface Bracket {
+  format: BracketFormat;
+  /** Teams in seed order, top seed first */
+  seeds: Team[];
+  matches: BracketMatch[];
+  createdAt: Date;
+}
+
+/**
+ * Rounds a player is present for when they arrive late or leave early
+ */
+export interface PlayerAttendance {
+  /** First round the player can play (1-based), defaults to round 1 */
+  arrivesRound?: number;
+  /** Last round the player can play (1-based), defaults to the final round */
+  leavesAfterRound?: number;
+}
+
+/**
+ * A generated schedule saved to the session history
+ */
+export interface ScheduleSession {
+  /** Same as the schedule ID */
+  id: string;
+  /** Display name, defaults to the event label */
+  name: string;
+  schedule: GameSchedule;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * A recorded score for a scheduled game, kept after the schedule is cleared
+ */
+export interface GameResult {
+  /** Unique identifier for the result */
+  id: string;
+  /** ID of the schedule the game belongs to */
+  scheduleId: string;
+  /** ID of the game within the schedule */
+  gameId: string;
+  /** Event label of the schedule (e.g., 'Tuesday May 28th') */
+  eventLabel: string;
+  /** Which round the game was played in */
+  round: number;
+  /** Court number the game was played on */
+  court: number;
+  /** Player IDs for team 1 */
+  team1: string[];
+  /** Player IDs for team 2 */
+  team2: string[];
+  /** Points scored by team 1 */
+  team1Score: number;
+  /** Points scored by team 2 */
+  team2Score: number;
+  /** When the score was recorded */
+  playedAt: Date;
 }
 
 /**
@@ -109,6 +447,58 @@ export interface PlayerStats {
   opponentCounts: Record<string, number>;
 }
 
+/**
+ * Win/loss record for a single player, built from recorded game results
+ */
+export interface PlayerStanding {
+  /** Player ID */
+  playerId: string;
+  /** Number of scored games played */
+  gamesPlayed: number;
+  wins: number;
+  losses: number;
+  ties: number;
+  /** Total points scored by the player's teams */
+  pointsFor: number;
+  /** Total points scored against the player's teams */
+  pointsAgainst: number;
+  /** pointsFor minus pointsAgainst */
+  pointDifferential: number;
+  /** Wins (ties count as half) divided by games played, 0-1 */
+  winPercentage: number;
+}
+
+/**
+ * A session (one generated schedule) that has recorded results
+ */
+export interface ResultSession {
+  scheduleId: string;
+  eventLabel: string;
+  /** Time of the first recorded game in the session */
+  playedAt: Date;
+  gameCount: number;
+}
+
+/**
+ * A change to a player's skill level proposed by the rating engine after a recorded game
+ */
+export interface RatingAdjustment {
+  id: string;
+  playerId: string;
+  /** ID of the game result that produced this adjustment */
+  resultId: string;
+  /** Skill level when the game was recorded */
+  previousRating: number;
+  /** Skill level the engine suggests after the game */
+  proposedRating: number;
+  /** Change to apply to the player's skill level (proposedRating - previousRating) */
+  delta: number;
+  /** `reverted` changes were accepted, then undone because the game's score was changed or cleared */
+  status: 'pending' | 'accepted' | 'rejected' | 'reverted';
+  createdAt: Date;
+  reviewedAt?: Date;
+}
+
 /**
  * Print configuration for generating printable schedules
  */
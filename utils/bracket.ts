@@ -0,0 +1,326 @@
+import type { Bracket, BracketFormat, BracketMatch, GameSchedule, PlayerStanding, Team } from '~/types';
+
+/**
+ * Pick the playoff teams from a schedule's pool standings, best seed first.
+ *
+ * Fixed-team schedules keep their registered teams and rank them by their
+ * players' standing. In a rotating schedule partners change every game, so the
+ * top players are paired strongest with weakest (1st with last qualifier, 2nd
+ * with second-to-last, ...) to keep the playoff teams even.
+ *
+ * @param schedule - The pool play schedule
+ * @param standings - Standings from the schedule's results, first place first
+ * @param teamCount - How many teams the bracket should have
+ * @returns Teams in seed order
+ */
+export function seedBracketTeams(schedule: GameSchedule, standings: PlayerStanding[], teamCount: number): Team[] {
+  // Players who have not recorded a game yet rank below everyone who has
+  const schedulePlayers = new Set<string>();
+  for (const game of schedule.rounds.flat()) {
+    for (const id of [...game.team1, ...game.team2]) {
+      schedulePlayers.add(id);
+    }
+  }
+  for (const id of schedule.restingPlayers.flat()) {
+    schedulePlayers.add(id);
+  }
+  const ranked = standings.map(standing => standing.playerId).filter(id => schedulePlayers.has(id));
+  for (const id of schedulePlayers) {
+    if (!ranked.includes(id)) {
+      ranked.push(id);
+    }
+  }
+
+  let teams: Team[];
+  if (schedule.options.mode === 'fixedTeams') {
+    const teamOf = new Map<string, Team>();
+    for (const game of schedule.rounds.flat()) {
+      for (const team of [game.team1, game.team2]) {
+        for (const id of team) {
+          teamOf.set(id, [...team] as Team);
+        }
+      }
+    }
+    const seen = new Set<string>();
+    teams = [];
+    for (const id of ranked) {
+      const team = teamOf.get(id);
+      if (team && !seen.has(teamKey(team))) {
+        seen.add(teamKey(team));
+        teams.push(team);
+      }
+    }
+    teams = teams.slice(0, teamCount);
+  } else {
+    const qualifiers = ranked.slice(0, teamCount * 2);
+    const pairs = Math.floor(qualifiers.length / 2);
+    teams = Array.from(
+      { length: pairs },
+      (_, index) => [qualifiers[index], qualifiers[pairs * 2 - 1 - index]] as [string, string]
+    );
+  }
+
+  if (teams.length < Math.min(teamCount, 2)) {
+    throw new Error('There are not enough teams in the pool standings to fill the bracket');
+  }
+  return teams;
+}
+
+/**
+ * Build an empty bracket for the given seeds.
+ *
+ * The bracket is sized to the next power of two, with byes going to the top
+ * seeds. Double elimination adds a losers side and one grand final between the
+ * winners and losers champions (there is no reset game).
+ *
+ * @param seeds - Teams in seed order, top seed first
+ * @param format - Single or double elimination
+ * @returns A bracket with round 1 filled in and byes already advanced
+ */
+export function createBracket(seeds: Team[], format: BracketFormat): Bracket {
+  if (seeds.length < 2) {
+    throw new Error('A bracket needs at least 2 teams');
+  }
+
+  const rounds = Math.ceil(Math.log2(seeds.length));
+  const size = 2 ** rounds;
+  const matches: BracketMatch[] = [];
+  const match = (side: BracketMatch['side'], round: number, index: number): string =>
+    side === 'final' ? 'F' : `${side === 'winners' ? 'W' : 'L'}${round}-${index + 1}`;
+
+  // Winners side
+  const order = seedOrder(size);
+  for (let round = 1; round <= rounds; round++) {
+    const count = size / 2 ** round;
+    for (let index = 0; index < count; index++) {
+      const current: BracketMatch = { id: match('winners', round, index), side: 'winners', round };
+      if (round === 1) {
+        current.team1 = seeds[(order[index * 2] as number) - 1] ?? null;
+        current.team2 = seeds[(order[index * 2 + 1] as number) - 1] ?? null;
+      }
+      if (round < rounds) {
+        current.winnerTo = {
+          matchId: match('winners', round + 1, Math.floor(index / 2)),
+          slot: index % 2 === 0 ? 1 : 2
+        };
+      } else if (format === 'double') {
+        current.winnerTo = { matchId: 'F', slot: 1 };
+      }
+      matches.push(current);
+    }
+  }
+
+  if (format === 'double') {
+    const losersRounds = 2 * (rounds - 1);
+    for (let round = 1; round <= losersRounds; round++) {
+      const count = size / 2 ** (Math.floor((round + 1) / 2) + 1);
+      for (let index = 0; index < count; index++) {
+        const current: BracketMatch = { id: match('losers', round, index), side: 'losers', round };
+        if (round === losersRounds) {
+          current.winnerTo = { matchId: 'F', slot: 2 };
+        } else if (round % 2 === 1) {
+          // Odd losers rounds feed the next round's slot 1; winners side losers drop into slot 2
+          current.winnerTo = { matchId: match('losers', round + 1, index), slot: 1 };
+        } else {
+          current.winnerTo = {
+            matchId: match('losers', round + 1, Math.floor(index / 2)),
+            slot: index % 2 === 0 ? 1 : 2
+          };
+        }
+        matches.push(current);
+      }
+    }
+
+    for (const current of matches.filter(m => m.side === 'winners')) {
+      const index = Number(current.id.split('-')[1]) - 1;
+      if (losersRounds === 0) {
+        current.loserTo = { matchId: 'F', slot: 2 };
+      } else if (current.round === 1) {
+        current.loserTo = { matchId: match('losers', 1, Math.floor(index / 2)), slot: index % 2 === 0 ? 1 : 2 };
+      } else {
+        // Flip every other drop so teams do not meet the side they just came from straight away
+        const count = size / 2 ** current.round;
+        const target = current.round % 2 === 0 ? count - 1 - index : index;
+        current.loserTo = { matchId: match('losers', 2 * (current.round - 1), target), slot: 2 };
+      }
+    }
+
+    matches.push({ id: 'F', side: 'final', round: 1 });
+  }
+
+  return advanceBracket({ format, seeds: seeds.map(team => [...team] as Team), matches, createdAt: new Date() });
+}
+
+/**
+ * Record the score of a bracket match and move the teams on
+ * @returns An updated copy of the bracket
+ */
+export function recordBracketScore(bracket: Bracket, matchId: string, team1Score: number, team2Score: number): Bracket {
+  if (!Number.isInteger(team1Score) || !Number.isInteger(team2Score) || team1Score < 0 || team2Score < 0) {
+    throw new Error('Scores must be whole numbers of zero or more');
+  }
+  if (team1Score === team2Score) {
+    throw new Error('Playoff games need a winner');
+  }
+  const copy = cloneBracket(bracket);
+  const target = copy.matches.find(m => m.id === matchId);
+  if (!target?.team1 || !target.team2) {
+    throw new Error('Both teams must be known before this game can be scored');
+  }
+  target.team1Score = team1Score;
+  target.team2Score = team2Score;
+  return advanceBracket(copy);
+}
+
+/**
+ * Remove the score of a bracket match. Later matches that depended on it are cleared too.
+ * @returns An updated copy of the bracket
+ */
+export function clearBracketScore(bracket: Bracket, matchId: string): Bracket {
+  const copy = cloneBracket(bracket);
+  const target = copy.matches.find(m => m.id === matchId);
+  if (target) {
+    target.team1Score = undefined;
+    target.team2Score = undefined;
+  }
+  return advanceBracket(copy);
+}
+
+/**
+ * The bracket winner, or null while the deciding match is still to be played
+ */
+export function getBracketChampion(bracket: Bracket): Team | null {
+  const deciding = bracket.matches.find(m => !m.winnerTo);
+  return deciding ? (matchOutcome(deciding)?.winner ?? null) : null;
+}
+
+/**
+ * Seed number (1-based) of a team in the bracket, or undefined for an unknown team
+ */
+export function getBracketSeed(bracket: Bracket, team: readonly string[]): number | undefined {
+  const index = bracket.seeds.findIndex(seed => teamKey(seed) === teamKey(team));
+  return index === -1 ? undefined : index + 1;
+}
+
+/**
+ * Matches of one side grouped by round, in round order
+ */
+export function getBracketRounds(bracket: Bracket, side: BracketMatch['side']): BracketMatch[][] {
+  const rounds: BracketMatch[][] = [];
+  for (const current of bracket.matches.filter(m => m.side === side)) {
+    const round = rounds[current.round - 1] ?? [];
+    round.push(current);
+    rounds[current.round - 1] = round;
+  }
+  return rounds;
+}
+
+/**
+ * Refill every later slot from round 1 and the recorded scores.
+ * A match whose teams changed (because an earlier score was edited) loses its score.
+ */
+function advanceBracket(bracket: Bracket): Bracket {
+  const fed = new Set<string>();
+  for (const current of bracket.matches) {
+    for (const ref of [current.winnerTo, current.loserTo]) {
+      if (ref) {
+        fed.add(`${ref.matchId}:${ref.slot}`);
+      }
+    }
+  }
+
+  const previous = new Map(bracket.matches.map(m => [m.id, slotKeys(m)]));
+  const byId = new Map(bracket.matches.map(m => [m.id, m]));
+  for (const current of bracket.matches) {
+    if (fed.has(`${current.id}:1`)) {
+      current.team1 = undefined;
+    }
+    if (fed.has(`${current.id}:2`)) {
+      current.team2 = undefined;
+    }
+  }
+
+  const settled = new Set<string>();
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const current of bracket.matches) {
+      if (settled.has(current.id) || current.team1 === undefined || current.team2 === undefined) {
+        continue;
+      }
+      if (slotKeys(current) !== previous.get(current.id)) {
+        current.team1Score = undefined;
+        current.team2Score = undefined;
+      }
+      const outcome = matchOutcome(current);
+      if (!outcome) {
+        continue;
+      }
+      settled.add(current.id);
+      changed = true;
+      for (const [ref, team] of [
+        [current.winnerTo, outcome.winner],
+        [current.loserTo, outcome.loser]
+      ] as const) {
+        const next = ref ? byId.get(ref.matchId) : undefined;
+        if (ref && next) {
+          next[ref.slot === 1 ? 'team1' : 'team2'] = team;
+        }
+      }
+    }
+  }
+
+  for (const current of bracket.matches) {
+    if (!settled.has(current.id) && slotKeys(current) !== previous.get(current.id)) {
+      current.team1Score = undefined;
+      current.team2Score = undefined;
+    }
+  }
+  return bracket;
+}
+
+/**
+ * Winner and loser of a match once it is decided. A team facing a bye wins without playing;
+ * two byes send a bye on.
+ */
+function matchOutcome(current: BracketMatch): { winner: Team | null; loser: Team | null } | null {
+  const { team1, team2, team1Score, team2Score } = current;
+  if (team1 === undefined || team2 === undefined) {
+    return null;
+  }
+  if (team1 === null || team2 === null) {
+    return { winner: team1 ?? team2, loser: null };
+  }
+  if (team1Score === undefined || team2Score === undefined || team1Score === team2Score) {
+    return null;
+  }
+  return team1Score > team2Score ? { winner: team1, loser: team2 } : { winner: team2, loser: team1 };
+}
+
+/**
+ * Standard bracket order of seeds for a power-of-two size, so the top seeds meet last
+ * (for 8: 1, 8, 4, 5, 2, 7, 3, 6)
+ */
+function seedOrder(size: number): number[] {
+  let order = [1];
+  while (order.length < size) {
+    const next = order.length * 2 + 1;
+    order = order.flatMap(seed => [seed, next - seed]);
+  }
+  return order;
+}
+
+function slotKeys(current: BracketMatch): string {
+  const key = (team: Team | null | undefined) => (team === undefined ? '?' : team === null ? '-' : teamKey(team));
+  return `${key(current.team1)}/${key(current.team2)}`;
+}
+
+function teamKey(team: readonly string[]): string {
+  return team.join('|');
+}
+
+function cloneBracket(bracket: Bracket): Bracket {
+  const copy = JSON.parse(JSON.stringify(bracket)) as Bracket;
+  copy.createdAt = new Date(bracket.createdAt);
+  return copy;
+}
@@ -0,0 +1,77 @@
+import type { CourtDetails, CourtFormat, MatchingOptions } from '~/types';
+
+type CourtOptions = Pick<MatchingOptions, 'numberOfCourts' | 'courtFormats' | 'courts'>;
+
+/** Players needed to fill a court of each format */
+export const COURT_FORMAT_PLAYERS: Record<CourtFormat, number> = {
+  doubles: 4,
+  singles: 2
+};
+
+/**
+ * Format of a court (1-based), defaulting to doubles
+ */
+export function getCourtFormat(options: Pick<MatchingOptions, 'courtFormats'>, court: number): CourtFormat {
+  return options.courtFormats?.[court - 1] ?? 'doubles';
+}
+
+/**
+ * Details of a court (1-based), empty when none were given
+ */
+export function getCourtDetails(options: Pick<MatchingOptions, 'courts'>, court: number): CourtDetails {
+  return options.courts?.[court - 1] ?? {};
+}
+
+/**
+ * Display name of a court (1-based), defaulting to "Court N"
+ */
+export function getCourtName(options: Pick<MatchingOptions, 'courts'>, court: number): string {
+  return getCourtDetails(options, court).name?.trim() || `Court ${court}`;
+}
+
+/**
+ * Whether a court (1-based) can be used in a round (1-based)
+ */
+export function isCourtAvailable(options: Pick<MatchingOptions, 'courts'>, court: number, round: number): boolean {
+  const availableRounds = getCourtDetails(options, court).availableRounds;
+  return availableRounds === undefined || availableRounds.includes(round);
+}
+
+/**
+ * Players needed to fill the given courts
+ */
+export function countCourtPlayers(options: Pick<MatchingOptions, 'courtFormats'>, courts: readonly number[]): number {
+  return courts.reduce((sum, court) => sum + COURT_FORMAT_PLAYERS[getCourtFormat(options, court)], 0);
+}
+
+/**
+ * Players needed to fill every court
+ */
+export function getCourtCapacity(options: CourtOptions): number {
+  return countCourtPlayers(
+    options,
+    Array.from({ length: options.numberOfCourts }, (_, index) => index + 1)
+  );
+}
+
+/**
+ * Courts that `playerCount` players can fill, taken in court order.
+ * A court is skipped when too few players are left for its format, or when `round`
+ * is given and the court is not available in it.
+ * @returns Court numbers in use
+ */
+export function fitCourts(options: CourtOptions, playerCount: number, round?: number): number[] {
+  const courts: number[] = [];
+  let remaining = playerCount;
+  for (let court = 1; court <= options.numberOfCourts; court++) {
+    if (round !== undefined && !isCourtAvailable(options, court, round)) {
+      continue;
+    }
+    const needed = COURT_FORMAT_PLAYERS[getCourtFormat(options, court)];
+    if (needed <= remaining) {
+      courts.push(court);
+      remaining -= needed;
+    }
+  }
+  return courts;
+}
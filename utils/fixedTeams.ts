@@ -0,0 +1,34 @@
+import type { Player } from '~/types';
+
+/**
+ * Registered teams of two among the given players.
+ *
+ * A team is two players who name each other as partner. Players whose partner
+ * is missing from the list, or who have no partner, are returned as unpaired.
+ *
+ * @param players - Players taking part, in display order
+ * @returns Teams in the order their first player appears, plus unpaired player IDs
+ */
+export function buildFixedTeams(players: Player[]): { teams: Array<[string, string]>; unpaired: string[] } {
+  const ids = new Set(players.map(p => p.id));
+  const byId = new Map(players.map(p => [p.id, p]));
+  const teamed = new Set<string>();
+  const teams: Array<[string, string]> = [];
+  const unpaired: string[] = [];
+
+  for (const player of players) {
+    if (teamed.has(player.id)) {
+      continue;
+    }
+    const partnerId = player.partnerId;
+    if (partnerId && ids.has(partnerId) && !teamed.has(partnerId) && byId.get(partnerId)?.partnerId === player.id) {
+      teams.push([player.id, partnerId]);
+      teamed.add(player.id);
+      teamed.add(partnerId);
+    } else {
+      unpaired.push(player.id);
+    }
+  }
+
+  return { teams, unpaired };
+}
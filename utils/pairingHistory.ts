@@ -0,0 +1,61 @@
+import type { GameSchedule, PairingHistory } from '~/types';
+
+function addPairing(counts: Record<string, Record<string, number>>, a: string, b: string, weight: number): void {
+  counts[a] ??= {};
+  counts[b] ??= {};
+  counts[a][b] = (counts[a][b] ?? 0) + weight;
+  counts[b][a] = (counts[b][a] ?? 0) + weight;
+}
+
+/**
+ * Collect partner and opponent pairings from the most recent schedules.
+ *
+ * The most recent schedule counts fully, the one before it half, then a third,
+ * and so on, so that last week's partners are avoided more strongly than those
+ * from a month ago.
+ *
+ * Only the last schedule generated on each day counts, since earlier ones that evening
+ * were drafts thrown away by regenerating.
+ *
+ * @param schedules - Previously generated schedules, in any order
+ * @param sessionCount - How many of the most recent days to include
+ * @returns Weighted pairing counts keyed by player ID
+ */
+export function buildPairingHistory(schedules: GameSchedule[], sessionCount: number): PairingHistory {
+  const history: PairingHistory = { partners: {}, opponents: {} };
+  if (sessionCount <= 0) {
+    return history;
+  }
+
+  const seenDays = new Set<string>();
+  const recent = [...schedules]
+    .sort((a, b) => new Date(b.generatedAt).getTime() - new Date(a.generatedAt).getTime())
+    .filter(schedule => {
+      const day = new Date(schedule.generatedAt).toDateString();
+      if (seenDays.has(day)) {
+        return false;
+      }
+      seenDays.add(day);
+      return true;
+    })
+    .slice(0, sessionCount);
+
+  recent.forEach((schedule, index) => {
+    const weight = 1 / (index + 1);
+    for (const game of schedule.rounds.flat()) {
+      for (const team of [game.team1, game.team2]) {
+        // Singles games have no partners
+        if (team.length === 2) {
+          addPairing(history.partners, team[0], team[1], weight);
+        }
+      }
+      for (const a of game.team1) {
+        for (const b of game.team2) {
+          addPairing(history.opponents, a, b, weight);
+        }
+      }
+    }
+  });
+
+  return history;
+}
@@ -1,15 +1,210 @@
-import type { Game, GameSchedule, MatchingOptions, Player } from '~/types';
+import type {
+  Game,
+  GameSchedule,
+  GenerationEffort,
+  GenerationProgress,
+  MatchingMode,
+  MatchingOptions,
+  PairingHistory,
+  Player,
+  PlayerAttendance,
+  ScoreComponent,
+  ScoreComponentKey,
+  Team
+} from '~/types';
+import {
+  countCourtPlayers,
+  fitCourts,
+  getCourtCapacity,
+  getCourtDetails,
+  getCourtFormat,
+  isCourtAvailable
+} from '~/utils/courtFormats';
+import { buildFixedTeams } from '~/utils/fixedTeams';
+import { cloneSchedule } from '~/utils/scheduleUtils';
+import { DEFAULT_SCORE_WEIGHTS } from '~/utils/scoringProfiles';
+
+/** A player's slot in a round: game index, team index and position within the team */
+type SwapPosition = { gi: number; ti: 0 | 1; pi: 0 | 1 };
+
+/** Partner, opponent and singles counts, by pair key or player ID */
+interface PairCounts {
+  partners: Map<string, number>;
+  opponents: Map<string, number>;
+  singles: Map<string, number>;
+}
+
+/**
+ * Counts kept up to date alongside a schedule during local search and repair, so a change can
+ * be scored from the games it touches instead of rescoring the whole schedule
+ */
+interface ScoreTables extends PairCounts {
+  /** Index of the game each playing player is in, for every round */
+  gameIndex: Array<Map<string, number>>;
+}
+
+/** Games replaced in one round of a schedule, and who rests there if that changes too */
+interface RoundEdit {
+  roundIdx: number;
+  /** The replacement games, by their index in the round */
+  games: Map<number, Game>;
+  /** Everyone resting in the round afterwards, when that changes */
+  resting?: string[];
+}
+
+/** What editing some rounds would change */
+interface ScheduleDelta {
+  /** The edits that were scored */
+  edits: RoundEdit[];
+  /** Change in the pair and singles counts */
+  counts: PairCounts;
+  /** Change in each raw score component */
+  raw: Partial<Record<ScoreComponentKey, number>>;
+  /** Change in the weighted score */
+  penalty: number;
+}
+
+/**
+ * Whether a mode builds its schedule one round at a time from the scores so far
+ */
+export function isRoundByRoundMode(mode: MatchingMode | undefined): boolean {
+  return mode === 'ladder' || mode === 'swiss';
+}
+
+/** Seconds each preset effort level searches for */
+const EFFORT_SECONDS: Record<Exclude<GenerationEffort, 'custom'>, number> = {
+  quick: 1,
+  normal: 3,
+  thorough: 10
+};
+
+/** Starting points tried per second of effort when a seed makes the search reproducible */
+const SEEDED_TRIES_PER_SECOND = 300;
+
+/**
+ * Most teams whose matchups are searched exhaustively in one round (6 doubles courts).
+ * The search grows exponentially with the team count, so bigger rounds are matched
+ * greedily and then improved by exchanging opponents between pairs of games.
+ */
+const EXACT_MATCHUP_MAX_TEAMS = 12;
+
+/**
+ * Smallest drop in score a swap must make to be taken, so rounding in the per-swap score
+ * changes cannot make local search trade players back and forth
+ */
+const MIN_SCORE_IMPROVEMENT = 1e-9;
+
+/**
+ * Seconds of search an effort level asks for, scaled by the search's share of it,
+ * or undefined when no effort is set
+ */
+function getEffortSeconds(options: MatchingOptions): number | undefined {
+  if (!options.effort) {
+    return undefined;
+  }
+  const seconds =
+    options.effort === 'custom'
+      ? Math.min(60, Math.max(1, options.effortSeconds ?? 1))
+      : EFFORT_SECONDS[options.effort];
+  return seconds * Math.min(1, Math.max(0, options.effortShare ?? 1));
+}
+
+/**
+ * How long a schedule search may run, in milliseconds, or undefined for a fixed number of tries.
+ * A seeded search never watches the clock, since the tries it gets through would vary by device.
+ */
+export function getSearchBudgetMs(options: MatchingOptions): number | undefined {
+  const seconds = getEffortSeconds(options);
+  return seconds === undefined || options.seed !== undefined ? undefined : seconds * 1000;
+}
+
+/**
+ * Small seeded random number generator (mulberry32), with one stream per seed and try
+ */
+function seededRandom(seed: number, stream: number): () => number {
+  let state = (Math.imul(Math.trunc(seed), 0x9e3779b1) ^ Math.imul(stream + 1, 0x85ebca6b)) >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
 
 /**
  * PickleballMatcher - Greedy constructive algorithm with local optimization
  * Builds schedules round-by-round using heuristics, then improves with local search
  */
 export class PickleballMatcher {
+  /** Skip prior-session lookups in the hot scoring loops when there is no history */
+  private readonly hasPriorHistory: boolean;
+  /** Rounds kept exactly as played when regenerating the rest of a schedule */
+  private frozenRounds: Game[][] = [];
+  private frozenRestingPlayers: string[][] = [];
+  /** Late arrivals and early departures, by player ID */
+  private attendance: Record<string, PlayerAttendance> = {};
+  /** Tie-breaking noise, reseeded for every try when the options have a seed */
+  private random: () => number = Math.random;
+  /** Pairs that must never partner or never face each other, from the players' lists, as pair keys */
+  private readonly avoidPartners = new Set<string>();
+  private readonly avoidOpponents = new Set<string>();
+  /** Players who must play on an accessible court */
+  private readonly needsAccessibleCourt = new Set<string>();
+  /** Players by ID, since large clubs make looking players up in the list slow */
+  private readonly playersById = new Map<string, Player>();
+  /** Couples among the active players, as pair keys */
+  private readonly couples = new Set<string>();
+
   constructor(
     private players: Player[],
-    private opts: MatchingOptions
+    private opts: MatchingOptions,
+    private priorHistory: PairingHistory = { partners: {}, opponents: {} },
+    private onProgress?: (progress: GenerationProgress) => void
   ) {
-    // no-op
+    this.hasPriorHistory =
+      Object.keys(priorHistory.partners).length > 0 || Object.keys(priorHistory.opponents).length > 0;
+    for (const player of players) {
+      this.playersById.set(player.id, player);
+      for (const id of player.avoidPartnerIds ?? []) {
+        this.avoidPartners.add(this.pairKey(player.id, id));
+      }
+      for (const id of player.avoidOpponentIds ?? []) {
+        this.avoidOpponents.add(this.pairKey(player.id, id));
+      }
+      if (player.needsAccessibleCourt) {
+        this.needsAccessibleCourt.add(player.id);
+      }
+      if (player.partnerId && player.active !== false) {
+        this.couples.add(this.pairKey(player.id, player.partnerId));
+      }
+    }
+  }
+
+  /**
+   * Weighted number of times two players partnered in previous sessions
+   */
+  private priorPartnerCount(a: string, b: string): number {
+    if (!this.hasPriorHistory) {
+      return 0;
+    }
+    return this.priorHistory.partners[a]?.[b] || 0;
+  }
+
+  /**
+   * Weighted number of times two teams' players faced each other in previous sessions
+   */
+  private priorOpponentCount(team1: readonly string[], team2: readonly string[]): number {
+    if (!this.hasPriorHistory) {
+      return 0;
+    }
+    let total = 0;
+    for (const a of team1) {
+      for (const b of team2) {
+        total += this.priorHistory.opponents[a]?.[b] || 0;
+      }
+    }
+    return total;
   }
 
   private preferenceMultiplier(level: 'relaxed' | 'balanced' | 'strict' | undefined): number {
@@ -27,48 +222,787 @@ export class PickleballMatcher {
    */
   public async generateSchedule(eventLabel: string = ''): Promise<GameSchedule> {
     const activePlayers = this.players.filter(p => p.active !== false);
+    this.assertEnoughPlayers(
+      activePlayers.map(p => p.id),
+      1
+    );
+    return await this.searchSchedules(eventLabel, activePlayers);
+  }
+
+  /**
+   * Regenerate the rounds after `frozenRoundCount`, keeping earlier rounds exactly as played.
+   * Partner, opponent, court and rest histories are replayed from the frozen rounds, so the
+   * new rounds still avoid repeating what already happened.
+   *
+   * The matcher's players must include everyone in the frozen rounds as well as any late
+   * arrivals; players are only scheduled in rounds inside their attendance window.
+   */
+  public async regenerateRemainingRounds(
+    schedule: GameSchedule,
+    frozenRoundCount: number,
+    attendance: Record<string, PlayerAttendance> = {}
+  ): Promise<GameSchedule> {
+    if (frozenRoundCount < 0 || frozenRoundCount >= this.opts.numberOfRounds) {
+      throw new Error('There are no remaining rounds to regenerate');
+    }
+
+    this.frozenRounds = schedule.rounds
+      .slice(0, frozenRoundCount)
+      .map(round => round.map(game => ({ ...game, team1: [...game.team1], team2: [...game.team2] }) as Game));
+    this.frozenRestingPlayers = schedule.restingPlayers.slice(0, frozenRoundCount).map(rests => [...rests]);
+    this.attendance = attendance;
+
+    this.assertEnoughPlayers(
+      this.players.map(p => p.id),
+      frozenRoundCount + 1
+    );
+
+    return await this.searchSchedules(schedule.eventLabel, this.players);
+  }
+
+  /**
+   * Add the next round of a ladder or Swiss schedule from the scores so far.
+   * A ladder moves winners up a court and losers down; Swiss groups players with similar records.
+   */
+  public async generateNextRound(schedule: GameSchedule): Promise<GameSchedule> {
+    if (!isRoundByRoundMode(this.opts.mode)) {
+      throw new Error('Only ladder and Swiss schedules are played one round at a time');
+    }
+    if (schedule.rounds.length >= this.opts.numberOfRounds) {
+      throw new Error('All rounds of this schedule have been played');
+    }
+
+    this.frozenRounds = schedule.rounds.map(round =>
+      round.map(game => ({ ...game, team1: [...game.team1], team2: [...game.team2] }) as Game)
+    );
+    this.frozenRestingPlayers = schedule.restingPlayers.map(rests => [...rests]);
+    this.attendance = schedule.attendance ?? {};
+
+    return await this.searchSchedules(schedule.eventLabel, this.players);
+  }
+
+  /**
+   * Keep searching for a better version of a rotating schedule, starting from the tries it
+   * has not made yet. The schedule is returned unchanged if nothing better turns up.
+   */
+  public async improveSchedule(schedule: GameSchedule): Promise<GameSchedule> {
+    if ((this.opts.mode ?? 'rotating') !== 'rotating') {
+      throw new Error('Only rotating partner schedules can be improved further');
+    }
+    if (schedule.pools) {
+      throw new Error('Pooled schedules cannot be improved further');
+    }
+    if (schedule.rounds.flat().some(game => game.team1Score !== undefined || game.team2Score !== undefined)) {
+      throw new Error('Schedules with recorded scores cannot be improved further');
+    }
+    this.attendance = schedule.attendance ?? {};
+
+    return await this.searchSchedules(schedule.eventLabel, this.players, cloneSchedule(schedule));
+  }
+
+  /**
+   * Restart the tie-breaking noise for one stage of a seeded search, so every try gives the
+   * same result no matter how many tries came before it. Unseeded searches stay random.
+   */
+  private reseed(stream: number): void {
+    if (this.opts.seed !== undefined) {
+      this.random = seededRandom(this.opts.seed, stream);
+    }
+  }
+
+  /**
+   * Generate up to `count` distinct schedules, best first, for the organizer to choose from.
+   * Schedules count as distinct when their games differ, whatever courts they are on.
+   */
+  public async generateCandidates(eventLabel: string, count: number): Promise<GameSchedule[]> {
+    if ((this.opts.mode ?? 'rotating') !== 'rotating') {
+      throw new Error('Only rotating partner schedules can be compared');
+    }
+    const activePlayers = this.players.filter(p => p.active !== false);
+    this.assertEnoughPlayers(
+      activePlayers.map(p => p.id),
+      1
+    );
+    this.reseed(-1);
+    return await this.searchCandidates(eventLabel, activePlayers, Math.max(1, count));
+  }
+
+  /**
+   * Build the schedule for the chosen mode; rotating schedules are searched for
+   */
+  private async searchSchedules(
+    eventLabel: string,
+    activePlayers: Player[],
+    incumbent?: GameSchedule
+  ): Promise<GameSchedule> {
+    this.reseed(-1);
+    if (this.opts.mode === 'fixedTeams') {
+      return this.buildFixedTeamSchedule(eventLabel, activePlayers);
+    }
+    if (this.opts.mode === 'ladder') {
+      return this.buildLadderSchedule(eventLabel, activePlayers);
+    }
+    if (this.opts.mode === 'swiss') {
+      return this.buildSwissSchedule(eventLabel, activePlayers);
+    }
+
+    const [best] = await this.searchCandidates(eventLabel, activePlayers, 1, incumbent);
+    if (!best) {
+      throw new Error('Failed to generate schedule');
+    }
+    return best;
+  }
+
+  /**
+   * Try many greedy starting points, then polish the best `count` with local search and repair.
+   *
+   * With an effort setting the tries continue until the time budget runs out (keeping a
+   * little of it for the polish), so the search can stop at any point with its best so far.
+   * An `incumbent` schedule is the one to beat, and the tries carry on from where it left off.
+   */
+  private async searchCandidates(
+    eventLabel: string,
+    activePlayers: Player[],
+    count: number,
+    incumbent?: GameSchedule
+  ): Promise<GameSchedule[]> {
     // Small player pools with many rounds are harder — give them more search budget.
     // 2-court pools use exhaustive per-round construction (315 arrangements evaluated vs ~6
     // greedy), so each iteration is ~20× richer; fewer iterations are needed.
-    const sittersPerRound = activePlayers.length - this.opts.numberOfCourts * 4;
+    const sittersPerRound = activePlayers.length - getCourtCapacity(this.opts);
     const isHighDensity = sittersPerRound <= 2 && this.opts.numberOfRounds >= 10;
-    const usesExhaustive = sittersPerRound <= 2 && this.opts.numberOfCourts === 2;
+    const usesExhaustive = sittersPerRound <= 2 && this.opts.numberOfCourts === 2 && !this.hasSinglesCourts();
     // Large pools (≥14 players) have ample natural variety; 1000 iterations is sufficient.
     // Medium pools (10-13 players, non-exhaustive) need 1500 to find good schedules reliably.
     const isLargePool = activePlayers.length >= 14;
-    const iterations = usesExhaustive ? 1000 : isHighDensity ? 2500 : isLargePool ? 1000 : 1500;
-
-    let bestSchedule: GameSchedule | null = null;
-    let bestScore = Number.POSITIVE_INFINITY;
+    const budgetMs = getSearchBudgetMs(this.opts);
+    const seededSeconds = this.opts.seed !== undefined ? getEffortSeconds(this.opts) : undefined;
+    const iterations =
+      budgetMs !== undefined
+        ? Number.POSITIVE_INFINITY
+        : seededSeconds !== undefined
+          ? seededSeconds * SEEDED_TRIES_PER_SECOND
+          : usesExhaustive
+            ? 1000
+            : isHighDensity
+              ? 2500
+              : isLargePool
+                ? 1000
+                : 1500;
+    const startedAt = Date.now();
+    const deadline = startedAt + (budgetMs ?? 0) * 0.85;
+    // Polishing gets the rest of the budget; seeded searches polish fully so they stay reproducible
+    const polishDeadline = budgetMs !== undefined ? startedAt + budgetMs : undefined;
+    const firstSeed = incumbent?.searchIterations ?? 0;
+
+    // Best schedules so far, lowest score first
+    const kept: GameSchedule[] = [];
+    const signatures = new Map<GameSchedule, string>();
+    const keep = (schedule: GameSchedule) => {
+      const score = schedule.score ?? Number.POSITIVE_INFINITY;
+      const worst = kept[kept.length - 1];
+      if (kept.length >= count && worst && score >= (worst.score ?? Number.POSITIVE_INFINITY)) {
+        return;
+      }
+      const signature = this.scheduleSignature(schedule);
+      if (kept.some(other => signatures.get(other) === signature)) {
+        return;
+      }
+      signatures.set(schedule, signature);
+      kept.push(schedule);
+      kept.sort((a, b) => (a.score ?? 0) - (b.score ?? 0));
+      if (kept.length > count) {
+        kept.pop();
+      }
+    };
+    if (incumbent) {
+      incumbent.score = this.evaluateScore(incumbent);
+      keep(incumbent);
+    }
+    const progress = (iteration: number): GenerationProgress => ({
+      iteration,
+      iterations: budgetMs === undefined ? iterations : undefined,
+      elapsedMs: Date.now() - startedAt,
+      budgetMs,
+      bestScore: kept[0]?.score ?? Number.POSITIVE_INFINITY
+    });
 
     // Try multiple random starting points
-    for (let i = 0; i < iterations; i++) {
-      const schedule = this.buildScheduleGreedy(eventLabel, activePlayers, i);
-      const score = this.evaluateScore(schedule);
-      schedule.score = score;
+    let i = 0;
+    for (; i < iterations; i++) {
+      if (budgetMs !== undefined && i > 0 && Date.now() >= deadline) {
+        break;
+      }
+      const schedule = this.buildScheduleGreedy(eventLabel, activePlayers, firstSeed + i);
+      schedule.score = this.evaluateScore(schedule);
+      keep(schedule);
+
+      // Report progress and yield control every 100 iterations to prevent blocking the UI
+      if (i % 100 === 0) {
+        this.onProgress?.(progress(i));
+        await new Promise(resolve => setTimeout(resolve, 0));
+      }
+    }
+    this.onProgress?.(progress(i));
+
+    // Polish each schedule kept; polishing can bring two of them to the same games
+    const polished: GameSchedule[] = [];
+    const polishedSignatures = new Set<string>();
+    for (const [index, candidate] of kept.entries()) {
+      // Apply local search to improve the schedule
+      this.reseed(-2 - index);
+      let schedule = this.improveWithLocalSearch(this.repairAccessibleCourts(candidate), polishDeadline);
+
+      // Targeted repair for hot opponent pairs (pairs that faced each other 3+ times)
+      schedule = this.repairHotOpponentPairs(schedule, polishDeadline);
+      schedule.scoreBreakdown = this.getScoreBreakdown(schedule);
+      schedule.score = schedule.scoreBreakdown.reduce((sum, component) => sum + component.penalty, 0);
+      schedule.searchIterations = firstSeed + i;
+
+      const signature = this.scheduleSignature(schedule);
+      if (!polishedSignatures.has(signature)) {
+        polishedSignatures.add(signature);
+        polished.push(schedule);
+      }
+    }
+
+    return polished.sort((a, b) => (a.score ?? 0) - (b.score ?? 0));
+  }
+
+  /**
+   * The games of a schedule, round by round, ignoring which court they are on
+   */
+  private scheduleSignature(schedule: GameSchedule): string {
+    const team = (players: readonly string[]) => [...players].sort().join('&');
+    return schedule.rounds
+      .map(round =>
+        round
+          .map(game => [team(game.team1), team(game.team2)].sort().join('v'))
+          .sort()
+          .join(',')
+      )
+      .join('/');
+  }
+
+  /**
+   * Team round robin for fixed partners.
+   * Matchups are taken in circle-method order and none repeats until every pairing of
+   * teams has been played; teams without a matchup in a round get a bye.
+   */
+  private buildFixedTeamSchedule(eventLabel: string, players: Player[]): GameSchedule {
+    const { teams } = buildFixedTeams(players);
+    if (teams.length < 2) {
+      throw new Error('Fixed teams mode needs at least 2 teams of players who are each other’s partner');
+    }
+
+    const playerIds = players.map(p => p.id);
+    const teamOf = new Map<string, number>();
+    teams.forEach((team, index) => {
+      teamOf.set(team[0], index);
+      teamOf.set(team[1], index);
+    });
+    const doublesCourts = this.doublesCourts();
+    if (doublesCourts.length === 0) {
+      throw new Error('Fixed teams mode needs at least one doubles court');
+    }
+
+    const pairOrder = PickleballMatcher.roundRobinOrder(teams.length);
+    const pairCounts: Record<string, number> = {};
+    const courtHistory: Record<string, number[]> = {};
+    for (const pid of playerIds) {
+      courtHistory[pid] = [];
+    }
+
+    const rounds: Game[][] = this.frozenRounds.map(round => [...round]);
+    const restMatrix: string[][] = this.frozenRestingPlayers.map(rests => [...rests]);
+    for (const game of rounds.flat()) {
+      const a = teamOf.get(game.team1[0]);
+      const b = teamOf.get(game.team2[0]);
+      if (a !== undefined && b !== undefined) {
+        const key = PickleballMatcher.teamPairKey(a, b);
+        pairCounts[key] = (pairCounts[key] || 0) + 1;
+      }
+      for (const pid of [...game.team1, ...game.team2]) {
+        courtHistory[pid]?.push(game.court);
+      }
+    }
+
+    for (let roundNum = rounds.length + 1; roundNum <= this.opts.numberOfRounds; roundNum++) {
+      const availableIds = this.availablePlayerIds(playerIds, roundNum);
+      const roundCourts = this.doublesCourts(roundNum);
+      const readyTeams = teams
+        .map((team, index) => ({ team, index }))
+        .filter(({ team }) =>
+          team.every(pid => availableIds.includes(pid) && !this.isUnavailableInRound(pid, roundNum))
+        )
+        .map(({ index }) => index);
+
+      const matchups = this.pickFixedTeamMatchups(readyTeams, pairOrder, pairCounts, roundCourts.length);
+      const assignments = this.assignCourtsGreedy(
+        matchups.map(([a, b]) => ({ team1: teams[a] as Team, team2: teams[b] as Team })),
+        courtHistory,
+        roundCourts.slice(0, matchups.length)
+      ).sort((a, b) => a.court - b.court);
+
+      const games = assignments.map(({ team1, team2, court }) => this.makeGame(roundNum, court, team1, team2));
+      for (const [a, b] of matchups) {
+        const key = PickleballMatcher.teamPairKey(a, b);
+        pairCounts[key] = (pairCounts[key] || 0) + 1;
+      }
+      for (const game of games) {
+        for (const pid of [...game.team1, ...game.team2]) {
+          courtHistory[pid]?.push(game.court);
+        }
+      }
+
+      const playing = new Set(games.flatMap(game => [...game.team1, ...game.team2]));
+      rounds.push(games);
+      restMatrix.push(availableIds.filter(pid => !playing.has(pid)));
+    }
+
+    return {
+      rounds,
+      restingPlayers: restMatrix,
+      eventLabel,
+      options: this.opts,
+      generatedAt: new Date()
+    };
+  }
 
+  /**
+   * Ladder (King/Queen of the Court) schedule: the kept rounds plus one new round.
+   * Round 1 is seeded by skill level with the strongest players on court 1. After that,
+   * winners move up a court and losers move down (court 1 winners and bottom court losers
+   * stay), and each court's four players are re-paired so nobody keeps their partner.
+   */
+  private buildLadderSchedule(eventLabel: string, players: Player[]): GameSchedule {
+    if (this.doublesCourts().length === 0) {
+      throw new Error('Ladder mode needs at least one doubles court');
+    }
+
+    const rounds: Game[][] = this.frozenRounds.map(round => [...round]);
+    const restMatrix: string[][] = this.frozenRestingPlayers.map(rests => [...rests]);
+    const roundNum = rounds.length + 1;
+    const courts = this.roundDoublesCourts(roundNum);
+    const playerIds = players.map(p => p.id);
+    const availableIds = this.availablePlayerIds(playerIds, roundNum);
+
+    // Ladder order, top of the ladder first
+    const lastRound = rounds[rounds.length - 1];
+    const ladder = lastRound
+      ? this.ladderOrder(lastRound, restMatrix[restMatrix.length - 1] ?? [], roundNum - 1)
+      : [...playerIds].sort((a, b) => this.player(b).skillLevel - this.player(a).skillLevel);
+    // Newcomers (late arrivals) join at the bottom
+    for (const pid of availableIds) {
+      if (!ladder.includes(pid)) {
+        ladder.push(pid);
+      }
+    }
+    const present = ladder.filter(pid => availableIds.includes(pid));
+    const { playing, resting } = this.pickRankedSitters(present, restMatrix, roundNum, courts.length);
+
+    const partnerCounts = this.countPartners(rounds);
+    const lastPartner: Record<string, string> = {};
+    for (const game of lastRound ?? []) {
+      for (const [a, b] of this.partnerPairs(game)) {
+        lastPartner[a] = b;
+        lastPartner[b] = a;
+      }
+    }
+
+    const games: Game[] = [];
+    for (let c = 0; c < playing.length / 4; c++) {
+      const court = courts[c] as number;
+      const group = playing.slice(c * 4, c * 4 + 4) as [string, string, string, string];
+      const [team1, team2] = this.splitLadderCourt(group, lastPartner, partnerCounts, roundNum === 1);
+      games.push(this.makeGame(roundNum, court, team1, team2));
+    }
+
+    rounds.push(games);
+    restMatrix.push(resting);
+
+    return {
+      rounds,
+      restingPlayers: restMatrix,
+      eventLabel,
+      options: this.opts,
+      generatedAt: new Date()
+    };
+  }
+
+  /**
+   * Ladder positions after a scored round: each court's winners rank above the losers
+   * coming down from the court above, and players who sat rank just above the bottom
+   * court's losers.
+   */
+  private ladderOrder(round: Game[], resting: string[], roundNum: number): string[] {
+    const results = [...round]
+      .sort((a, b) => a.court - b.court)
+      .map(game => {
+        if (game.team1Score === undefined || game.team2Score === undefined || game.team1Score === game.team2Score) {
+          throw new Error(`Round ${roundNum}: Every game needs a score with a winner before the next ladder round`);
+        }
+        return game.team1Score > game.team2Score
+          ? { winners: [...game.team1], losers: [...game.team2] }
+          : { winners: [...game.team2], losers: [...game.team1] };
+      });
+
+    const order: string[] = [];
+    results.forEach((result, index) => {
+      order.push(...result.winners);
+      if (index === 0) {
+        // Court 1 winners stay up together with court 2 winners
+        return;
+      }
+      order.push(...(results[index - 1]?.losers ?? []));
+    });
+    order.push(...resting);
+    order.push(...(results[results.length - 1]?.losers ?? []));
+    return order;
+  }
+
+  /**
+   * Split a ladder court's four players (in ladder order) into two teams.
+   * Last round's partners are never kept together when avoidable; after that,
+   * fewer repeat partners and closer team skill are preferred.
+   */
+  private splitLadderCourt(
+    group: [string, string, string, string],
+    lastPartner: Record<string, string>,
+    partnerCounts: Record<string, number>,
+    isSeedRound: boolean
+  ): [Team, Team] {
+    const options = PickleballMatcher.courtSplits(group);
+    if (isSeedRound) {
+      return options[0] as [Team, Team];
+    }
+
+    let best = options[0] as [Team, Team];
+    let bestScore = Infinity;
+    for (const option of options) {
+      let score = 0;
+      for (const [a, b] of option as Array<[string, string]>) {
+        if (lastPartner[a] === b) {
+          score += 1000000;
+        }
+        score += (partnerCounts[this.pairKey(a, b)] || 0) * 1000;
+      }
+      score += Math.abs(this.teamSkill(option[0]) - this.teamSkill(option[1]));
       if (score < bestScore) {
         bestScore = score;
-        bestSchedule = schedule;
+        best = option;
       }
+    }
+    return best;
+  }
 
-      // Yield control every 100 iterations to prevent blocking the UI
-      if (i % 100 === 0) {
-        await new Promise(resolve => setTimeout(resolve, 0));
+  /**
+   * Swiss schedule: the kept rounds plus one new round.
+   * Players are ranked by record (wins, with ties as half a win, then point differential,
+   * then skill level) and each court is filled with players of similar records, avoiding
+   * repeat partners and opponents from the rounds already played.
+   */
+  private buildSwissSchedule(eventLabel: string, players: Player[]): GameSchedule {
+    if (this.doublesCourts().length === 0) {
+      throw new Error('Swiss mode needs at least one doubles court');
+    }
+
+    const rounds: Game[][] = this.frozenRounds.map(round => [...round]);
+    const restMatrix: string[][] = this.frozenRestingPlayers.map(rests => [...rests]);
+    const roundNum = rounds.length + 1;
+    const courts = this.roundDoublesCourts(roundNum);
+    const playerIds = players.map(p => p.id);
+    const availableIds = this.availablePlayerIds(playerIds, roundNum);
+
+    const records = this.swissRecords(rounds);
+    const recordOf = (pid: string) => records[pid] ?? { points: 0, pointDifferential: 0 };
+    const ranking = [...availableIds].sort(
+      (a, b) =>
+        recordOf(b).points - recordOf(a).points ||
+        recordOf(b).pointDifferential - recordOf(a).pointDifferential ||
+        this.player(b).skillLevel - this.player(a).skillLevel
+    );
+    const { playing, resting } = this.pickRankedSitters(ranking, restMatrix, roundNum, courts.length);
+
+    const partnerHistory: Record<string, Record<string, number>> = {};
+    const opponentHistory: Record<string, Record<string, number>> = {};
+    for (const pid of playerIds) {
+      partnerHistory[pid] = {};
+      opponentHistory[pid] = {};
+    }
+    for (const round of rounds) {
+      this.recordRoundHistory(round, partnerHistory, opponentHistory, {}, {});
+    }
+
+    // Fill courts from the top of the standings: the highest remaining player plus the
+    // three nearby players that give the fewest repeats and the closest records
+    const remaining = [...playing];
+    const games: Game[] = [];
+    for (let c = 0; remaining.length >= 4; c++) {
+      const anchor = remaining.shift() as string;
+      const nearby = remaining.slice(0, PickleballMatcher.SWISS_WINDOW);
+      let best: { picked: string[]; teams: [Team, Team]; cost: number } | null = null;
+      for (let i = 0; i < nearby.length; i++) {
+        for (let j = i + 1; j < nearby.length; j++) {
+          for (let k = j + 1; k < nearby.length; k++) {
+            const picked = [nearby[i], nearby[j], nearby[k]] as string[];
+            const group = [anchor, ...picked] as [string, string, string, string];
+            const split = this.splitSwissCourt(group, partnerHistory, opponentHistory);
+            const recordGap = picked.reduce(
+              (sum, pid) => sum + Math.abs(recordOf(anchor).points - recordOf(pid).points),
+              0
+            );
+            const cost = split.cost + recordGap * 500 + i + j + k;
+            if (!best || cost < best.cost) {
+              best = { picked, teams: split.teams, cost };
+            }
+          }
+        }
+      }
+      if (!best) {
+        break;
       }
+      for (const pid of best.picked) {
+        remaining.splice(remaining.indexOf(pid), 1);
+      }
+      games.push(this.makeGame(roundNum, courts[c] as number, best.teams[0], best.teams[1]));
     }
 
-    if (!bestSchedule) {
-      throw new Error('Failed to generate schedule');
+    rounds.push(games);
+    restMatrix.push(resting);
+
+    return {
+      rounds,
+      restingPlayers: restMatrix,
+      eventLabel,
+      options: this.opts,
+      generatedAt: new Date()
+    };
+  }
+
+  /** How many players below the top remaining player a Swiss court may draw from */
+  private static readonly SWISS_WINDOW = 7;
+
+  /**
+   * Swiss points (a win is 1, a tie is half) and point differential for every player so far
+   */
+  private swissRecords(rounds: Game[][]): Record<string, { points: number; pointDifferential: number }> {
+    const records: Record<string, { points: number; pointDifferential: number }> = {};
+    for (const game of rounds.flat()) {
+      if (game.team1Score === undefined || game.team2Score === undefined) {
+        throw new Error(`Round ${game.round}: Every game needs a score before the next Swiss round`);
+      }
+      for (const [team, pointsFor, pointsAgainst] of [
+        [game.team1, game.team1Score, game.team2Score],
+        [game.team2, game.team2Score, game.team1Score]
+      ] as const) {
+        const points = pointsFor > pointsAgainst ? 1 : pointsFor === pointsAgainst ? 0.5 : 0;
+        for (const pid of team) {
+          const record = records[pid] ?? { points: 0, pointDifferential: 0 };
+          record.points += points;
+          record.pointDifferential += pointsFor - pointsAgainst;
+          records[pid] = record;
+        }
+      }
+    }
+    return records;
+  }
+
+  /**
+   * Split a Swiss court's four players into the two teams with the fewest repeat
+   * partners, then repeat opponents, then the closest team skill
+   */
+  private splitSwissCourt(
+    group: [string, string, string, string],
+    partnerHistory: Record<string, Record<string, number>>,
+    opponentHistory: Record<string, Record<string, number>>
+  ): { teams: [Team, Team]; cost: number } {
+    let best = { teams: PickleballMatcher.courtSplits(group)[0] as [Team, Team], cost: Infinity };
+    for (const teams of PickleballMatcher.courtSplits(group)) {
+      let cost = Math.abs(this.teamSkill(teams[0]) - this.teamSkill(teams[1])) * 10;
+      for (const [a, b] of teams as Array<[string, string]>) {
+        cost += (partnerHistory[a]?.[b] || 0) * 10000;
+      }
+      for (const a of teams[0]) {
+        for (const b of teams[1]) {
+          cost += (opponentHistory[a]?.[b] || 0) * 1000;
+        }
+      }
+      if (cost < best.cost) {
+        best = { teams, cost };
+      }
+    }
+    return best;
+  }
+
+  /**
+   * The three ways to split four players into two teams, top and bottom together first
+   */
+  private static courtSplits([p0, p1, p2, p3]: [string, string, string, string]): Array<[Team, Team]> {
+    return [
+      [
+        [p0, p3],
+        [p1, p2]
+      ],
+      [
+        [p0, p2],
+        [p1, p3]
+      ],
+      [
+        [p0, p1],
+        [p2, p3]
+      ]
+    ];
+  }
+
+  /**
+   * Choose who sits in a round played down a ranking (ladder or Swiss standings, best first).
+   * Forced sits come first, then round 1's requested sitters, then whoever has rested
+   * least, lowest ranked first. Returns the players on court in ranking order.
+   */
+  private pickRankedSitters(
+    ranking: string[],
+    restMatrix: string[][],
+    roundNum: number,
+    courtLimit: number
+  ): { playing: string[]; resting: string[] } {
+    const forced = ranking.filter(pid => this.isUnavailableInRound(pid, roundNum));
+    const courtCount = Math.min(courtLimit, Math.floor((ranking.length - forced.length) / 4));
+    if (courtCount === 0) {
+      throw new Error(`Round ${roundNum}: Not enough players are available to fill a court`);
+    }
+    const restCounts: Record<string, number> = {};
+    for (const pid of restMatrix.flat()) {
+      restCounts[pid] = (restCounts[pid] || 0) + 1;
+    }
+    const optionalSitters =
+      roundNum === 1 && this.opts.firstRoundSitters?.length
+        ? this.opts.firstRoundSitters.filter(pid => ranking.includes(pid) && !forced.includes(pid))
+        : [];
+    const candidates = ranking
+      .filter(pid => !forced.includes(pid) && !optionalSitters.includes(pid))
+      .map((pid, rank) => ({ pid, rank }))
+      .sort((a, b) => (restCounts[a.pid] || 0) - (restCounts[b.pid] || 0) || b.rank - a.rank);
+    const sitterCount = ranking.length - forced.length - courtCount * 4;
+    const sitters = new Set([
+      ...forced,
+      ...optionalSitters.slice(0, sitterCount),
+      ...candidates.slice(0, Math.max(0, sitterCount - optionalSitters.length)).map(c => c.pid)
+    ]);
+
+    return {
+      playing: ranking.filter(pid => !sitters.has(pid)),
+      resting: ranking.filter(pid => sitters.has(pid))
+    };
+  }
+
+  private countPartners(rounds: Game[][]): Record<string, number> {
+    const counts: Record<string, number> = {};
+    for (const game of rounds.flat()) {
+      for (const [a, b] of this.partnerPairs(game)) {
+        this.bump(counts, a, b);
+      }
+    }
+    return counts;
+  }
+
+  /**
+   * Doubles courts in court order, only those available in `roundNum` when it is given
+   */
+  private doublesCourts(roundNum?: number): number[] {
+    return Array.from({ length: this.opts.numberOfCourts }, (_, index) => index + 1).filter(
+      court =>
+        getCourtFormat(this.opts, court) === 'doubles' &&
+        (roundNum === undefined || isCourtAvailable(this.opts, court, roundNum))
+    );
+  }
+
+  /**
+   * Doubles courts available in a round, for modes that build one round at a time
+   */
+  private roundDoublesCourts(roundNum: number): number[] {
+    const courts = this.doublesCourts(roundNum);
+    if (courts.length === 0) {
+      throw new Error(`Round ${roundNum}: No doubles courts are available`);
+    }
+    return courts;
+  }
+
+  /**
+   * Pick one round of team matchups, least-played pairings first.
+   * A pairing is only repeated once every pairing at the current count has been used,
+   * even if that leaves a court empty for the round.
+   */
+  private pickFixedTeamMatchups(
+    readyTeams: number[],
+    pairOrder: Map<string, number>,
+    pairCounts: Record<string, number>,
+    courtCount: number
+  ): Array<[number, number]> {
+    const candidates: Array<{ a: number; b: number; count: number; order: number }> = [];
+    for (let i = 0; i < readyTeams.length; i++) {
+      for (let j = i + 1; j < readyTeams.length; j++) {
+        const a = Math.min(readyTeams[i] as number, readyTeams[j] as number);
+        const b = Math.max(readyTeams[i] as number, readyTeams[j] as number);
+        const key = PickleballMatcher.teamPairKey(a, b);
+        candidates.push({ a, b, count: pairCounts[key] || 0, order: pairOrder.get(key) ?? 0 });
+      }
     }
+    candidates.sort((x, y) => x.count - y.count || x.order - y.order);
 
-    // Apply local search to improve the best schedule found
-    bestSchedule = this.improveWithLocalSearch(bestSchedule);
+    const matchups: Array<[number, number]> = [];
+    const used = new Set<number>();
+    const picked = new Set<(typeof candidates)[number]>();
+    let level = candidates[0]?.count ?? 0;
 
-    // Targeted repair for hot opponent pairs (pairs that faced each other 3+ times)
-    bestSchedule = this.repairHotOpponentPairs(bestSchedule);
+    for (const candidate of candidates) {
+      if (matchups.length >= courtCount) {
+        break;
+      }
+      if (candidate.count > level) {
+        // Move on to repeat pairings only once this level is used up
+        if (candidates.some(c => c.count === level && !picked.has(c))) {
+          break;
+        }
+        level = candidate.count;
+      }
+      if (used.has(candidate.a) || used.has(candidate.b)) {
+        continue;
+      }
+      matchups.push([candidate.a, candidate.b]);
+      picked.add(candidate);
+      used.add(candidate.a);
+      used.add(candidate.b);
+    }
+
+    return matchups;
+  }
 
-    return bestSchedule;
+  private static teamPairKey(a: number, b: number): string {
+    return a < b ? `${a}|${b}` : `${b}|${a}`;
+  }
+
+  /**
+   * Circle-method round robin: position of every team pairing, keyed by teamPairKey
+   */
+  private static roundRobinOrder(teamCount: number): Map<string, number> {
+    const order = new Map<string, number>();
+    // Pad to an even count; -1 is the bye
+    const slots = Array.from({ length: teamCount + (teamCount % 2) }, (_, index) => (index < teamCount ? index : -1));
+    let position = 0;
+    for (let round = 0; round < slots.length - 1; round++) {
+      for (let i = 0; i < slots.length / 2; i++) {
+        const a = slots[i] as number;
+        const b = slots[slots.length - 1 - i] as number;
+        if (a >= 0 && b >= 0) {
+          order.set(PickleballMatcher.teamPairKey(a, b), position++);
+        }
+      }
+      // Keep the first slot fixed and rotate the rest
+      const last = slots.pop() as number;
+      slots.splice(1, 0, last);
+    }
+    return order;
   }
 
   /**
@@ -77,8 +1011,8 @@ export class PickleballMatcher {
    * opponent history can inform smarter sitting decisions.
    */
   private buildScheduleGreedy(eventLabel: string, players: Player[], seed: number): GameSchedule {
+    this.reseed(seed);
     const playerIds = players.map(p => p.id);
-    const sittersPerRound = playerIds.length - this.opts.numberOfCourts * 4;
 
     // Build games and rest assignments round-by-round (dynamic rest scheduling)
     const rounds: Game[][] = [];
@@ -102,24 +1036,58 @@ export class PickleballMatcher {
       lastRestRound[pid] = -100;
     }
 
-    const totalRestSlots = this.opts.numberOfRounds * Math.max(0, sittersPerRound);
-    const avgRestsPerPlayer = playerIds.length > 0 ? totalRestSlots / playerIds.length : 0;
+    // Rounds a player is away count as rests, so late arrivals aren't asked to sit more often
+    for (const pid of playerIds) {
+      restCounts[pid] = this.absentRoundCount(pid);
+    }
 
+    // Replay rounds that have already been played
+    for (let roundNum = 0; roundNum < this.frozenRounds.length; roundNum++) {
+      const games = this.frozenRounds[roundNum] ?? [];
+      const roundSitters = this.frozenRestingPlayers[roundNum] ?? [];
+      rounds.push(games);
+      restMatrix.push(roundSitters);
+      for (const pid of roundSitters) {
+        restCounts[pid] = (restCounts[pid] || 0) + 1;
+        lastRestRound[pid] = roundNum;
+      }
+      this.recordRoundHistory(games, partnerHistory, opponentHistory, recentOpponentHistory, courtHistory);
+    }
+
+    let totalRestSlots = 0;
     for (let roundNum = 0; roundNum < this.opts.numberOfRounds; roundNum++) {
+      const availableIds = this.availablePlayerIds(playerIds, roundNum + 1);
+      totalRestSlots +=
+        availableIds.length - countCourtPlayers(this.opts, this.courtsForRound(availableIds, roundNum + 1));
+    }
+    for (const pid of playerIds) {
+      totalRestSlots += this.absentRoundCount(pid);
+    }
+    const avgRestsPerPlayer = playerIds.length > 0 ? totalRestSlots / playerIds.length : 0;
+
+    for (let roundNum = this.frozenRounds.length; roundNum < this.opts.numberOfRounds; roundNum++) {
+      const availableIds = this.availablePlayerIds(playerIds, roundNum + 1);
+      const courtsThisRound = this.courtsForRound(availableIds, roundNum + 1);
+      const sittersPerRound = availableIds.length - countCourtPlayers(this.opts, courtsThisRound);
+
       // Select sitters for this round using accumulated opponent history
       let roundSitters: string[];
 
       if (sittersPerRound <= 0) {
         roundSitters = [];
       } else if (roundNum === 0 && this.opts.firstRoundSitters && this.opts.firstRoundSitters.length > 0) {
-        const specifiedSitters = [...this.opts.firstRoundSitters];
+        // Unavailable players take priority over the requested first round sitters
+        const forcedCount = availableIds.filter(pid => this.isUnavailableInRound(pid, 1)).length;
+        const specifiedSitters = this.opts.firstRoundSitters
+          .filter(pid => availableIds.includes(pid) && !this.isUnavailableInRound(pid, 1))
+          .slice(0, Math.max(0, sittersPerRound - forcedCount));
         for (const pid of specifiedSitters) {
           restCounts[pid] = (restCounts[pid] || 0) + 1;
           lastRestRound[pid] = roundNum;
         }
         if (specifiedSitters.length < sittersPerRound) {
           const remaining = sittersPerRound - specifiedSitters.length;
-          const available = playerIds.filter(pid => !specifiedSitters.includes(pid));
+          const available = availableIds.filter(pid => !specifiedSitters.includes(pid));
           const extra = this.selectSittersForRound(
             available,
             remaining,
@@ -135,7 +1103,7 @@ export class PickleballMatcher {
         }
       } else {
         roundSitters = this.selectSittersForRound(
-          playerIds,
+          availableIds,
           sittersPerRound,
           roundNum,
           restCounts,
@@ -147,7 +1115,7 @@ export class PickleballMatcher {
 
       restMatrix.push(roundSitters);
       const restingPlayers = new Set(roundSitters);
-      const playingPlayers = playerIds.filter(id => !restingPlayers.has(id));
+      const playingPlayers = availableIds.filter(id => !restingPlayers.has(id));
 
       const games = this.buildRoundGames(
         roundNum + 1,
@@ -156,82 +1124,155 @@ export class PickleballMatcher {
         opponentHistory,
         recentOpponentHistory,
         courtHistory,
-        seed
+        seed,
+        courtsThisRound,
+        sittersPerRound
       );
 
       rounds.push(games);
+      this.recordRoundHistory(games, partnerHistory, opponentHistory, recentOpponentHistory, courtHistory);
+    }
 
-      // Update history
-      for (const game of games) {
-        const [a1, a2] = game.team1;
-        const [b1, b2] = game.team2;
-
-        if (!partnerHistory[a1] || !partnerHistory[a2] || !partnerHistory[b1] || !partnerHistory[b2]) {
-          console.warn('Invalid player IDs in game:', game);
-          continue; // Skip invalid games
-        }
+    return {
+      rounds,
+      restingPlayers: restMatrix,
+      eventLabel,
+      options: this.opts,
+      generatedAt: new Date()
+    };
+  }
 
-        // Partners - track counts
-        partnerHistory[a1][a2] = (partnerHistory[a1][a2] || 0) + 1;
-        partnerHistory[a2][a1] = (partnerHistory[a2][a1] || 0) + 1;
-        partnerHistory[b1][b2] = (partnerHistory[b1][b2] || 0) + 1;
-        partnerHistory[b2][b1] = (partnerHistory[b2][b1] || 0) + 1;
+  /**
+   * Add a round's games to the partner, opponent, recent-opponent and court histories
+   */
+  private recordRoundHistory(
+    games: Game[],
+    partnerHistory: Record<string, Record<string, number>>,
+    opponentHistory: Record<string, Record<string, number>>,
+    recentOpponentHistory: Record<string, string[][]>,
+    courtHistory: Record<string, number[]>
+  ): void {
+    for (const game of games) {
+      const gamePlayers = [...game.team1, ...game.team2];
+      if (gamePlayers.some(pid => !partnerHistory[pid])) {
+        console.warn('Invalid player IDs in game:', game);
+        continue; // Skip invalid games
+      }
 
-        // Opponents (overall count)
-        for (const p1 of [a1, a2]) {
-          for (const p2 of [b1, b2]) {
-            if (!opponentHistory[p1]) {
-              opponentHistory[p1] = {};
-            }
-            if (!opponentHistory[p2]) {
-              opponentHistory[p2] = {};
-            }
-            opponentHistory[p1][p2] = (opponentHistory[p1][p2] || 0) + 1;
-            opponentHistory[p2][p1] = (opponentHistory[p2][p1] || 0) + 1;
-          }
+      // Partners - track counts
+      for (const [a, b] of this.partnerPairs(game)) {
+        const aPartners = partnerHistory[a];
+        const bPartners = partnerHistory[b];
+        if (aPartners && bPartners) {
+          aPartners[b] = (aPartners[b] || 0) + 1;
+          bPartners[a] = (bPartners[a] || 0) + 1;
         }
+      }
 
-        // Recent opponents (for consecutive round tracking)
-        for (const p1 of [a1, a2]) {
-          const opponents = [b1, b2];
-          if (!recentOpponentHistory[p1]) {
-            recentOpponentHistory[p1] = [];
+      // Opponents (overall count)
+      for (const p1 of game.team1) {
+        for (const p2 of game.team2) {
+          if (!opponentHistory[p1]) {
+            opponentHistory[p1] = {};
           }
-          recentOpponentHistory[p1].push(opponents);
-          // Keep only last 2 rounds
-          if (recentOpponentHistory[p1].length > 2) {
-            recentOpponentHistory[p1].shift();
+          if (!opponentHistory[p2]) {
+            opponentHistory[p2] = {};
           }
+          opponentHistory[p1][p2] = (opponentHistory[p1][p2] || 0) + 1;
+          opponentHistory[p2][p1] = (opponentHistory[p2][p1] || 0) + 1;
         }
-        for (const p2 of [b1, b2]) {
-          const opponents = [a1, a2];
-          if (!recentOpponentHistory[p2]) {
-            recentOpponentHistory[p2] = [];
+      }
+
+      // Recent opponents (for consecutive round tracking)
+      for (const [team, opponents] of [
+        [game.team1, game.team2],
+        [game.team2, game.team1]
+      ]) {
+        for (const pid of team ?? []) {
+          if (!recentOpponentHistory[pid]) {
+            recentOpponentHistory[pid] = [];
           }
-          recentOpponentHistory[p2].push(opponents);
+          recentOpponentHistory[pid].push([...(opponents ?? [])]);
           // Keep only last 2 rounds
-          if (recentOpponentHistory[p2].length > 2) {
-            recentOpponentHistory[p2].shift();
+          if (recentOpponentHistory[pid].length > 2) {
+            recentOpponentHistory[pid].shift();
           }
         }
+      }
 
-        // Courts
-        for (const pid of [a1, a2, b1, b2]) {
-          if (!courtHistory[pid]) {
-            courtHistory[pid] = [];
-          }
-          courtHistory[pid].push(game.court);
+      // Courts
+      for (const pid of gamePlayers) {
+        if (!courtHistory[pid]) {
+          courtHistory[pid] = [];
         }
+        courtHistory[pid].push(game.court);
       }
     }
+  }
 
-    return {
-      rounds,
-      restingPlayers: restMatrix,
-      eventLabel,
-      options: this.opts,
-      generatedAt: new Date()
-    };
+  /**
+   * Players present for a round (1-based), according to their attendance window
+   */
+  private availablePlayerIds(playerIds: string[], roundNum: number): string[] {
+    return playerIds.filter(pid => {
+      const window = this.attendance[pid];
+      return (window?.arrivesRound ?? 1) <= roundNum && roundNum <= (window?.leavesAfterRound ?? Infinity);
+    });
+  }
+
+  /**
+   * Number of rounds a player is away for, before arriving or after leaving
+   */
+  private absentRoundCount(pid: string): number {
+    const window = this.attendance[pid];
+    if (!window) {
+      return 0;
+    }
+    const first = Math.max(1, window.arrivesRound ?? 1);
+    const last = Math.min(this.opts.numberOfRounds, window.leavesAfterRound ?? this.opts.numberOfRounds);
+    return this.opts.numberOfRounds - Math.max(0, last - first + 1);
+  }
+
+  /**
+   * Whether a player must sit out a round (1-based) according to `unavailableRounds`
+   */
+  private isUnavailableInRound(pid: string, roundNum: number): boolean {
+    return this.opts.unavailableRounds?.[pid]?.includes(roundNum) ?? false;
+  }
+
+  /**
+   * Courts in use for a round, fewer than configured when too few players can play
+   */
+  private courtsForRound(availableIds: string[], roundNum: number): number[] {
+    const playable = availableIds.filter(pid => !this.isUnavailableInRound(pid, roundNum)).length;
+    return fitCourts(this.opts, playable, roundNum);
+  }
+
+  private hasSinglesCourts(): boolean {
+    for (let court = 1; court <= this.opts.numberOfCourts; court++) {
+      if (getCourtFormat(this.opts, court) === 'singles') {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Throw when a round from `fromRound` onwards would not have enough players for one court
+   */
+  private assertEnoughPlayers(playerIds: string[], fromRound: number): void {
+    for (let roundNum = fromRound; roundNum <= this.opts.numberOfRounds; roundNum++) {
+      if (this.courtsForRound(this.availablePlayerIds(playerIds, roundNum), roundNum).length === 0) {
+        if (
+          !Array.from({ length: this.opts.numberOfCourts }, (_, index) => index + 1).some(court =>
+            isCourtAvailable(this.opts, court, roundNum)
+          )
+        ) {
+          throw new Error(`Round ${roundNum}: No courts are available`);
+        }
+        throw new Error(`Round ${roundNum}: Not enough players are available to fill a court`);
+      }
+    }
   }
 
   /**
@@ -268,6 +1309,29 @@ export class PickleballMatcher {
       return score;
     };
 
+    // Players unavailable this round always sit; the remaining slots are filled as usual
+    const forced = playerIds.filter(pid => this.isUnavailableInRound(pid, currentRound + 1));
+    if (forced.length > 0) {
+      for (const pid of forced) {
+        restCounts[pid] = (restCounts[pid] || 0) + 1;
+        lastRestRound[pid] = currentRound;
+      }
+      const remaining = sittersPerRound - forced.length;
+      const extra =
+        remaining > 0
+          ? this.selectSittersForRound(
+              playerIds.filter(pid => !forced.includes(pid)),
+              remaining,
+              currentRound,
+              restCounts,
+              lastRestRound,
+              avgRestsPerPlayer,
+              opponentHistory
+            )
+          : [];
+      return [...forced, ...extra];
+    }
+
     // Pair-optimized selection when sittersPerRound === 2:
     // Try all C(n,2) candidate pairs and add a large bonus for co-sitting
     // players who have already faced each other 2+ times as opponents.
@@ -282,7 +1346,7 @@ export class PickleballMatcher {
           if (pid1 === undefined || pid2 === undefined) {
             continue;
           }
-          let pairScore = computeScore(pid1) + computeScore(pid2) + Math.random() * 0.1;
+          let pairScore = computeScore(pid1) + computeScore(pid2) + this.random() * 0.1;
 
           // Hot-pair bonus: slightly prefer co-sitting players who face each other often.
           // Kept small (1000) so rest equity (1000 per deficit unit) remains the primary driver.
@@ -315,7 +1379,7 @@ export class PickleballMatcher {
     // General case: score each player individually, pick top N
     const scores: Array<{ id: string; score: number }> = playerIds.map(pid => ({
       id: pid,
-      score: computeScore(pid) + Math.random() * 0.1
+      score: computeScore(pid) + this.random() * 0.1
     }));
 
     scores.sort((a, b) => b.score - a.score);
@@ -443,6 +1507,9 @@ export class PickleballMatcher {
     }
     score -= lr * 900 * opponentPriority;
     score -= ta * 300 * opponentPriority;
+    if (this.hasPriorHistory) {
+      score -= this.priorOpponentCount([t1a, t1b], [t2a, t2b]) * 400 * opponentPriority;
+    }
 
     return score;
   }
@@ -512,6 +1579,10 @@ export class PickleballMatcher {
       for (let pi = 0; pi < 4; pi++) {
         const pa = pi === 0 ? p0 : pi === 1 ? p2 : pi === 2 ? p4 : p6;
         const pb = pi === 0 ? p1 : pi === 1 ? p3 : pi === 2 ? p5 : p7;
+        if (!this.canPartner(pa, pb)) {
+          partnerScore = -Infinity;
+          break;
+        }
         const playCount = partnerHistory[pa]?.[pb] || 0;
         if (playCount === 0) {
           partnerScore += 100000;
@@ -522,6 +1593,13 @@ export class PickleballMatcher {
         } else {
           partnerScore -= 50000 * 3 ** playCount;
         }
+        partnerScore -= Math.min(this.priorPartnerCount(pa, pb), 2) * 20000;
+        if (this.isSameGenderTeam(pa, pb)) {
+          partnerScore -= 1000000;
+        }
+      }
+      if (partnerScore === -Infinity) {
+        continue;
       }
 
       // 3 matchup options: t0 vs t1 + t2 vs t3 | t0 vs t2 + t1 vs t3 | t0 vs t3 + t1 vs t2
@@ -532,9 +1610,11 @@ export class PickleballMatcher {
       const s03 = this.scoreOpponentPairFast(p0, p1, p6, p7, opponentHistory, recentOpponentHistory, opPri);
       const s12 = this.scoreOpponentPairFast(p2, p3, p4, p5, opponentHistory, recentOpponentHistory, opPri);
 
-      const sc1 = s01 + s23,
-        sc2 = s02 + s13,
-        sc3 = s03 + s12;
+      // Matchups that put never-opponent pairs on opposite sides are ruled out
+      const allowed = (t1a: string, t1b: string, t2a: string, t2b: string) => this.canOppose([t1a, t1b], [t2a, t2b]);
+      const sc1 = allowed(p0, p1, p2, p3) && allowed(p4, p5, p6, p7) ? s01 + s23 : -Infinity,
+        sc2 = allowed(p0, p1, p4, p5) && allowed(p2, p3, p6, p7) ? s02 + s13 : -Infinity,
+        sc3 = allowed(p0, p1, p6, p7) && allowed(p2, p3, p4, p5) ? s03 + s12 : -Infinity;
 
       let bestOppScore: number;
       let matchIdx: 0 | 1 | 2;
@@ -586,45 +1666,72 @@ export class PickleballMatcher {
     opponentHistory: Record<string, Record<string, number>>,
     recentOpponentHistory: Record<string, string[][]>,
     courtHistory: Record<string, number[]>,
-    seed: number
+    seed: number,
+    courts: number[],
+    sittersPerRound: number
   ): Game[] {
     const games: Game[] = [];
 
     // Validate we have the right number of players
-    const expectedPlayers = this.opts.numberOfCourts * 4;
+    const expectedPlayers = countCourtPlayers(this.opts, courts);
     if (playingPlayers.length !== expectedPlayers) {
       throw new Error(`Round ${roundNum}: Expected ${expectedPlayers} players but got ${playingPlayers.length}`);
     }
 
+    const singlesCourts = courts.filter(court => getCourtFormat(this.opts, court) === 'singles');
+    const doublesCourts = courts.filter(court => getCourtFormat(this.opts, court) === 'doubles');
+
+    // Singles players are picked first; everyone else plays doubles
+    const singlesMatchings = this.pickSinglesMatchups(
+      playingPlayers,
+      singlesCourts.length,
+      courtHistory,
+      opponentHistory,
+      seed + roundNum
+    );
+    if (singlesMatchings.length !== singlesCourts.length) {
+      throw this.avoidRulesError(roundNum);
+    }
+    const singlesPlayers = new Set(singlesMatchings.flatMap(m => [...m.team1, ...m.team2]));
+    const doublesPlayers = playingPlayers.filter(pid => !singlesPlayers.has(pid));
+
     let matchings: Array<{ team1: [string, string]; team2: [string, string] }>;
 
     // For tight 2-court pools (only 2 sitters per round), exhaustively search all 105 partner
     // pairings × 3 matchup options = 315 total round arrangements. This finds the globally
     // optimal arrangement without the greedy's tunnel-vision bias.
     // Only applies when sittersPerRound ≤ 2 (dense schedule); larger pools use greedy.
-    const activeTotalPlayers = this.players.filter(p => p.active !== false).length;
-    const sittersPerRound = activeTotalPlayers - this.opts.numberOfCourts * 4;
-    if (sittersPerRound <= 2 && playingPlayers.length === 8 && this.opts.numberOfCourts === 2) {
+    if (sittersPerRound <= 2 && playingPlayers.length === 8 && doublesCourts.length === 2) {
       matchings =
         this.buildRoundMatchingsExhaustive(
-          playingPlayers,
+          doublesPlayers,
           partnerHistory,
           opponentHistory,
           recentOpponentHistory,
           seed
         ) ??
         this.matchPairsGreedy(
-          this.createPairsGreedy(playingPlayers, partnerHistory, opponentHistory, seed),
+          this.createPairsGreedy(doublesPlayers, partnerHistory, opponentHistory, seed),
           opponentHistory,
           recentOpponentHistory
         );
     } else {
-      const pairs = this.createPairsGreedy(playingPlayers, partnerHistory, opponentHistory, seed);
+      const pairs = this.createPairsGreedy(doublesPlayers, partnerHistory, opponentHistory, seed);
       matchings = this.matchPairsGreedy(pairs, opponentHistory, recentOpponentHistory);
     }
 
+    // The greedy pairing can run into a dead end with never-partner and never-opponent pairs;
+    // when it does, look for any arrangement of the round that keeps them apart
+    if (matchings.some(m => this.breaksAvoidRules(m.team1, m.team2))) {
+      const allowedMatchings = this.findAllowedMatchings(doublesPlayers, opponentHistory, recentOpponentHistory);
+      if (!allowedMatchings) {
+        throw this.avoidRulesError(roundNum);
+      }
+      matchings = allowedMatchings;
+    }
+
     // Validate we have the right number of matchings
-    const expectedMatchings = this.opts.numberOfCourts;
+    const expectedMatchings = doublesCourts.length;
     if (matchings.length !== expectedMatchings) {
       console.error(
         `Round ${roundNum}: Expected ${expectedMatchings} matchings but got ${matchings.length}. Players: ${playingPlayers.length}`
@@ -634,7 +1741,10 @@ export class PickleballMatcher {
     }
 
     // Assign to courts
-    const courtAssignments = this.assignCourtsGreedy(matchings, courtHistory, roundNum);
+    const courtAssignments = [
+      ...this.assignCourtsGreedy(matchings, courtHistory, doublesCourts),
+      ...this.assignCourtsGreedy(singlesMatchings, courtHistory, singlesCourts)
+    ].sort((a, b) => a.court - b.court);
 
     // Create game objects
     for (let i = 0; i < courtAssignments.length; i++) {
@@ -645,27 +1755,72 @@ export class PickleballMatcher {
       const { team1, team2, court } = assignment;
 
       // Validate teams have players
-      if (!team1[0] || !team1[1] || !team2[0] || !team2[1]) {
+      if ([...team1, ...team2].some(pid => !pid)) {
         console.error(`Round ${roundNum}, Court ${court}: Invalid team composition`, { team1, team2 });
         throw new Error(`Invalid team composition in round ${roundNum}`);
       }
 
-      const skillLevel1 = this.player(team1[0]).skillLevel + this.player(team1[1]).skillLevel;
-      const skillLevel2 = this.player(team2[0]).skillLevel + this.player(team2[1]).skillLevel;
+      games.push(this.makeGame(roundNum, court, team1, team2));
+    }
 
-      games.push({
-        id: `g-${roundNum}-${court}`,
-        round: roundNum,
-        court,
-        team1,
-        team2,
-        team1SkillLevel: skillLevel1,
-        team2SkillLevel: skillLevel2,
-        skillDifference: Math.abs(skillLevel1 - skillLevel2)
+    return games;
+  }
+
+  /**
+   * Pick the singles matchups for a round.
+   * Players who have played the fewest singles games go first, and opponents
+   * they have already faced are avoided.
+   */
+  private pickSinglesMatchups(
+    players: string[],
+    courtCount: number,
+    courtHistory: Record<string, number[]>,
+    opponentHistory: Record<string, Record<string, number>>,
+    seed: number
+  ): Array<{ team1: [string]; team2: [string] }> {
+    const matchups: Array<{ team1: [string]; team2: [string] }> = [];
+    if (courtCount === 0) {
+      return matchups;
+    }
+
+    const singlesCount = (pid: string) =>
+      (courtHistory[pid] ?? []).filter(court => getCourtFormat(this.opts, court) === 'singles').length;
+
+    // Stable sort keeps the shuffled order among players with equal singles counts
+    const available = this.shuffleWithSeed([...players], seed).sort((a, b) => singlesCount(a) - singlesCount(b));
+
+    for (let court = 0; court < courtCount; court++) {
+      // Players with nobody left they are allowed to face are left for the doubles courts
+      const firstIndex = available.findIndex(p1 => available.some(p2 => p2 !== p1 && this.canOppose([p1], [p2])));
+      const [p1] = firstIndex >= 0 ? available.splice(firstIndex, 1) : [];
+      if (!p1) {
+        break;
+      }
+
+      let bestIndex = 0;
+      let bestScore = Infinity;
+      available.forEach((p2, index) => {
+        if (!this.canOppose([p1], [p2])) {
+          return;
+        }
+        let score = singlesCount(p2) * 10 + (opponentHistory[p1]?.[p2] ?? 0) * 25;
+        if (this.opts.balanceSkillLevels) {
+          score += Math.abs(this.player(p1).skillLevel - this.player(p2).skillLevel) * 5;
+        }
+        if (score < bestScore) {
+          bestScore = score;
+          bestIndex = index;
+        }
       });
+
+      const [p2] = available.splice(bestIndex, 1);
+      if (!p2) {
+        break;
+      }
+      matchups.push({ team1: [p1], team2: [p2] });
     }
 
-    return games;
+    return matchups;
   }
 
   /**
@@ -696,7 +1851,12 @@ export class PickleballMatcher {
         }
 
         const player1 = this.player(p1);
-        if (player1.partnerId && available.includes(player1.partnerId) && !paired.has(player1.partnerId)) {
+        if (
+          player1.partnerId &&
+          available.includes(player1.partnerId) &&
+          !paired.has(player1.partnerId) &&
+          this.canPartner(p1, player1.partnerId)
+        ) {
           // Both partners are available - pair them!
           pairs.push([p1, player1.partnerId]);
           paired.add(p1);
@@ -722,6 +1882,19 @@ export class PickleballMatcher {
       return aPartners - bPartners;
     });
 
+    // Mixed doubles: the less common gender picks partners first so each of them can take
+    // someone of the other gender; players without a gender go last to absorb any surplus.
+    if (this.opts.mixedDoubles) {
+      const men = available.filter(pid => this.player(pid).gender === 'male').length;
+      const women = available.filter(pid => this.player(pid).gender === 'female').length;
+      const minority = men <= women ? 'male' : 'female';
+      const pickOrder = (pid: string) => {
+        const gender = this.player(pid).gender;
+        return gender === minority ? 0 : gender ? 1 : 2;
+      };
+      available.sort((a, b) => pickOrder(a) - pickOrder(b));
+    }
+
     // Use seed-based randomization for controlled exploration
     const randomFactor = ((seed * 9301 + 49297) % 233280) / 233280.0; // Simple PRNG
 
@@ -737,8 +1910,8 @@ export class PickleballMatcher {
 
       for (let i = 0; i < available.length; i++) {
         const p2 = available[i];
-        if (!p2) {
-          continue; // Skip if somehow undefined
+        if (!p2 || !this.canPartner(p1, p2)) {
+          continue; // Never-partner pairs are not considered at all
         }
         let score = 0;
 
@@ -751,6 +1924,18 @@ export class PickleballMatcher {
           score -= 50000 * 3 ** playCount; // Much stronger exponential penalty
         }
 
+        // Avoid partners from recent sessions. Kept below the new-partner bonus so a
+        // repeat from an earlier session is still preferred over a repeat within this one.
+        score -= Math.min(this.priorPartnerCount(p1, p2), 2) * 20000;
+
+        // Mixed doubles outranks partner variety; a same-gender team is only used when nobody else is left
+        if (this.isSameGenderTeam(p1, p2)) {
+          score -= 1000000;
+        } else if (this.opts.mixedDoubles && this.player(p1).gender && !this.player(p2).gender) {
+          // Save players without a gender for the surplus gender
+          score -= 1000;
+        }
+
         // Secondary priority: Among new partners, prefer to pair frequent opponents together.
         // Making them partners this round prevents another opponent encounter.
         if (playCount === 0) {
@@ -843,6 +2028,9 @@ export class PickleballMatcher {
     recentOpponentHistory: Record<string, string[][]>,
     enforceSkillLimit: boolean
   ): Array<{ team1: [string, string]; team2: [string, string] }> | null {
+    if (teams.length > EXACT_MATCHUP_MAX_TEAMS) {
+      return this.findGoodPairingsForRound(teams, opponentHistory, recentOpponentHistory, enforceSkillLimit);
+    }
     const memo = new Map<
       string,
       { score: number; matchings: Array<{ team1: [string, string]; team2: [string, string] }> } | null
@@ -911,8 +2099,98 @@ export class PickleballMatcher {
       return best;
     };
 
-    const bestMatchings = solve(teams);
-    return bestMatchings ? bestMatchings.matchings : null;
+    const bestMatchings = solve(teams);
+    return bestMatchings ? bestMatchings.matchings : null;
+  }
+
+  /**
+   * Match teams for a round too big to search exhaustively: take the best remaining matchup
+   * each time, then swap opponents between two games while that raises the total score.
+   * @returns Matchings, or null when some team is left without an allowed opponent
+   */
+  private findGoodPairingsForRound(
+    teams: string[][],
+    opponentHistory: Record<string, Record<string, number>>,
+    recentOpponentHistory: Record<string, string[][]>,
+    enforceSkillLimit: boolean
+  ): Array<{ team1: [string, string]; team2: [string, string] }> | null {
+    const scoreCache = new Map<string, number | null>();
+    const score = (a: number, b: number): number | null => {
+      const key = a < b ? `${a}|${b}` : `${b}|${a}`;
+      if (!scoreCache.has(key)) {
+        scoreCache.set(
+          key,
+          this.scoreTeamMatchup(
+            teams[a] ?? [],
+            teams[b] ?? [],
+            opponentHistory,
+            recentOpponentHistory,
+            enforceSkillLimit
+          )
+        );
+      }
+      return scoreCache.get(key) ?? null;
+    };
+
+    // Greedy: the best-scoring matchup among the teams left, until every team has one
+    const remaining = new Set(teams.map((_, index) => index));
+    const games: Array<[number, number]> = [];
+    while (remaining.size >= 2) {
+      let best: { a: number; b: number; score: number } | null = null;
+      for (const a of remaining) {
+        for (const b of remaining) {
+          const matchupScore = a < b ? score(a, b) : null;
+          if (matchupScore !== null && (!best || matchupScore > best.score)) {
+            best = { a, b, score: matchupScore };
+          }
+        }
+      }
+      if (!best) {
+        return null;
+      }
+      games.push([best.a, best.b]);
+      remaining.delete(best.a);
+      remaining.delete(best.b);
+    }
+
+    // Improve: re-pair the four teams of two games whenever another split scores higher
+    let improved = true;
+    for (let pass = 0; improved && pass < teams.length; pass++) {
+      improved = false;
+      for (let i = 0; i < games.length; i++) {
+        for (let j = i + 1; j < games.length; j++) {
+          const [a, b] = games[i] as [number, number];
+          const [c, d] = games[j] as [number, number];
+          const total = (x: number, y: number, z: number, w: number) => {
+            const first = score(x, y);
+            const second = score(z, w);
+            return first === null || second === null ? null : first + second;
+          };
+          const current = total(a, b, c, d) ?? Number.NEGATIVE_INFINITY;
+          for (const [x, y, z, w] of [
+            [a, c, b, d],
+            [a, d, b, c]
+          ] as const) {
+            const option = total(x, y, z, w);
+            if (option !== null && option > current) {
+              games[i] = [x, y];
+              games[j] = [z, w];
+              improved = true;
+              break;
+            }
+          }
+        }
+      }
+    }
+
+    return games.map(([a, b]) => {
+      const team1 = teams[a] ?? [];
+      const team2 = teams[b] ?? [];
+      return {
+        team1: [team1[0] || '', team1[1] || ''],
+        team2: [team2[0] || '', team2[1] || '']
+      };
+    });
   }
 
   private pairingStateKey(teams: string[][]): string {
@@ -929,6 +2207,9 @@ export class PickleballMatcher {
     recentOpponentHistory: Record<string, string[][]>,
     enforceSkillLimit: boolean
   ): number | null {
+    if (!this.canOppose(team1, team2)) {
+      return null;
+    }
     const opponentPriority = this.preferenceMultiplier(this.opts.opponentDiversityPriority);
     const skill1 = team1.reduce((sum, id) => sum + this.player(id).skillLevel, 0);
     const skill2 = team2.reduce((sum, id) => sum + this.player(id).skillLevel, 0);
@@ -983,6 +2264,7 @@ export class PickleballMatcher {
     score -= opponentCount * 300 * opponentPriority;
     score -= lastRoundRepeatCount * 900 * opponentPriority;
     score -= twoRoundsAgoRepeatCount * 300 * opponentPriority;
+    score -= this.priorOpponentCount(team1, team2) * 400 * opponentPriority;
 
     if (this.opts.balanceSkillLevels) {
       score -= skillDiff * 25;
@@ -996,28 +2278,35 @@ export class PickleballMatcher {
 
   /**
    * Assign games to courts, penalizing consecutive same-court assignments.
-   * Ensures each court is used exactly once per round.
+   * Ensures each court is used exactly once per round. Games with players who need an
+   * accessible court are placed first and kept off courts that are not accessible.
    */
   private assignCourtsGreedy(
-    matchings: Array<{ team1: [string, string]; team2: [string, string] }>,
+    matchings: Array<{ team1: Team; team2: Team }>,
     courtHistory: Record<string, number[]>,
-    _roundNum: number
-  ): Array<{ team1: [string, string]; team2: [string, string]; court: number }> {
+    courts: number[]
+  ): Array<{ team1: Team; team2: Team; court: number }> {
     const courtPriority = this.preferenceMultiplier(this.opts.courtDiversityPriority);
-    const assignments: Array<{ team1: [string, string]; team2: [string, string]; court: number }> = [];
+    const assignments: Array<{ team1: Team; team2: Team; court: number }> = [];
     const usedCourts = new Set<number>();
-
-    for (let i = 0; i < matchings.length; i++) {
-      const matching = matchings[i];
+    const accessibleNeeds = (matching: { team1: Team; team2: Team } | undefined) =>
+      matching ? this.countAccessibleNeeds([...matching.team1, ...matching.team2]) : 0;
+    const ordered =
+      this.needsAccessibleCourt.size > 0
+        ? [...matchings].sort((a, b) => accessibleNeeds(b) - accessibleNeeds(a))
+        : matchings;
+
+    for (let i = 0; i < ordered.length; i++) {
+      const matching = ordered[i];
       if (!matching) {
         console.warn('No matching found for court assignment at index', i);
         continue;
       }
       const { team1, team2 } = matching;
-      let bestCourt = 1;
+      let bestCourt = courts[0] ?? 1;
       let bestScore = -Infinity;
 
-      for (let court = 1; court <= this.opts.numberOfCourts; court++) {
+      for (const court of courts) {
         // Skip courts already used in this round
         if (usedCourts.has(court)) {
           continue;
@@ -1025,6 +2314,11 @@ export class PickleballMatcher {
 
         let score = 0;
 
+        // Players who need an accessible court outweigh every court rotation penalty
+        if (!getCourtDetails(this.opts, court).accessible) {
+          score -= 100000 * accessibleNeeds(matching);
+        }
+
         // Check for consecutive same-court penalties
         for (const pid of [...team1, ...team2]) {
           const history = courtHistory[pid];
@@ -1053,7 +2347,7 @@ export class PickleballMatcher {
         }
 
         // Add randomness for tie-breaking
-        score += Math.random();
+        score += this.random();
 
         if (score > bestScore) {
           bestScore = score;
@@ -1073,29 +2367,58 @@ export class PickleballMatcher {
    * Evaluate schedule with prioritized scoring.
    */
   private evaluateScore(schedule: GameSchedule): number {
+    return this.getScoreBreakdown(schedule).reduce((sum, component) => sum + component.penalty, 0);
+  }
+
+  /**
+   * The weighted components that make up a schedule's score, in priority order.
+   * Components for options that are switched off are left out.
+   */
+  public getScoreBreakdown(schedule: GameSchedule): ScoreComponent[] {
+    return this.scoreWeights().map(([key, weight]) => {
+      const raw = this.scoreComponent(key, schedule);
+      return { key, raw, weight, penalty: raw * weight };
+    });
+  }
+
+  /**
+   * The weight of each score component these options use, in priority order.
+   * Weights come from the options' `scoreWeights`, falling back to the standard ones; the
+   * weights quoted below are the standard ones.
+   */
+  private scoreWeights(): Array<[ScoreComponentKey, number]> {
     const opponentPriority = this.preferenceMultiplier(this.opts.opponentDiversityPriority);
     const courtPriority = this.preferenceMultiplier(this.opts.courtDiversityPriority);
-    let score = 0;
+    const weights: Array<[ScoreComponentKey, number]> = [];
+    const add = (key: ScoreComponentKey, priority = 1) => {
+      weights.push([key, (this.opts.scoreWeights?.[key] ?? DEFAULT_SCORE_WEIGHTS[key]) * priority]);
+    };
 
     // PRIORITY 0: First round sitters must be respected (if specified)
     // This is enforced during construction, so we don't penalize here
 
+    // PRIORITY 0b: Mixed doubles teams (if enabled)
+    // Weight 100000: only same-gender teams that an unbalanced pool forces are tolerated
+    if (this.opts.mixedDoubles) {
+      add('mixedDoubles');
+    }
+
     // PRIORITY 1: Even rest distribution (max difference of 1) - if enabled
     if (this.opts.distributeRestEqually) {
-      score += this.scoreRestDistribution(schedule) * 10000;
+      add('restDistribution');
     }
 
     // PRIORITY 2: Rest spacing (maximize distance between rests)
-    score += this.scoreRestSpacing(schedule) * 1000;
+    add('restSpacing');
 
     // PRIORITY 3: Minimize partner repeats (HIGHEST priority for gameplay)
-    score += this.scorePartnerRepeats(schedule) * 2500;
+    add('partnerRepeats');
 
     // PRIORITY 4: Consecutive opponent penalties
-    score += this.scoreConsecutiveOpponents(schedule) * 120 * opponentPriority;
+    add('consecutiveOpponents', opponentPriority);
 
     // PRIORITY 5: Minimize opponent repeats (overall)
-    score += this.scoreOpponentRepeats(schedule) * 320 * opponentPriority;
+    add('opponentRepeats', opponentPriority);
 
     // PRIORITY 5b: Extra penalty for opponent encounters above 2 — sum of (count-2) per pair.
     // Sum-based scoring penalises concentration: a pair at count=4 costs twice as much as
@@ -1103,77 +2426,154 @@ export class PickleballMatcher {
     // Weight 30000: a 2-unit avoidable difference contributes 60,000, reliably dominating
     // rest-spacing noise (~0-20k) and a count-2 partner repeat (~25,000) so the right seed
     // is selected consistently across runs.
-    score += this.scoreOpponentsAboveTwo(schedule) * 30000 * opponentPriority;
+    add('opponentsAboveTwo', opponentPriority);
 
     // PRIORITY 6: Consecutive court penalties
-    score += this.scoreConsecutiveCourts(schedule) * 30 * courtPriority;
+    add('consecutiveCourts', courtPriority);
+
+    // PRIORITY 6b: Partners and opponents from recent sessions (if history was provided)
+    if (this.hasPriorHistory) {
+      add('priorPartners');
+      add('priorOpponents', opponentPriority);
+    }
+
+    // PRIORITY 6c: Share singles games evenly (if any court plays singles)
+    // Weight 100000: outranks partner repeats so nobody gets stuck on (or kept off) the singles court
+    if (this.hasSinglesCourts()) {
+      add('singlesBalance');
+    }
 
     // PRIORITY 7: Skill level balance (if enabled)
     if (this.opts.balanceSkillLevels) {
-      score += this.scoreSkillBalance(schedule) * 5;
+      add('skillBalance');
       // Add penalty for games exceeding maxSkillDifference
-      score += this.scoreMaxSkillDifferenceViolations(schedule) * 100;
+      add('maxSkillDifference');
     }
 
     // PRIORITY 8: Couples play together (if enabled)
     // Weight 1000: 100,000 per unplayed couple — prevents local search from breaking preferred pairs
     if (this.opts.respectPartnerPreferences) {
-      score += this.scoreCouplesPreference(schedule) * 1000;
+      add('couples');
     }
 
-    return score;
+    // PRIORITY 9: Players who need an accessible court get one (if anyone needs one)
+    // Weight 100000: only placements forced by too few accessible courts are tolerated
+    if (this.needsAccessibleCourt.size > 0) {
+      add('accessibleCourts');
+    }
+
+    return weights;
+  }
+
+  /**
+   * Unweighted penalty a schedule scores for one component
+   */
+  private scoreComponent(key: ScoreComponentKey, schedule: GameSchedule): number {
+    switch (key) {
+      case 'mixedDoubles':
+        return this.scoreMixedDoubles(schedule);
+      case 'restDistribution':
+        return this.scoreRestDistribution(schedule);
+      case 'restSpacing':
+        return this.scoreRestSpacing(schedule);
+      case 'partnerRepeats':
+        return this.scorePartnerRepeats(schedule);
+      case 'consecutiveOpponents':
+        return this.scoreConsecutiveOpponents(schedule);
+      case 'opponentRepeats':
+        return this.scoreOpponentRepeats(schedule);
+      case 'opponentsAboveTwo':
+        return this.scoreOpponentsAboveTwo(schedule);
+      case 'consecutiveCourts':
+        return this.scoreConsecutiveCourts(schedule);
+      case 'priorPartners':
+        return this.scorePriorPartnerRepeats(schedule);
+      case 'priorOpponents':
+        return this.scorePriorOpponentRepeats(schedule);
+      case 'singlesBalance':
+        return this.scoreSinglesBalance(schedule);
+      case 'skillBalance':
+        return this.scoreSkillBalance(schedule);
+      case 'maxSkillDifference':
+        return this.scoreMaxSkillDifferenceViolations(schedule);
+      case 'couples':
+        return this.scoreCouplesPreference(schedule);
+      case 'accessibleCourts':
+        return this.scoreAccessibleCourts(schedule);
+    }
   }
 
+  /**
+   * Spread between the most and least rested players.
+   * Forced sits (unavailable rounds and rounds away) count as rests, but a player whose
+   * rests are all forced is left out of the maximum: they cannot rest any less, so only
+   * the optional rests they are given are penalized.
+   */
   private scoreRestDistribution(schedule: GameSchedule): number {
     const restCounts: Record<string, number> = {};
+    const optionalRestCounts: Record<string, number> = {};
     const players = this.players.filter(p => p.active !== false);
 
     for (const player of players) {
-      restCounts[player.id] = 0;
+      restCounts[player.id] = this.absentRoundCount(player.id);
+      optionalRestCounts[player.id] = 0;
     }
 
-    for (const roundRests of schedule.restingPlayers) {
+    schedule.restingPlayers.forEach((roundRests, roundIdx) => {
       for (const pid of roundRests) {
-        if (!restCounts[pid]) {
-          restCounts[pid] = 0;
+        restCounts[pid] = (restCounts[pid] || 0) + 1;
+        if (!this.isUnavailableInRound(pid, roundIdx + 1)) {
+          optionalRestCounts[pid] = (optionalRestCounts[pid] || 0) + 1;
         }
-        restCounts[pid]++;
       }
-    }
+    });
 
     const counts = Object.values(restCounts);
     const min = Math.min(...counts);
-    const max = Math.max(...counts);
+    const max = Object.entries(restCounts)
+      .filter(([pid]) => (optionalRestCounts[pid] || 0) > 0)
+      .reduce((highest, [, count]) => Math.max(highest, count), min);
 
     return max - min; // 0 = perfect, higher = worse
   }
 
   private scoreRestSpacing(schedule: GameSchedule): number {
     const players = this.players.filter(p => p.active !== false);
-    let totalBadness = 0;
-
-    for (const player of players) {
-      const restRounds: number[] = [];
-      schedule.restingPlayers.forEach((rests, roundIdx) => {
-        if (rests.includes(player.id)) {
-          restRounds.push(roundIdx);
-        }
-      });
-
-      if (restRounds.length > 1) {
-        // Calculate spacing variance (prefer even spacing)
-        const gaps: number[] = [];
-        for (let i = 1; i < restRounds.length; i++) {
-          gaps.push((restRounds[i] ?? 0) - (restRounds[i - 1] ?? 0));
-        }
+    return players.reduce(
+      (totalBadness, player) =>
+        totalBadness + this.restGapVariance(this.restRounds(schedule.restingPlayers, player.id)),
+      0
+    );
+  }
 
-        const avgGap = gaps.reduce((a, b) => a + b, 0) / gaps.length;
-        const variance = gaps.reduce((sum, gap) => sum + (gap - avgGap) ** 2, 0) / gaps.length;
-        totalBadness += variance;
+  /**
+   * Rounds (0-based) a player rests in
+   */
+  private restRounds(restingPlayers: readonly string[][], pid: string): number[] {
+    const restRounds: number[] = [];
+    restingPlayers.forEach((rests, roundIdx) => {
+      if (rests.includes(pid)) {
+        restRounds.push(roundIdx);
       }
+    });
+    return restRounds;
+  }
+
+  /**
+   * Variance of the gaps between a player's rests; 0 for evenly spaced rests or fewer than two
+   */
+  private restGapVariance(restRounds: readonly number[]): number {
+    if (restRounds.length < 2) {
+      return 0;
+    }
+    // Calculate spacing variance (prefer even spacing)
+    const gaps: number[] = [];
+    for (let i = 1; i < restRounds.length; i++) {
+      gaps.push((restRounds[i] ?? 0) - (restRounds[i - 1] ?? 0));
     }
 
-    return totalBadness;
+    const avgGap = gaps.reduce((a, b) => a + b, 0) / gaps.length;
+    return gaps.reduce((sum, gap) => sum + (gap - avgGap) ** 2, 0) / gaps.length;
   }
 
   private scorePartnerRepeats(schedule: GameSchedule): number {
@@ -1181,8 +2581,9 @@ export class PickleballMatcher {
 
     for (const round of schedule.rounds) {
       for (const game of round) {
-        this.bump(partnerCounts, game.team1[0], game.team1[1]);
-        this.bump(partnerCounts, game.team2[0], game.team2[1]);
+        for (const [a, b] of this.partnerPairs(game)) {
+          this.bump(partnerCounts, a, b);
+        }
       }
     }
 
@@ -1197,6 +2598,28 @@ export class PickleballMatcher {
     return penalty;
   }
 
+  private scorePriorPartnerRepeats(schedule: GameSchedule): number {
+    let penalty = 0;
+    for (const round of schedule.rounds) {
+      for (const game of round) {
+        for (const [a, b] of this.partnerPairs(game)) {
+          penalty += this.priorPartnerCount(a, b);
+        }
+      }
+    }
+    return penalty;
+  }
+
+  private scorePriorOpponentRepeats(schedule: GameSchedule): number {
+    let penalty = 0;
+    for (const round of schedule.rounds) {
+      for (const game of round) {
+        penalty += this.priorOpponentCount(game.team1, game.team2);
+      }
+    }
+    return penalty;
+  }
+
   private scoreOpponentRepeats(schedule: GameSchedule): number {
     const opponentCounts: Record<string, number> = {};
 
@@ -1294,6 +2717,47 @@ export class PickleballMatcher {
     return penalty;
   }
 
+  /**
+   * Same-gender doubles teams beyond the fewest each round's players allow
+   */
+  private scoreMixedDoubles(schedule: GameSchedule): number {
+    return schedule.rounds.reduce((sum, round) => sum + this.scoreMixedDoublesRound(round), 0);
+  }
+
+  private scoreMixedDoublesRound(round: readonly Game[]): number {
+    const teams = round.flatMap(game => [game.team1, game.team2]).filter(team => team.length === 2);
+    const genders = teams.flat().map(pid => this.player(pid).gender);
+    const men = genders.filter(gender => gender === 'male').length;
+    const women = genders.filter(gender => gender === 'female').length;
+    const flexible = genders.length - men - women;
+    // Players without a gender pair with the surplus; whoever is left over has to pair up
+    const unavoidable = Math.max(0, Math.abs(men - women) - flexible) / 2;
+    const sameGender = teams.filter(([a, b]) => b !== undefined && this.isSameGenderTeam(a, b)).length;
+    return Math.max(0, sameGender - unavoidable);
+  }
+
+  /**
+   * How far the spread of singles games between players exceeds 1
+   */
+  private scoreSinglesBalance(schedule: GameSchedule): number {
+    const counts: Record<string, number> = {};
+    for (const player of this.players) {
+      if (player.active !== false) {
+        counts[player.id] = 0;
+      }
+    }
+    for (const game of schedule.rounds.flat()) {
+      if (game.team1.length === 1) {
+        for (const pid of [...game.team1, ...game.team2]) {
+          counts[pid] = (counts[pid] ?? 0) + 1;
+        }
+      }
+    }
+
+    const values = Object.values(counts);
+    return Math.max(0, Math.max(...values) - Math.min(...values) - 1);
+  }
+
   private scoreConsecutiveCourts(schedule: GameSchedule): number {
     const players = this.players.filter(p => p.active !== false);
     let penalty = 0;
@@ -1344,17 +2808,40 @@ export class PickleballMatcher {
 
     for (const round of schedule.rounds) {
       for (const game of round) {
-        if (game.skillDifference > this.opts.maxSkillDifference) {
-          // Exponential penalty for violations
-          const excess = game.skillDifference - this.opts.maxSkillDifference;
-          violations += 2 ** excess;
-        }
+        violations += this.scoreMaxSkillDifferenceGame(game);
       }
     }
 
     return violations;
   }
 
+  private scoreMaxSkillDifferenceGame(game: Game): number {
+    if (game.skillDifference <= this.opts.maxSkillDifference) {
+      return 0;
+    }
+    // Exponential penalty for violations
+    const excess = game.skillDifference - this.opts.maxSkillDifference;
+    return 2 ** excess;
+  }
+
+  /**
+   * Games played on a court that is not accessible by players who need an accessible one
+   */
+  private scoreAccessibleCourts(schedule: GameSchedule): number {
+    return schedule.rounds.flat().reduce((sum, game) => sum + this.scoreAccessibleCourtsGame(game), 0);
+  }
+
+  private scoreAccessibleCourtsGame(game: Game): number {
+    if (getCourtDetails(this.opts, game.court).accessible) {
+      return 0;
+    }
+    return this.countAccessibleNeeds([...game.team1, ...game.team2]);
+  }
+
+  private countAccessibleNeeds(playerIds: readonly string[]): number {
+    return playerIds.filter(pid => this.needsAccessibleCourt.has(pid)).length;
+  }
+
   private scoreCouplesPreference(schedule: GameSchedule): number {
     const couplesPlayed: Record<string, boolean> = {};
     const players = this.players.filter(p => p.active !== false);
@@ -1367,73 +2854,567 @@ export class PickleballMatcher {
       }
     }
 
-    // Check if couples played together
-    for (const round of schedule.rounds) {
-      for (const game of round) {
-        const key1 = this.pairKey(game.team1[0], game.team1[1]);
-        const key2 = this.pairKey(game.team2[0], game.team2[1]);
+    // Check if couples played together
+    for (const round of schedule.rounds) {
+      for (const game of round) {
+        for (const [a, b] of this.partnerPairs(game)) {
+          const key = this.pairKey(a, b);
+          if (key in couplesPlayed) {
+            couplesPlayed[key] = true;
+          }
+        }
+      }
+    }
+
+    // Penalize couples who didn't play together
+    let penalty = 0;
+    for (const played of Object.values(couplesPlayed)) {
+      if (!played) {
+        penalty += 100;
+      }
+    }
+
+    return penalty;
+  }
+
+  /**
+   * Partner, opponent and singles counts for a schedule, with the game everyone plays in each round
+   */
+  private buildScoreTables(schedule: GameSchedule): ScoreTables {
+    const tables: ScoreTables = { partners: new Map(), opponents: new Map(), singles: new Map(), gameIndex: [] };
+    for (const player of this.players) {
+      if (player.active !== false) {
+        tables.singles.set(player.id, 0);
+      }
+    }
+    for (const round of schedule.rounds) {
+      const gameIndex = new Map<string, number>();
+      round.forEach((game, gi) => {
+        for (const pid of [...game.team1, ...game.team2]) {
+          gameIndex.set(pid, gi);
+        }
+        this.countGame(tables, game, 1);
+      });
+      tables.gameIndex.push(gameIndex);
+    }
+    return tables;
+  }
+
+  /**
+   * Add a game's partners, opponents and singles players to a set of counts, or take them away
+   */
+  private countGame(counts: PairCounts, game: Game, step: 1 | -1): void {
+    const add = (map: Map<string, number>, key: string) => map.set(key, (map.get(key) ?? 0) + step);
+    for (const [a, b] of this.partnerPairs(game)) {
+      add(counts.partners, this.pairKey(a, b));
+    }
+    for (const p1 of game.team1) {
+      for (const p2 of game.team2) {
+        add(counts.opponents, this.pairKey(p1, p2));
+      }
+    }
+    if (game.team1.length === 1) {
+      for (const pid of [...game.team1, ...game.team2]) {
+        add(counts.singles, pid);
+      }
+    }
+  }
+
+  /**
+   * Score swapping the players at positions a and b of a round, given the two games the swap produces
+   */
+  private scoreSwap(
+    schedule: GameSchedule,
+    tables: ScoreTables,
+    weights: ReadonlyArray<[ScoreComponentKey, number]>,
+    roundIdx: number,
+    a: SwapPosition,
+    b: SwapPosition,
+    games: [Game, Game]
+  ): ScheduleDelta {
+    const edit: RoundEdit = {
+      roundIdx,
+      games: new Map([
+        [a.gi, games[0]],
+        [b.gi, games[1]]
+      ])
+    };
+    return this.scoreEdits(schedule, tables, weights, [edit]);
+  }
+
+  /**
+   * Score replacing games, and for sitter swaps who rests, in one or more rounds. Only the
+   * pairs, players and games the edits touch are looked at, so this costs the same however
+   * big the schedule is.
+   */
+  private scoreEdits(
+    schedule: GameSchedule,
+    tables: ScoreTables,
+    weights: ReadonlyArray<[ScoreComponentKey, number]>,
+    edits: RoundEdit[]
+  ): ScheduleDelta {
+    const before: Game[] = [];
+    const after: Game[] = [];
+    const counts: PairCounts = { partners: new Map(), opponents: new Map(), singles: new Map() };
+    for (const edit of edits) {
+      const round = schedule.rounds[edit.roundIdx] ?? [];
+      for (const [gi, game] of edit.games) {
+        const replaced = round[gi];
+        if (replaced) {
+          before.push(replaced);
+          this.countGame(counts, replaced, -1);
+        }
+        after.push(game);
+        this.countGame(counts, game, 1);
+      }
+    }
+    const resting = this.restingChange(schedule, edits);
+
+    const gameChange = (score: (game: Game) => number) =>
+      after.reduce((sum, game) => sum + score(game), 0) - before.reduce((sum, game) => sum + score(game), 0);
+    const pairChange = (
+      changes: Map<string, number>,
+      totals: Map<string, number>,
+      score: (count: number) => number
+    ) => {
+      let change = 0;
+      for (const [key, step] of changes) {
+        const count = totals.get(key) ?? 0;
+        change += score(count + step) - score(count);
+      }
+      return change;
+    };
+
+    const raw: Partial<Record<ScoreComponentKey, number>> = {};
+    let penalty = 0;
+    for (const [key, weight] of weights) {
+      let change = 0;
+      switch (key) {
+        case 'mixedDoubles':
+          change = edits.reduce((sum, edit) => {
+            const round = schedule.rounds[edit.roundIdx] ?? [];
+            return (
+              sum + this.scoreMixedDoublesRound(this.editedRound(round, edit)) - this.scoreMixedDoublesRound(round)
+            );
+          }, 0);
+          break;
+        case 'restDistribution':
+          change = resting ? this.restDistributionChange(schedule, resting) : 0;
+          break;
+        case 'restSpacing':
+          change = resting ? this.restSpacingChange(schedule, resting) : 0;
+          break;
+        case 'partnerRepeats':
+          change = pairChange(counts.partners, tables.partners, count => (count > 1 ? 10 ** (count - 1) : 0));
+          break;
+        case 'consecutiveOpponents':
+          change = this.consecutiveOpponentsChange(schedule, tables, edits, [...before, ...after]);
+          break;
+        case 'opponentRepeats':
+          change = pairChange(counts.opponents, tables.opponents, count => (count > 1 ? 6 ** (count - 1) : 0));
+          break;
+        case 'opponentsAboveTwo':
+          change = pairChange(counts.opponents, tables.opponents, count => Math.max(0, count - 2));
+          break;
+        case 'consecutiveCourts':
+          change = this.consecutiveCourtsChange(schedule, tables, edits);
+          break;
+        case 'priorPartners':
+          change = gameChange(game =>
+            this.partnerPairs(game).reduce((sum, [p1, p2]) => sum + this.priorPartnerCount(p1, p2), 0)
+          );
+          break;
+        case 'priorOpponents':
+          change = gameChange(game => this.priorOpponentCount(game.team1, game.team2));
+          break;
+        case 'singlesBalance':
+          change = this.singlesImbalance(tables.singles, counts.singles) - this.singlesImbalance(tables.singles);
+          break;
+        case 'skillBalance':
+          change = gameChange(game => game.skillDifference);
+          break;
+        case 'maxSkillDifference':
+          change = gameChange(game => this.scoreMaxSkillDifferenceGame(game));
+          break;
+        case 'couples': {
+          const coupleChanges = new Map([...counts.partners].filter(([pairKey]) => this.couples.has(pairKey)));
+          change = pairChange(coupleChanges, tables.partners, count => (count > 0 ? 0 : 100));
+          break;
+        }
+        case 'accessibleCourts':
+          change = gameChange(game => this.scoreAccessibleCourtsGame(game));
+          break;
+      }
+      raw[key] = change;
+      penalty += change * weight;
+    }
+
+    return { edits, counts, raw, penalty };
+  }
+
+  /**
+   * Make the edits scored by `scoreEdits`, updating the tables to match the schedule it returns
+   */
+  private applyScoredEdits(schedule: GameSchedule, tables: ScoreTables, delta: ScheduleDelta): GameSchedule {
+    for (const key of ['partners', 'opponents', 'singles'] as const) {
+      for (const [pairKey, step] of delta.counts[key]) {
+        tables[key].set(pairKey, (tables[key].get(pairKey) ?? 0) + step);
+      }
+    }
+    for (const edit of delta.edits) {
+      const round = schedule.rounds[edit.roundIdx] ?? [];
+      const gameIndex = tables.gameIndex[edit.roundIdx];
+      for (const gi of edit.games.keys()) {
+        for (const pid of [...(round[gi]?.team1 ?? []), ...(round[gi]?.team2 ?? [])]) {
+          gameIndex?.delete(pid);
+        }
+      }
+      for (const [gi, game] of edit.games) {
+        for (const pid of [...game.team1, ...game.team2]) {
+          gameIndex?.set(pid, gi);
+        }
+      }
+    }
+    return this.withEdits(schedule, delta.edits);
+  }
+
+  /**
+   * Whether edits scored by `scoreEdits` would make mixed doubles, the singles share or
+   * accessible courts worse, or put more never-partner or never-opponent pairs together
+   */
+  private editWorsensTeamRules(schedule: GameSchedule, delta: ScheduleDelta): boolean {
+    let violations = 0;
+    for (const edit of delta.edits) {
+      const round = schedule.rounds[edit.roundIdx] ?? [];
+      for (const [gi, game] of edit.games) {
+        violations += Number(this.gameBreaksAvoidRules(game)) - Number(this.gameBreaksAvoidRules(round[gi]));
+      }
+    }
+    if (violations > 0) {
+      return true;
+    }
+    return (['mixedDoubles', 'singlesBalance', 'accessibleCourts'] as const).some(key => (delta.raw[key] ?? 0) > 0);
+  }
+
+  /**
+   * A round with an edit's games swapped in
+   */
+  private editedRound(round: readonly Game[], edit: RoundEdit): Game[] {
+    return round.map((game, gi) => edit.games.get(gi) ?? game);
+  }
+
+  /**
+   * A schedule with edits made; rounds the edits leave alone are shared
+   */
+  private withEdits(schedule: GameSchedule, edits: readonly RoundEdit[]): GameSchedule {
+    const rounds = [...schedule.rounds];
+    const restingPlayers = [...schedule.restingPlayers];
+    for (const edit of edits) {
+      rounds[edit.roundIdx] = this.editedRound(rounds[edit.roundIdx] ?? [], edit);
+      if (edit.resting) {
+        restingPlayers[edit.roundIdx] = edit.resting;
+      }
+    }
+    return { ...schedule, rounds, restingPlayers };
+  }
+
+  /**
+   * Change in the consecutive opponents penalty from edits to some rounds: each active player
+   * in an opponent pair is charged 100 for every two neighbouring rounds the pair meets in,
+   * and 30 for every two rounds two apart. Only pairs facing each other in `games` (the games
+   * the edits replace and add) can change.
+   */
+  private consecutiveOpponentsChange(
+    schedule: GameSchedule,
+    tables: ScoreTables,
+    edits: readonly RoundEdit[],
+    games: readonly Game[]
+  ): number {
+    const editedRounds = new Map(
+      edits.map(edit => [edit.roundIdx, this.editedRound(schedule.rounds[edit.roundIdx] ?? [], edit)])
+    );
+    // Each pair of rounds an edit can change the penalty for, counted once
+    const spans = new Map<string, [number, number, number]>();
+    for (const roundIdx of editedRounds.keys()) {
+      for (const [gap, cost] of [
+        [1, 100],
+        [2, 30]
+      ] as const) {
+        for (const first of [roundIdx - gap, roundIdx]) {
+          if (first >= 0 && first + gap < schedule.rounds.length) {
+            spans.set(`${first}|${gap}`, [first, first + gap, cost]);
+          }
+        }
+      }
+    }
+    const pairs = new Set<string>();
+    for (const game of games) {
+      for (const p1 of game.team1) {
+        for (const p2 of game.team2) {
+          pairs.add(this.pairKey(p1, p2));
+        }
+      }
+    }
+
+    let change = 0;
+    for (const pairKey of pairs) {
+      const [p1, p2] = pairKey.split('|') as [string, string];
+      const active = [p1, p2].filter(pid => this.player(pid).active !== false).length;
+      if (active === 0) {
+        continue;
+      }
+      const facedBefore = (roundIdx: number) => this.facedInRound(schedule, tables, roundIdx, p1, p2);
+      const facedAfter = (roundIdx: number) => {
+        const round = editedRounds.get(roundIdx);
+        return round ? round.some(game => this.facesInGame(game, p1, p2)) : facedBefore(roundIdx);
+      };
+      for (const [first, second, cost] of spans.values()) {
+        const was = facedBefore(first) && facedBefore(second);
+        const is = facedAfter(first) && facedAfter(second);
+        change += active * cost * (Number(is) - Number(was));
+      }
+    }
+    return change;
+  }
+
+  private facedInRound(schedule: GameSchedule, tables: ScoreTables, roundIdx: number, p1: string, p2: string): boolean {
+    const gameIndex = tables.gameIndex[roundIdx];
+    const gi = gameIndex?.get(p1);
+    if (gi === undefined || gameIndex?.get(p2) !== gi) {
+      return false;
+    }
+    const game = schedule.rounds[roundIdx]?.[gi];
+    return !!game && this.facesInGame(game, p1, p2);
+  }
+
+  private facesInGame(game: Game, p1: string, p2: string): boolean {
+    return (game.team1.includes(p1) && game.team2.includes(p2)) || (game.team2.includes(p1) && game.team1.includes(p2));
+  }
+
+  /**
+   * Change in the consecutive courts penalty from edits, charged to the players whose court
+   * in an edited round changes
+   */
+  private consecutiveCourtsChange(schedule: GameSchedule, tables: ScoreTables, edits: readonly RoundEdit[]): number {
+    const editsByRound = new Map(edits.map(edit => [edit.roundIdx, edit]));
+    const moved = new Set<string>();
+    for (const edit of edits) {
+      const round = schedule.rounds[edit.roundIdx] ?? [];
+      for (const [gi, game] of edit.games) {
+        for (const pid of [...(round[gi]?.team1 ?? []), ...(round[gi]?.team2 ?? []), ...game.team1, ...game.team2]) {
+          if (
+            this.courtIn(schedule, tables, pid, edit.roundIdx) !==
+            this.courtIn(schedule, tables, pid, edit.roundIdx, editsByRound)
+          ) {
+            moved.add(pid);
+          }
+        }
+      }
+    }
+
+    let change = 0;
+    for (const pid of moved) {
+      if (this.player(pid).active !== false) {
+        change +=
+          this.courtRunPenalty(schedule, tables, pid, editsByRound) - this.courtRunPenalty(schedule, tables, pid);
+      }
+    }
+    return change;
+  }
+
+  /**
+   * One player's share of the consecutive courts penalty, optionally as if some rounds were edited
+   */
+  private courtRunPenalty(
+    schedule: GameSchedule,
+    tables: ScoreTables,
+    pid: string,
+    edits?: ReadonlyMap<number, RoundEdit>
+  ): number {
+    let penalty = 0;
+    let last: number | undefined;
+    let beforeLast: number | undefined;
+    for (let roundIdx = 0; roundIdx < schedule.rounds.length; roundIdx++) {
+      const current = this.courtIn(schedule, tables, pid, roundIdx, edits);
+      if (current === undefined) {
+        continue;
+      }
+      if (current === last) {
+        penalty += current === beforeLast ? 150 : 50;
+      }
+      beforeLast = last;
+      last = current;
+    }
+    return penalty;
+  }
+
+  /**
+   * The court a player plays on in a round, optionally as if some rounds were edited, or
+   * undefined if they rest
+   */
+  private courtIn(
+    schedule: GameSchedule,
+    tables: ScoreTables,
+    pid: string,
+    roundIdx: number,
+    edits?: ReadonlyMap<number, RoundEdit>
+  ): number | undefined {
+    const edit = edits?.get(roundIdx);
+    for (const game of edit?.games.values() ?? []) {
+      if (game.team1.includes(pid) || game.team2.includes(pid)) {
+        return game.court;
+      }
+    }
+    const gi = tables.gameIndex[roundIdx]?.get(pid);
+    if (gi === undefined || edit?.games.has(gi)) {
+      return undefined;
+    }
+    return schedule.rounds[roundIdx]?.[gi]?.court;
+  }
 
-        if (key1 in couplesPlayed) {
-          couplesPlayed[key1] = true;
-        }
-        if (key2 in couplesPlayed) {
-          couplesPlayed[key2] = true;
+  /**
+   * Who rests in each round after some edits, and the players whose rests the edits move, or
+   * null if nobody's rests change
+   */
+  private restingChange(
+    schedule: GameSchedule,
+    edits: readonly RoundEdit[]
+  ): { restingPlayers: string[][]; movers: Set<string> } | null {
+    const restingPlayers = [...schedule.restingPlayers];
+    const movers = new Set<string>();
+    for (const edit of edits) {
+      if (!edit.resting) {
+        continue;
+      }
+      const previous = restingPlayers[edit.roundIdx] ?? [];
+      for (const pid of [...previous, ...edit.resting]) {
+        if (previous.includes(pid) !== edit.resting.includes(pid)) {
+          movers.add(pid);
         }
       }
+      restingPlayers[edit.roundIdx] = edit.resting;
     }
+    return movers.size > 0 ? { restingPlayers, movers } : null;
+  }
 
-    // Penalize couples who didn't play together
-    let penalty = 0;
-    for (const played of Object.values(couplesPlayed)) {
-      if (!played) {
-        penalty += 100;
+  /**
+   * Change in the rest distribution penalty when some players' rests move. The spread only
+   * depends on how many rests each player has and whether any are optional, so when the
+   * movers keep both the rests are scored as they were; otherwise they are scored afresh.
+   */
+  private restDistributionChange(
+    schedule: GameSchedule,
+    { restingPlayers, movers }: { restingPlayers: string[][]; movers: Set<string> }
+  ): number {
+    const restShape = (rests: readonly string[][], pid: string) => {
+      const rounds = this.restRounds(rests, pid);
+      return `${rounds.length}|${rounds.some(roundIdx => !this.isUnavailableInRound(pid, roundIdx + 1))}`;
+    };
+    if ([...movers].every(pid => restShape(restingPlayers, pid) === restShape(schedule.restingPlayers, pid))) {
+      return 0;
+    }
+    return this.scoreRestDistribution({ ...schedule, restingPlayers }) - this.scoreRestDistribution(schedule);
+  }
+
+  /**
+   * Change in the rest spacing penalty when some players' rests move
+   */
+  private restSpacingChange(
+    schedule: GameSchedule,
+    { restingPlayers, movers }: { restingPlayers: string[][]; movers: Set<string> }
+  ): number {
+    let change = 0;
+    for (const pid of movers) {
+      if (this.player(pid).active !== false) {
+        change +=
+          this.restGapVariance(this.restRounds(restingPlayers, pid)) -
+          this.restGapVariance(this.restRounds(schedule.restingPlayers, pid));
       }
     }
+    return change;
+  }
 
-    return penalty;
+  /**
+   * How far the spread of singles games exceeds 1, optionally with a change applied to the counts
+   */
+  private singlesImbalance(counts: Map<string, number>, change?: Map<string, number>): number {
+    let min = Number.POSITIVE_INFINITY;
+    let max = Number.NEGATIVE_INFINITY;
+    for (const [pid, count] of counts) {
+      const value = count + (change?.get(pid) ?? 0);
+      min = Math.min(min, value);
+      max = Math.max(max, value);
+    }
+    return Math.max(0, max - min - 1);
   }
 
   /**
-   * Count how many rounds two specific players faced each other as opponents.
+   * Targeted repair: rounds are built without regard to who needs an accessible court, so
+   * those players can end up spread over more games than there are accessible courts.
+   * Swap each one stuck on another court with a player on an accessible court, taking the
+   * swap that costs the least.
    */
-  private countPairOpponentEncounters(schedule: GameSchedule, id1: string, id2: string): number {
-    let count = 0;
-    for (const round of schedule.rounds) {
-      for (const game of round) {
-        if (
-          (game.team1.includes(id1) && game.team2.includes(id2)) ||
-          (game.team2.includes(id1) && game.team1.includes(id2))
-        ) {
-          count++;
+  private repairAccessibleCourts(schedule: GameSchedule): GameSchedule {
+    if (this.needsAccessibleCourt.size === 0) {
+      return schedule;
+    }
+    let current = schedule;
+    const tables = this.buildScoreTables(current);
+    const weights = this.scoreWeights();
+
+    for (let r = this.frozenRounds.length; r < current.rounds.length; r++) {
+      // Each swap fixes one player, so a round never needs more passes than it has players
+      for (let pass = 0; pass < this.players.length; pass++) {
+        const round = current.rounds[r] ?? [];
+        const positions = this.swapPositions(round);
+        const isAccessible = (position: SwapPosition) =>
+          getCourtDetails(this.opts, round[position.gi]?.court ?? 0).accessible === true;
+
+        let best: ScheduleDelta | null = null;
+        for (const stuck of positions) {
+          const pid = this.playerAt(round, stuck);
+          if (!pid || !this.needsAccessibleCourt.has(pid) || isAccessible(stuck)) {
+            continue;
+          }
+          for (const target of positions) {
+            const other = this.playerAt(round, target);
+            if (!other || this.needsAccessibleCourt.has(other) || !isAccessible(target)) {
+              continue;
+            }
+            const games = this.swapGames(round, stuck, target);
+            if (!games || games.some(game => this.gameBreaksAvoidRules(game))) {
+              continue;
+            }
+            const delta = this.scoreSwap(current, tables, weights, r, stuck, target, games);
+            if (delta.penalty < -MIN_SCORE_IMPROVEMENT && (!best || delta.penalty < best.penalty)) {
+              best = delta;
+            }
+          }
         }
+        if (!best) {
+          break;
+        }
+        current = this.applyScoredEdits(current, tables, best);
       }
     }
-    return count;
+    return current;
   }
 
   /**
    * Targeted repair: find opponent pairs that face each other 3+ times and
    * try intra-round swaps to reduce their encounter count without worsening partner repeats.
+   * Stops once `deadline` (a `Date.now()` time) passes, like local search.
    */
-  private repairHotOpponentPairs(schedule: GameSchedule): GameSchedule {
+  private repairHotOpponentPairs(schedule: GameSchedule, deadline?: number): GameSchedule {
     let current = schedule;
 
-    for (let pass = 0; pass < 15; pass++) {
-      // Compute current opponent counts
-      const opponentCounts = new Map<string, number>();
-      for (const round of current.rounds) {
-        for (const game of round) {
-          for (const p1 of game.team1) {
-            for (const p2 of game.team2) {
-              const key = this.pairKey(p1, p2);
-              opponentCounts.set(key, (opponentCounts.get(key) || 0) + 1);
-            }
-          }
-        }
-      }
+    // Opponent counts and the rest, kept up to date as repairs are made
+    const tables = this.buildScoreTables(current);
+    const weights = this.scoreWeights();
 
+    for (let pass = 0; pass < 15; pass++) {
       // Find hot pairs (encounter count ≥ 3), sorted by hottest first
-      const hotPairs = Array.from(opponentCounts.entries())
+      const hotPairs = Array.from(tables.opponents.entries())
         .filter(([, c]) => c >= 3)
         .sort((a, b) => b[1] - a[1]);
 
@@ -1451,25 +3432,22 @@ export class PickleballMatcher {
           continue;
         }
 
-        // Find rounds where this pair faced each other as opponents
-        for (let r = 0; r < current.rounds.length; r++) {
+        // Find rounds where this pair faced each other as opponents (played rounds stay as they are)
+        for (let r = this.frozenRounds.length; r < current.rounds.length; r++) {
+          if (deadline !== undefined && Date.now() >= deadline) {
+            return current;
+          }
           const round = current.rounds[r];
           if (!round) {
             continue;
           }
-          const facingInRound = round.some(
-            g => (g.team1.includes(id1) && g.team2.includes(id2)) || (g.team2.includes(id1) && g.team1.includes(id2))
-          );
+          const facingInRound = round.some(g => this.facesInGame(g, id1, id2));
           if (!facingInRound) {
             continue;
           }
 
           // Try all cross-game swaps in this round
-          type Pos = { gi: number; ti: 0 | 1; pi: 0 | 1 };
-          const positions: Pos[] = [];
-          for (let gi = 0; gi < round.length; gi++) {
-            positions.push({ gi, ti: 0, pi: 0 }, { gi, ti: 0, pi: 1 }, { gi, ti: 1, pi: 0 }, { gi, ti: 1, pi: 1 });
-          }
+          const positions = this.swapPositions(round);
 
           for (let i = 0; i < positions.length && !improved; i++) {
             for (let j = i + 1; j < positions.length && !improved; j++) {
@@ -1479,159 +3457,47 @@ export class PickleballMatcher {
                 continue;
               }
 
-              const candidate = this.applySwap(current, r, a, b);
-              const newCount = this.countPairOpponentEncounters(candidate, id1, id2);
+              const games = this.swapGames(round, a, b);
+              if (!games) {
+                continue;
+              }
+              const delta = this.scoreSwap(current, tables, weights, r, a, b, games);
+              const newCount = hotCount + (delta.counts.opponents.get(pairKey) ?? 0);
 
               if (newCount < hotCount) {
-                const currPartner = this.scorePartnerRepeats(current);
-                const candPartner = this.scorePartnerRepeats(candidate);
-
                 // Reject if any partnership count would exceed 2 (count>2 penalty is 100+)
                 // Allow creating count-2 partnerships (penalty of 10 each) — these are
                 // within the test tolerances for small player pools with many rounds.
-                if (candPartner > currPartner + 15) {
+                if ((delta.raw.partnerRepeats ?? 0) > 15) {
                   continue; // 15 allows at most one new count-2 pair (penalty 10)
                 }
 
-                // If partner preferences enabled, also protect couple pairings
-                if (this.opts.respectPartnerPreferences) {
-                  const currCouples = this.scoreCouplesPreference(current);
-                  const candCouples = this.scoreCouplesPreference(candidate);
-                  if (candCouples > currCouples) {
-                    continue;
-                  }
-                }
-
-                current = candidate;
-                improved = true;
-              }
-            }
-          }
-
-          // If intra-round swaps didn't help, try inter-round sitter swaps:
-          // move one of the hot pair players to sit in this round (swapping with a sitter),
-          // while the displaced sitter compensates by taking the hot player's slot in another round.
-          if (!improved) {
-            const currOppScore = this.scoreOpponentRepeats(current);
-            const sittersInR = current.restingPlayers[r] || [];
-            for (const sitterIdInR of sittersInR) {
-              if (improved) {
-                break;
-              }
-              // Try sitting id1 in round r (id1 was playing, swaps role with sitterIdInR)
-              for (let r2 = 0; r2 < current.rounds.length && !improved; r2++) {
-                if (r2 === r) {
-                  continue;
-                }
-                const sittersR2 = current.restingPlayers[r2] || [];
-                // id1 must be a sitter in r2, sitterIdInR must be a player in r2
-                if (!sittersR2.includes(id1)) {
-                  continue;
-                }
-                if (sittersR2.includes(sitterIdInR)) {
-                  continue;
-                }
-                // Rest-spacing guard: moving id1 from r2 to r must not create gap < 2.
-                // Also, moving sitterIdInR from r to r2 must not create gap < 2 for them.
-                const id1ViolatesSpacing = current.restingPlayers.some(
-                  (sitters, ri) => ri !== r2 && sitters.includes(id1) && Math.abs(ri - r) < 2
-                );
-                if (id1ViolatesSpacing) {
-                  continue;
-                }
-                const sitterViolatesSpacing = current.restingPlayers.some(
-                  (sitters, ri) => ri !== r && sitters.includes(sitterIdInR) && Math.abs(ri - r2) < 2
-                );
-                if (sitterViolatesSpacing) {
-                  continue;
-                }
-                const candidate = this.applyInterRoundSitterSwap(current, id1, sitterIdInR, r, r2);
-                const newCount = this.countPairOpponentEncounters(candidate, id1, id2);
-                if (newCount < hotCount) {
-                  const currPartner = this.scorePartnerRepeats(current);
-                  const candPartner = this.scorePartnerRepeats(candidate);
-                  // Inter-round swaps affect partnerships in TWO rounds, so allow up to two new
-                  // count-2 partnerships (penalty 10 each → threshold 25 covers both).
-                  if (candPartner > currPartner + 25) {
-                    continue;
-                  }
-                  // Reject if total opponent score doesn't improve — prevents creating new hot pairs
-                  // and avoids "neutral" swap chains that can eventually produce count=4 pairs.
-                  if (this.scoreOpponentRepeats(candidate) >= currOppScore) {
-                    continue;
-                  }
-                  if (this.opts.respectPartnerPreferences) {
-                    if (this.scoreCouplesPreference(candidate) > this.scoreCouplesPreference(current)) {
-                      continue;
-                    }
-                  }
-                  current = candidate;
-                  improved = true;
-                }
-              }
-              if (improved) {
-                break;
-              }
-              // Try sitting id2 in round r instead
-              for (let r2 = 0; r2 < current.rounds.length && !improved; r2++) {
-                if (r2 === r) {
-                  continue;
-                }
-                const sittersR2 = current.restingPlayers[r2] || [];
-                if (!sittersR2.includes(id2)) {
-                  continue;
-                }
-                if (sittersR2.includes(sitterIdInR)) {
-                  continue;
-                }
-                // Rest-spacing guard: same checks as for id1 above.
-                const id2ViolatesSpacing = current.restingPlayers.some(
-                  (sitters, ri) => ri !== r2 && sitters.includes(id2) && Math.abs(ri - r) < 2
-                );
-                if (id2ViolatesSpacing) {
+                // Keep mixed doubles teams and the singles share intact
+                if (this.editWorsensTeamRules(current, delta)) {
                   continue;
                 }
-                const sitterViolatesSpacing2 = current.restingPlayers.some(
-                  (sitters, ri) => ri !== r && sitters.includes(sitterIdInR) && Math.abs(ri - r2) < 2
-                );
-                if (sitterViolatesSpacing2) {
+
+                // If partner preferences enabled, also protect couple pairings
+                if ((delta.raw.couples ?? 0) > 0) {
                   continue;
                 }
-                const candidate = this.applyInterRoundSitterSwap(current, id2, sitterIdInR, r, r2);
-                const newCount = this.countPairOpponentEncounters(candidate, id1, id2);
-                if (newCount < hotCount) {
-                  const currPartner = this.scorePartnerRepeats(current);
-                  const candPartner = this.scorePartnerRepeats(candidate);
-                  // Inter-round swaps affect partnerships in TWO rounds, so allow up to two new
-                  // count-2 partnerships (penalty 10 each → threshold 25 covers both).
-                  if (candPartner > currPartner + 25) {
-                    continue;
-                  }
-                  // Reject if total opponent score doesn't improve — prevents creating new hot pairs
-                  // and avoids "neutral" swap chains that can eventually produce count=4 pairs.
-                  if (this.scoreOpponentRepeats(candidate) >= currOppScore) {
-                    continue;
-                  }
-                  if (this.opts.respectPartnerPreferences) {
-                    if (this.scoreCouplesPreference(candidate) > this.scoreCouplesPreference(current)) {
-                      continue;
-                    }
-                  }
-                  current = candidate;
-                  improved = true;
-                }
+
+                current = this.applyScoredEdits(current, tables, delta);
+                improved = true;
               }
             }
           }
 
-          // Last resort: full exhaustive re-solve of this round.
-          // Enumerate all 315 partner-pairing × matchup arrangements for the 8 playing players,
-          // filter out those where id1 and id2 face each other, and pick the arrangement that
-          // minimises total opponent overflow (using history from all OTHER rounds).
+          // If intra-round swaps didn't help, try inter-round sitter swaps, and as a last
+          // resort a full exhaustive re-solve of this round: enumerate all 315 partner-pairing ×
+          // matchup arrangements for the 8 playing players, filter out those where id1 and id2
+          // face each other, and pick the arrangement that minimises total opponent overflow.
           if (!improved) {
-            const resolveCand = this.tryRepairRoundExhaustive(current, r, id1, id2, hotCount);
-            if (resolveCand) {
-              current = resolveCand;
+            const delta =
+              this.findHotPairSitterSwap(current, tables, weights, r, id1, id2) ??
+              this.tryRepairRoundExhaustive(current, tables, weights, r, id1, id2);
+            if (delta) {
+              current = this.applyScoredEdits(current, tables, delta);
               improved = true;
             }
           }
@@ -1653,6 +3519,70 @@ export class PickleballMatcher {
     return current;
   }
 
+  /**
+   * Look for an inter-round sitter swap that breaks up a hot pair: one of the pair sits out
+   * round `roundIdx` in place of one of its sitters, and the displaced sitter compensates by
+   * taking the hot player's slot in a round the hot player sat out.
+   *
+   * Returns the first swap that lowers the pair's encounter count, or null if none qualifies.
+   */
+  private findHotPairSitterSwap(
+    schedule: GameSchedule,
+    tables: ScoreTables,
+    weights: ReadonlyArray<[ScoreComponentKey, number]>,
+    roundIdx: number,
+    id1: string,
+    id2: string
+  ): ScheduleDelta | null {
+    // Whether a player rests within one round of `roundIdx`, not counting the rest they give up
+    const restsNear = (pid: string, roundIdx: number, givenUp: number) =>
+      schedule.restingPlayers.some(
+        (sitters, ri) => ri !== givenUp && sitters.includes(pid) && Math.abs(ri - roundIdx) < 2
+      );
+
+    for (const sitter of schedule.restingPlayers[roundIdx] ?? []) {
+      for (const playerToSit of [id1, id2]) {
+        for (let r2 = this.frozenRounds.length; r2 < schedule.rounds.length; r2++) {
+          if (r2 === roundIdx || !this.canSwapSitters(schedule, playerToSit, sitter, roundIdx, r2)) {
+            continue;
+          }
+          // The hot player must be a sitter in r2, and the sitter a player there
+          const sittersR2 = schedule.restingPlayers[r2] ?? [];
+          if (!sittersR2.includes(playerToSit) || sittersR2.includes(sitter)) {
+            continue;
+          }
+          // Rest-spacing guard: neither player's moved rest may land next to another of their rests
+          if (restsNear(playerToSit, roundIdx, r2) || restsNear(sitter, r2, roundIdx)) {
+            continue;
+          }
+          const edits = this.sitterSwapEdits(schedule, tables, playerToSit, sitter, roundIdx, r2);
+          if (!edits) {
+            continue;
+          }
+          const delta = this.scoreEdits(schedule, tables, weights, edits);
+          if ((delta.counts.opponents.get(this.pairKey(id1, id2)) ?? 0) >= 0) {
+            continue;
+          }
+          // Inter-round swaps affect partnerships in TWO rounds, so allow up to two new
+          // count-2 partnerships (penalty 10 each → threshold 25 covers both).
+          if ((delta.raw.partnerRepeats ?? 0) > 25) {
+            continue;
+          }
+          // Reject if total opponent score doesn't improve — prevents creating new hot pairs
+          // and avoids "neutral" swap chains that can eventually produce count=4 pairs.
+          if ((delta.raw.opponentRepeats ?? 0) >= 0) {
+            continue;
+          }
+          if (this.editWorsensTeamRules(schedule, delta) || (delta.raw.couples ?? 0) > 0) {
+            continue;
+          }
+          return delta;
+        }
+      }
+    }
+    return null;
+  }
+
   /**
    * Re-solve an entire round to break a hot opponent pair.
    *
@@ -1661,16 +3591,17 @@ export class PickleballMatcher {
    * Uses opponent/partner history from all OTHER rounds as the scoring basis so the
    * chosen arrangement minimises new overflow for the whole schedule.
    *
-   * Returns an improved schedule, or null if no valid arrangement exists or if the
+   * Returns the scored re-solve, or null if no valid arrangement exists or if the
    * total opponent score would not strictly improve.
    */
   private tryRepairRoundExhaustive(
     current: GameSchedule,
+    tables: ScoreTables,
+    weights: ReadonlyArray<[ScoreComponentKey, number]>,
     roundIdx: number,
     id1: string,
-    id2: string,
-    hotCount: number
-  ): GameSchedule | null {
+    id2: string
+  ): ScheduleDelta | null {
     const round = current.rounds[roundIdx];
     if (!round || round.length !== 2) {
       return null; // Only handle 2-court rounds
@@ -1681,48 +3612,34 @@ export class PickleballMatcher {
       return null;
     }
 
-    // Build opponent and partner histories from all OTHER rounds.
+    // Opponent and partner histories from all OTHER rounds: the schedule's counts less this round's
+    const roundCounts: PairCounts = { partners: new Map(), opponents: new Map(), singles: new Map() };
+    for (const game of round) {
+      this.countGame(roundCounts, game, 1);
+    }
     const oppHistory: Record<string, Record<string, number>> = {};
     const partnerHistory: Record<string, Record<string, number>> = {};
-
-    for (let r = 0; r < current.rounds.length; r++) {
-      if (r === roundIdx) {
-        continue;
-      }
-      const roundAtR = current.rounds[r];
-      if (!roundAtR) {
-        continue;
+    const addHistory = (
+      history: Record<string, Record<string, number>>,
+      key: 'partners' | 'opponents',
+      a: string,
+      b: string
+    ): void => {
+      const pairKey = this.pairKey(a, b);
+      const count = (tables[key].get(pairKey) ?? 0) - (roundCounts[key].get(pairKey) ?? 0);
+      if (count > 0) {
+        history[a] ??= {};
+        history[a][b] = count;
+        history[b] ??= {};
+        history[b][a] = count;
       }
-      for (const game of roundAtR) {
-        // Partner history
-        const addPartner = (a: string, b: string): void => {
-          if (!partnerHistory[a]) {
-            partnerHistory[a] = {};
-          }
-          partnerHistory[a][b] = (partnerHistory[a][b] || 0) + 1;
-          if (!partnerHistory[b]) {
-            partnerHistory[b] = {};
-          }
-          partnerHistory[b][a] = (partnerHistory[b][a] || 0) + 1;
-        };
-        addPartner(game.team1[0], game.team1[1]);
-        addPartner(game.team2[0], game.team2[1]);
-
-        // Opponent history (bidirectional)
-        for (const p1 of game.team1) {
-          for (const p2 of game.team2) {
-            if (!oppHistory[p1]) {
-              oppHistory[p1] = {};
-            }
-            oppHistory[p1][p2] = (oppHistory[p1][p2] || 0) + 1;
-            if (!oppHistory[p2]) {
-              oppHistory[p2] = {};
-            }
-            oppHistory[p2][p1] = (oppHistory[p2][p1] || 0) + 1;
-          }
-        }
+    };
+    playingInRound.forEach((a, i) => {
+      for (const b of playingInRound.slice(i + 1)) {
+        addHistory(partnerHistory, 'partners', a, b);
+        addHistory(oppHistory, 'opponents', a, b);
       }
-    }
+    });
 
     const indexPartitions = PickleballMatcher.getPairIndexPartitions(8);
     const opPri = this.preferenceMultiplier(this.opts.opponentDiversityPriority);
@@ -1850,52 +3767,51 @@ export class PickleballMatcher {
       return null;
     }
 
-    // Build the candidate schedule.
-    const newRound: Game[] = round.map((g, gi) => {
+    // Score the re-solved round against the rest of the schedule.
+    const games = new Map<number, Game>();
+    round.forEach((g, gi) => {
       const m = bestMatchings[gi];
       if (!m) {
-        return g;
+        return;
       }
-      const s1 = this.player(m.team1[0]).skillLevel + this.player(m.team1[1]).skillLevel;
-      const s2 = this.player(m.team2[0]).skillLevel + this.player(m.team2[1]).skillLevel;
-      return {
+      const s1 = this.teamSkill(m.team1);
+      const s2 = this.teamSkill(m.team2);
+      games.set(gi, {
         ...g,
         team1: m.team1,
         team2: m.team2,
         team1SkillLevel: s1,
         team2SkillLevel: s2,
         skillDifference: Math.abs(s1 - s2)
-      };
+      });
     });
-    const newRounds = [...current.rounds];
-    newRounds[roundIdx] = newRound;
-    const candidate: GameSchedule = { ...current, rounds: newRounds };
+    const delta = this.scoreEdits(current, tables, weights, [{ roundIdx, games }]);
 
     // The re-solve must actually reduce the hot pair's encounter count.
-    const newCount = this.countPairOpponentEncounters(candidate, id1, id2);
-    if (newCount >= hotCount) {
+    if ((delta.counts.opponents.get(this.pairKey(id1, id2)) ?? 0) >= 0) {
       return null;
     }
 
     // Require a strict improvement in total opponent overflow — prevents neutral swaps that cycle.
-    if (this.scoreOpponentRepeats(candidate) >= this.scoreOpponentRepeats(current)) {
+    if ((delta.raw.opponentRepeats ?? 0) >= 0) {
       return null;
     }
 
     // Protect partner diversity.
-    const currPartner = this.scorePartnerRepeats(current);
-    const candPartner = this.scorePartnerRepeats(candidate);
-    if (candPartner > currPartner + 15) {
+    if ((delta.raw.partnerRepeats ?? 0) > 15) {
       return null;
     }
 
-    if (this.opts.respectPartnerPreferences) {
-      if (this.scoreCouplesPreference(candidate) > this.scoreCouplesPreference(current)) {
-        return null;
-      }
+    if (this.editWorsensTeamRules(current, delta)) {
+      return null;
     }
 
-    return candidate;
+    // If partner preferences enabled, also protect couple pairings
+    if ((delta.raw.couples ?? 0) > 0) {
+      return null;
+    }
+
+    return delta;
   }
 
   /**
@@ -1916,27 +3832,28 @@ export class PickleballMatcher {
 
   /**
    * Post-construction local search: try swapping players between games within each round.
-   * Accepts any swap that improves the total score. Runs multiple passes until no improvement.
+   * Accepts any swap that improves the total score. Runs multiple passes until no improvement,
+   * or until `deadline` (a `Date.now()` time) passes, which large clubs can reach first.
    */
-  private improveWithLocalSearch(schedule: GameSchedule): GameSchedule {
+  private improveWithLocalSearch(schedule: GameSchedule, deadline?: number): GameSchedule {
     let current = schedule;
-    let currentScore = this.evaluateScore(current);
+    const tables = this.buildScoreTables(current);
+    const weights = this.scoreWeights();
 
     for (let pass = 0; pass < 5; pass++) {
       let improved = false;
 
-      for (let roundIdx = 0; roundIdx < current.rounds.length; roundIdx++) {
+      for (let roundIdx = this.frozenRounds.length; roundIdx < current.rounds.length; roundIdx++) {
+        if (deadline !== undefined && Date.now() >= deadline) {
+          return current;
+        }
         const round = current.rounds[roundIdx];
         if (!round || round.length < 2) {
           continue;
         }
 
         // Enumerate all player positions in this round
-        type Pos = { gi: number; ti: 0 | 1; pi: 0 | 1 };
-        const positions: Pos[] = [];
-        for (let gi = 0; gi < round.length; gi++) {
-          positions.push({ gi, ti: 0, pi: 0 }, { gi, ti: 0, pi: 1 }, { gi, ti: 1, pi: 0 }, { gi, ti: 1, pi: 1 });
-        }
+        const positions = this.swapPositions(round);
 
         // Try all pairwise swaps between different games
         for (let i = 0; i < positions.length; i++) {
@@ -1947,12 +3864,14 @@ export class PickleballMatcher {
               continue; // Only swap between different games
             }
 
-            const candidate = this.applySwap(current, roundIdx, a, b);
-            const score = this.evaluateScore(candidate);
+            const games = this.swapGames(current.rounds[roundIdx] ?? [], a, b);
+            if (!games || games.some(game => this.gameBreaksAvoidRules(game))) {
+              continue;
+            }
+            const delta = this.scoreSwap(current, tables, weights, roundIdx, a, b, games);
 
-            if (score < currentScore) {
-              current = candidate;
-              currentScore = score;
+            if (delta.penalty < -MIN_SCORE_IMPROVEMENT) {
+              current = this.applyScoredEdits(current, tables, delta);
               improved = true;
             }
           }
@@ -1968,55 +3887,43 @@ export class PickleballMatcher {
   }
 
   /**
-   * Swap two players (at positions a and b in different games within a round) and return the new schedule.
+   * Copies of the games at positions a and b (different games within a round) with the two
+   * players swapped and skill levels recalculated, or null if either slot is empty
    */
-  private applySwap(
-    schedule: GameSchedule,
-    roundIdx: number,
-    a: { gi: number; ti: 0 | 1; pi: 0 | 1 },
-    b: { gi: number; ti: 0 | 1; pi: 0 | 1 }
-  ): GameSchedule {
-    // Copy only the affected round; all other rounds are shared
-    const roundToSwap = schedule.rounds[roundIdx];
-    if (!roundToSwap) {
-      return schedule;
+  private swapGames(round: readonly Game[], a: SwapPosition, b: SwapPosition): [Game, Game] | null {
+    const gameA = round[a.gi];
+    const gameB = round[b.gi];
+    if (!gameA || !gameB) {
+      return null;
     }
-    const newRound = roundToSwap.map(g => ({
-      ...g,
-      team1: [g.team1[0], g.team1[1]] as [string, string],
-      team2: [g.team2[0], g.team2[1]] as [string, string]
-    }));
-
-    const ga = newRound[a.gi];
-    const gb = newRound[b.gi];
-    if (!ga || !gb) {
-      return schedule;
+    const ga = this.copyGame(gameA);
+    const gb = this.copyGame(gameB);
+
+    const teamA: string[] = a.ti === 0 ? ga.team1 : ga.team2;
+    const teamB: string[] = b.ti === 0 ? gb.team1 : gb.team2;
+    const playerA = teamA[a.pi];
+    const playerB = teamB[b.pi];
+    if (playerA === undefined || playerB === undefined) {
+      return null;
     }
 
-    const teamA = a.ti === 0 ? ga.team1 : ga.team2;
-    const teamB = b.ti === 0 ? gb.team1 : gb.team2;
-
     // Perform the swap
-    const tmp = teamA[a.pi];
-    teamA[a.pi] = teamB[b.pi];
-    teamB[b.pi] = tmp;
+    teamA[a.pi] = playerB;
+    teamB[b.pi] = playerA;
 
     // Recompute skill levels for the two affected games
     for (const g of [ga, gb]) {
-      const s1 = this.player(g.team1[0]).skillLevel + this.player(g.team1[1]).skillLevel;
-      const s2 = this.player(g.team2[0]).skillLevel + this.player(g.team2[1]).skillLevel;
+      const s1 = this.teamSkill(g.team1);
+      const s2 = this.teamSkill(g.team2);
       g.team1SkillLevel = s1;
       g.team2SkillLevel = s2;
       g.skillDifference = Math.abs(s1 - s2);
     }
-
-    const newRounds = [...schedule.rounds];
-    newRounds[roundIdx] = newRound;
-    return { ...schedule, rounds: newRounds };
+    return [ga, gb];
   }
 
   /**
-   * Apply an inter-round sitter swap to fix hot opponent pairs.
+   * The edits for an inter-round sitter swap that fixes hot opponent pairs.
    *
    * playerToSit is currently a PLAYER in roundR (and faces their hot opponent there).
    * sitterToPlay is currently a SITTER in roundR.
@@ -2027,96 +3934,213 @@ export class PickleballMatcher {
    * - roundR2: playerToSit takes sitterToPlay's game slot; sitterToPlay becomes a sitter.
    *
    * This preserves total play count for both players and maintains exactly sittersPerRound
-   * sitters in each round.
+   * sitters in each round. Returns null if either player is not playing where they should be.
    */
-  private applyInterRoundSitterSwap(
+  private sitterSwapEdits(
     schedule: GameSchedule,
+    tables: ScoreTables,
     playerToSit: string,
     sitterToPlay: string,
     roundR: number,
     roundR2: number
-  ): GameSchedule {
-    const newRounds = [...schedule.rounds];
-    const newRestingPlayers = [...schedule.restingPlayers];
-
-    // Round R: replace playerToSit with sitterToPlay in the games
-    {
-      const roundAtR = newRounds[roundR];
-      if (!roundAtR) {
-        return schedule;
+  ): RoundEdit[] | null {
+    const edits: RoundEdit[] = [];
+    for (const [roundIdx, leaving, joining] of [
+      [roundR, playerToSit, sitterToPlay],
+      [roundR2, sitterToPlay, playerToSit]
+    ] as const) {
+      const gi = tables.gameIndex[roundIdx]?.get(leaving);
+      const game = gi === undefined ? undefined : schedule.rounds[roundIdx]?.[gi];
+      if (gi === undefined || !game) {
+        return null;
       }
-      const roundCopy = roundAtR.map(g => ({
-        ...g,
-        team1: [g.team1[0], g.team1[1]] as [string, string],
-        team2: [g.team2[0], g.team2[1]] as [string, string]
-      }));
-      for (const g of roundCopy) {
-        const t1idx = g.team1.indexOf(playerToSit);
-        const t2idx = g.team2.indexOf(playerToSit);
-        if (t1idx >= 0) {
-          g.team1[t1idx] = sitterToPlay;
-        } else if (t2idx >= 0) {
-          g.team2[t2idx] = sitterToPlay;
-        }
-        const s1 = this.player(g.team1[0]).skillLevel + this.player(g.team1[1]).skillLevel;
-        const s2 = this.player(g.team2[0]).skillLevel + this.player(g.team2[1]).skillLevel;
-        g.team1SkillLevel = s1;
-        g.team2SkillLevel = s2;
-        g.skillDifference = Math.abs(s1 - s2);
-      }
-      newRounds[roundR] = roundCopy;
-      const sittersR = [...(newRestingPlayers[roundR] || [])];
-      const si = sittersR.indexOf(sitterToPlay);
-      if (si >= 0) {
-        sittersR.splice(si, 1);
-      }
-      sittersR.push(playerToSit);
-      newRestingPlayers[roundR] = sittersR;
-    }
-
-    // Round R2: replace sitterToPlay with playerToSit in the games
-    {
-      const roundAtR2 = newRounds[roundR2];
-      if (!roundAtR2) {
-        return schedule;
-      }
-      const roundCopy = roundAtR2.map(g => ({
-        ...g,
-        team1: [g.team1[0], g.team1[1]] as [string, string],
-        team2: [g.team2[0], g.team2[1]] as [string, string]
-      }));
-      for (const g of roundCopy) {
-        const t1idx = g.team1.indexOf(sitterToPlay);
-        const t2idx = g.team2.indexOf(sitterToPlay);
-        if (t1idx >= 0) {
-          g.team1[t1idx] = playerToSit;
-        } else if (t2idx >= 0) {
-          g.team2[t2idx] = playerToSit;
+      // The joining player takes the leaving player's slot, and sits no longer
+      const swapped = this.copyGame(game);
+      for (const team of [swapped.team1, swapped.team2]) {
+        const index = team.indexOf(leaving);
+        if (index >= 0) {
+          team[index] = joining;
         }
-        const s1 = this.player(g.team1[0]).skillLevel + this.player(g.team1[1]).skillLevel;
-        const s2 = this.player(g.team2[0]).skillLevel + this.player(g.team2[1]).skillLevel;
-        g.team1SkillLevel = s1;
-        g.team2SkillLevel = s2;
-        g.skillDifference = Math.abs(s1 - s2);
       }
-      newRounds[roundR2] = roundCopy;
-      const sittersR2 = [...(newRestingPlayers[roundR2] || [])];
-      const si2 = sittersR2.indexOf(playerToSit);
-      if (si2 >= 0) {
-        sittersR2.splice(si2, 1);
+      const s1 = this.teamSkill(swapped.team1);
+      const s2 = this.teamSkill(swapped.team2);
+      swapped.team1SkillLevel = s1;
+      swapped.team2SkillLevel = s2;
+      swapped.skillDifference = Math.abs(s1 - s2);
+
+      const resting = (schedule.restingPlayers[roundIdx] ?? []).filter(pid => pid !== joining);
+      edits.push({ roundIdx, games: new Map([[gi, swapped]]), resting: [...resting, leaving] });
+    }
+    return edits;
+  }
+
+  /**
+   * Whether `sitterToPlay` can play round R in place of `playerToSit`, who plays round R2 in return.
+   * Both must be able to play the round they move into, and `sitterToPlay` must be playing in R2.
+   */
+  private canSwapSitters(
+    schedule: GameSchedule,
+    playerToSit: string,
+    sitterToPlay: string,
+    roundR: number,
+    roundR2: number
+  ): boolean {
+    if (this.isUnavailableInRound(sitterToPlay, roundR + 1) || this.isUnavailableInRound(playerToSit, roundR2 + 1)) {
+      return false;
+    }
+    return (schedule.rounds[roundR2] ?? []).some(g => g.team1.includes(sitterToPlay) || g.team2.includes(sitterToPlay));
+  }
+
+  /**
+   * Search every doubles arrangement of a round for one that keeps never-partner and
+   * never-opponent pairs apart, for when the greedy pairing runs into a dead end.
+   * Gives up after a fixed number of steps so an impossible round fails quickly.
+   */
+  private findAllowedMatchings(
+    players: string[],
+    opponentHistory: Record<string, Record<string, number>>,
+    recentOpponentHistory: Record<string, string[][]>
+  ): Array<{ team1: [string, string]; team2: [string, string] }> | null {
+    let stepsLeft = 20000;
+    const pairUp = (
+      remaining: string[],
+      pairs: string[][]
+    ): Array<{ team1: [string, string]; team2: [string, string] }> | null => {
+      if (--stepsLeft < 0) {
+        return null;
+      }
+      const [first, ...rest] = remaining;
+      if (first === undefined) {
+        return this.findBestPairingsForRound(pairs, opponentHistory, recentOpponentHistory, false);
+      }
+      for (const partner of rest) {
+        if (!this.canPartner(first, partner)) {
+          continue;
+        }
+        const found = pairUp(
+          rest.filter(id => id !== partner),
+          [...pairs, [first, partner]]
+        );
+        if (found || stepsLeft < 0) {
+          return found;
+        }
       }
-      sittersR2.push(sitterToPlay);
-      newRestingPlayers[roundR2] = sittersR2;
+      return null;
+    };
+    return pairUp(players, []);
+  }
+
+  private avoidRulesError(roundNum: number): Error {
+    return new Error(
+      `Round ${roundNum} cannot be scheduled without pairing up or matching players who must never partner or never face each other. Shorten those lists, or schedule more players.`
+    );
+  }
+
+  /**
+   * Whether two players may partner: neither has the other on their never-partner list
+   */
+  private canPartner(a: string, b: string | undefined): boolean {
+    return b === undefined || this.avoidPartners.size === 0 || !this.avoidPartners.has(this.pairKey(a, b));
+  }
+
+  /**
+   * Whether two teams may face each other: nobody has an opponent on their never-opponent list
+   */
+  private canOppose(team1: readonly string[], team2: readonly string[]): boolean {
+    if (this.avoidOpponents.size === 0) {
+      return true;
     }
+    return team1.every(a => team2.every(b => !this.avoidOpponents.has(this.pairKey(a, b))));
+  }
 
-    return { ...schedule, rounds: newRounds, restingPlayers: newRestingPlayers };
+  private breaksAvoidRules(team1: readonly string[], team2: readonly string[]): boolean {
+    return (
+      !this.canPartner(team1[0] ?? '', team1[1]) ||
+      !this.canPartner(team2[0] ?? '', team2[1]) ||
+      !this.canOppose(team1, team2)
+    );
+  }
+
+  private gameBreaksAvoidRules(game: Game | undefined): boolean {
+    return !!game && this.breaksAvoidRules(game.team1, game.team2);
   }
 
   // Helper utilities
-  private player(id: string): Player {
-    const p = this.players.find(x => {
-      return x.id === id;
+  /**
+   * Partnerships in a game; singles games have none
+   */
+  private partnerPairs(game: Game): Array<[string, string]> {
+    const pairs: Array<[string, string]> = [];
+    for (const team of [game.team1, game.team2]) {
+      if (team.length === 2) {
+        pairs.push([team[0], team[1]]);
+      }
+    }
+    return pairs;
+  }
+
+  /**
+   * Whether two partners break mixed doubles: both have the same gender set
+   */
+  private isSameGenderTeam(a: string, b: string): boolean {
+    if (!this.opts.mixedDoubles) {
+      return false;
+    }
+    const genderA = this.player(a).gender;
+    return genderA !== undefined && genderA === this.player(b).gender;
+  }
+
+  private makeGame(roundNum: number, court: number, team1: Team, team2: Team): Game {
+    const skillLevel1 = this.teamSkill(team1);
+    const skillLevel2 = this.teamSkill(team2);
+    return {
+      id: `g-${roundNum}-${court}`,
+      round: roundNum,
+      court,
+      team1,
+      team2,
+      team1SkillLevel: skillLevel1,
+      team2SkillLevel: skillLevel2,
+      skillDifference: Math.abs(skillLevel1 - skillLevel2)
+    };
+  }
+
+  private teamSkill(team: readonly string[]): number {
+    return team.reduce((sum, id) => sum + this.player(id).skillLevel, 0);
+  }
+
+  /**
+   * Copy a game with its own team arrays so players can be swapped in place
+   */
+  private copyGame(game: Game): Game {
+    return { ...game, team1: [...game.team1] as Team, team2: [...game.team2] as Team };
+  }
+
+  /**
+   * Every player slot in a round, for swap-based search
+   */
+  private swapPositions(round: Game[]): SwapPosition[] {
+    const positions: SwapPosition[] = [];
+    round.forEach((game, gi) => {
+      for (const ti of [0, 1] as const) {
+        const team = ti === 0 ? game.team1 : game.team2;
+        for (const pi of [0, 1] as const) {
+          if (pi < team.length) {
+            positions.push({ gi, ti, pi });
+          }
+        }
+      }
     });
+    return positions;
+  }
+
+  private playerAt(round: readonly Game[], position: SwapPosition): string | undefined {
+    const game = round[position.gi];
+    return (position.ti === 0 ? game?.team1 : game?.team2)?.[position.pi];
+  }
+
+  private player(id: string): Player {
+    const p = this.playersById.get(id);
     if (!p) {
       throw new Error(`Unknown player id ${id}`);
     }
@@ -0,0 +1,196 @@
+import type { GameSchedule, MatchingOptions, Player, SchedulePool } from '~/types';
+import { COURT_FORMAT_PLAYERS, fitCourts, getCourtDetails, getCourtFormat } from '~/utils/courtFormats';
+import { buildFixedTeams } from '~/utils/fixedTeams';
+
+/**
+ * Divide players into `options.poolCount` pools and give each pool its own run of courts.
+ *
+ * Tiers are filled from the highest skill level down, so each tier covers a skill range.
+ * Tiers are kept close to the same size, but players with the same skill level are never
+ * split between two tiers unless every cut would leave a tier too small to fill a court.
+ * Balanced pools take players strongest first, each going to the pool with the fewest
+ * players (then the lowest total skill), so every pool ends up with a similar average.
+ * In fixed-teams mode registered partners are always placed in the same pool.
+ *
+ * Courts are handed out in court order, at least one per pool, with the rest going to
+ * the pools with the most players per court. Courts no pool can fill are left unused, at
+ * the end of the court list so the courts in use are numbered without gaps.
+ *
+ * @param players - Players taking part
+ * @param options - Matching options, including the pool count and split
+ * @returns Pools in order (top tier first)
+ */
+export function splitIntoPools(players: Player[], options: MatchingOptions): SchedulePool[] {
+  const count = Math.max(1, options.poolCount ?? 1);
+  if (count > options.numberOfCourts) {
+    throw new Error(`Each pool needs its own court, so ${options.numberOfCourts} courts allow at most that many pools`);
+  }
+
+  // Players who must stay together, strongest first
+  let units: Player[][];
+  if (options.mode === 'fixedTeams') {
+    const byId = new Map(players.map(p => [p.id, p]));
+    const { teams, unpaired } = buildFixedTeams(players);
+    units = [...teams, ...unpaired.map(id => [id])].map(ids => ids.map(id => byId.get(id) as Player));
+  } else {
+    units = players.map(p => [p]);
+  }
+  const unitSkill = (unit: Player[]) => unit.reduce((sum, p) => sum + p.skillLevel, 0) / unit.length;
+  units.sort((a, b) => unitSkill(b) - unitSkill(a) || (a[0]?.name ?? '').localeCompare(b[0]?.name ?? ''));
+
+  const groups: Player[][] = Array.from({ length: count }, () => []);
+  if (options.poolSplit === 'balanced') {
+    for (const unit of units) {
+      const total = (group: Player[]) => group.reduce((sum, p) => sum + p.skillLevel, 0);
+      const target = groups.reduce((best, group) =>
+        group.length < best.length || (group.length === best.length && total(group) < total(best)) ? group : best
+      );
+      target.push(...unit);
+    }
+  } else {
+    let start = 0;
+    for (const [index, end] of tierCuts(units, count, unitSkill).entries()) {
+      groups[index]?.push(...units.slice(start, end).flat());
+      start = end;
+    }
+  }
+
+  // At least one court each, then extra courts to the most crowded pools that can fill them
+  const courtCounts = groups.map(() => 1);
+  const load = (index: number) => (groups[index]?.length ?? 0) / (courtCounts[index] ?? 1);
+  const canFillAnother = (index: number) =>
+    (groups[index]?.length ?? 0) >= ((courtCounts[index] ?? 1) + 1) * COURT_FORMAT_PLAYERS.doubles;
+  for (let extra = count; extra < options.numberOfCourts; extra++) {
+    let busiest = -1;
+    for (let index = 0; index < count; index++) {
+      if (canFillAnother(index) && (busiest === -1 || load(index) > load(busiest))) {
+        busiest = index;
+      }
+    }
+    if (busiest === -1) {
+      break;
+    }
+    courtCounts[busiest] = (courtCounts[busiest] ?? 1) + 1;
+  }
+
+  let nextCourt = 1;
+  return groups.map((group, index) => {
+    const courts = Array.from({ length: courtCounts[index] as number }, (_, offset) => nextCourt + offset);
+    const name = options.poolSplit === 'balanced' ? `Pool ${String.fromCharCode(65 + index)}` : `Tier ${index + 1}`;
+
+    // Drop trailing courts the pool can't fill
+    const fitted = fitCourts(poolOptions(options, { name, playerIds: [], courts }), group.length);
+    if (fitted.length === 0) {
+      const needed = Math.min(...courts.map(court => COURT_FORMAT_PLAYERS[getCourtFormat(options, court)]));
+      throw new Error(`${name} has ${group.length} players, but at least ${needed} are needed to fill a court`);
+    }
+    // The next pool starts straight after the courts this one keeps
+    const kept = courts.slice(0, fitted[fitted.length - 1]);
+    nextCourt += kept.length;
+    return {
+      name,
+      playerIds: group.map(p => p.id),
+      courts: kept
+    };
+  });
+}
+
+/**
+ * Where each tier ends in the skill-sorted units, as end indexes (the last is `units.length`).
+ * Each cut goes as near as it can to an even split, preferring a cut between two skill levels
+ * and one that leaves every tier enough players for a doubles court.
+ */
+function tierCuts(units: Player[][], count: number, unitSkill: (unit: Player[]) => number): number[] {
+  const playersBefore = [0];
+  for (const unit of units) {
+    playersBefore.push((playersBefore[playersBefore.length - 1] ?? 0) + unit.length);
+  }
+  const total = playersBefore[units.length] ?? 0;
+  const minimum = COURT_FORMAT_PLAYERS.doubles;
+
+  const cuts: number[] = [];
+  let previous = 0;
+  for (let tier = 1; tier < count; tier++) {
+    const target = Math.round((total * tier) / count);
+    let best = previous;
+    let bestCost = Number.POSITIVE_INFINITY;
+    // Leave at least one unit for this tier and each tier after it
+    for (let cut = previous + 1; cut <= units.length - (count - tier); cut++) {
+      const before = playersBefore[cut] ?? 0;
+      const splitsSkill = unitSkill(units[cut - 1] ?? []) === unitSkill(units[cut] ?? []);
+      const tooSmall = before - (playersBefore[previous] ?? 0) < minimum || total - before < minimum * (count - tier);
+      const cost = Math.abs(before - target) + (splitsSkill ? total : 0) + (tooSmall ? total * 2 : 0);
+      if (cost < bestCost) {
+        best = cut;
+        bestCost = cost;
+      }
+    }
+    cuts.push(best);
+    previous = best;
+  }
+  return [...cuts, units.length];
+}
+
+/**
+ * Matching options for scheduling one pool on its own: its courts are renumbered from 1
+ * and player-specific options are limited to the pool's players
+ */
+export function poolOptions(options: MatchingOptions, pool: SchedulePool): MatchingOptions {
+  const inPool = (id: string) => pool.playerIds.includes(id);
+  const unavailableRounds = options.unavailableRounds
+    ? Object.fromEntries(Object.entries(options.unavailableRounds).filter(([id]) => inPool(id)))
+    : undefined;
+  return {
+    ...options,
+    numberOfCourts: pool.courts.length,
+    courtFormats: pool.courts.map(court => getCourtFormat(options, court)),
+    courts: options.courts ? pool.courts.map(court => getCourtDetails(options, court)) : undefined,
+    poolCount: undefined,
+    poolSplit: undefined,
+    firstRoundSitters: options.firstRoundSitters?.filter(inPool),
+    unavailableRounds
+  };
+}
+
+/**
+ * Combine the schedules of each pool into one schedule, moving every game onto its pool's courts
+ * @param pools - The pools, in the same order as their schedules
+ * @param schedules - One schedule per pool, with courts numbered from 1
+ * @param options - The options for the whole event
+ * @param eventLabel - Label of the combined schedule
+ */
+export function mergePoolSchedules(
+  pools: SchedulePool[],
+  schedules: GameSchedule[],
+  options: MatchingOptions,
+  eventLabel: string
+): GameSchedule {
+  const roundCount = Math.max(...schedules.map(schedule => schedule.rounds.length));
+  const rounds = Array.from({ length: roundCount }, (_, roundIndex) =>
+    pools.flatMap((pool, poolIndex) =>
+      (schedules[poolIndex]?.rounds[roundIndex] ?? []).map(game => {
+        const court = pool.courts[game.court - 1] ?? game.court;
+        return { ...game, id: `g-${game.round}-${court}`, court };
+      })
+    )
+  );
+  const restingPlayers = Array.from({ length: roundCount }, (_, roundIndex) =>
+    schedules.flatMap(schedule => schedule.restingPlayers[roundIndex] ?? [])
+  );
+
+  return {
+    rounds,
+    restingPlayers,
+    eventLabel,
+    options,
+    generatedAt: new Date(),
+    pools: pools.map(pool => ({ ...pool, playerIds: [...pool.playerIds], courts: [...pool.courts] }))
+  };
+}
+
+/**
+ * The pool playing on a court, if the schedule was split into pools
+ */
+export function getCourtPool(schedule: GameSchedule, court: number): SchedulePool | undefined {
+  return schedule.pools?.find(pool => pool.courts.includes(court));
+}
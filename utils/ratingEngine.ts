@@ -0,0 +1,122 @@
+import type { GameResult } from '~/types';
+
+/**
+ * Tuning for the rating engine
+ */
+export interface RatingEngineOptions {
+  /** Maximum rating change from a single game */
+  kFactor: number;
+  /** Rating gap at which the stronger team is expected to win 10:1 */
+  ratingScale: number;
+  minRating: number;
+  maxRating: number;
+}
+
+/**
+ * A proposed rating change for one player in one game
+ */
+export interface RatingChange {
+  playerId: string;
+  previousRating: number;
+  proposedRating: number;
+  delta: number;
+}
+
+export const DEFAULT_RATING_OPTIONS: RatingEngineOptions = {
+  kFactor: 0.1,
+  ratingScale: 1,
+  minRating: 1,
+  maxRating: 5
+};
+
+/** Rating used for players whose skill level is unknown (e.g. deleted players) */
+const FALLBACK_RATING = 3;
+
+function roundRating(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Keep a rating inside the skill range, rounded to two decimals
+ */
+export function clampRating(
+  rating: number,
+  minRating = DEFAULT_RATING_OPTIONS.minRating,
+  maxRating = DEFAULT_RATING_OPTIONS.maxRating
+): number {
+  return roundRating(Math.min(maxRating, Math.max(minRating, rating)));
+}
+
+function teamRating(team: string[], ratings: Record<string, number>): number {
+  const total = team.reduce((sum, playerId) => sum + (ratings[playerId] ?? FALLBACK_RATING), 0);
+  return total / team.length;
+}
+
+/**
+ * Probability that a team beats its opponents, using the Elo logistic curve
+ * @param rating - Average rating of the team
+ * @param opponentRating - Average rating of the opposing team
+ * @param ratingScale - Rating gap that corresponds to 10:1 odds
+ * @returns Expected score between 0 and 1
+ */
+export function expectedScore(rating: number, opponentRating: number, ratingScale: number): number {
+  return 1 / (1 + 10 ** ((opponentRating - rating) / ratingScale));
+}
+
+/**
+ * Calculate Elo-style rating changes for every player in a recorded doubles game.
+ *
+ * Each team is rated as the average of its players, so a player's partner affects
+ * how surprising the result is. Every player on a team moves by the same amount:
+ * kFactor * (actual - expected), where actual is 1 for a win, 0 for a loss and
+ * 0.5 for a tie. Upsets move ratings more than expected wins, and changes are
+ * clamped to the 1-5 skill range.
+ *
+ * @param result - The scored game
+ * @param ratings - Current skill level of each player by ID
+ * @param options - Engine tuning, defaults to DEFAULT_RATING_OPTIONS
+ * @returns One change per known player in the game
+ */
+export function calculateRatingChanges(
+  result: Pick<GameResult, 'team1' | 'team2' | 'team1Score' | 'team2Score'>,
+  ratings: Record<string, number>,
+  options: Partial<RatingEngineOptions> = {}
+): RatingChange[] {
+  const settings = { ...DEFAULT_RATING_OPTIONS, ...options };
+  const team1Rating = teamRating(result.team1, ratings);
+  const team2Rating = teamRating(result.team2, ratings);
+
+  let team1Actual = 0.5;
+  if (result.team1Score > result.team2Score) {
+    team1Actual = 1;
+  } else if (result.team1Score < result.team2Score) {
+    team1Actual = 0;
+  }
+
+  const team1Expected = expectedScore(team1Rating, team2Rating, settings.ratingScale);
+  const team1Change = settings.kFactor * (team1Actual - team1Expected);
+
+  const changes: RatingChange[] = [];
+  const sides: [string[], number][] = [
+    [result.team1, team1Change],
+    [result.team2, -team1Change]
+  ];
+
+  for (const [team, change] of sides) {
+    for (const playerId of team) {
+      const previousRating = ratings[playerId];
+      if (previousRating === undefined) {
+        continue;
+      }
+      const proposedRating = clampRating(previousRating + change, settings.minRating, settings.maxRating);
+      changes.push({
+        playerId,
+        previousRating,
+        proposedRating,
+        delta: roundRating(proposedRating - previousRating)
+      });
+    }
+  }
+
+  return changes;
+}
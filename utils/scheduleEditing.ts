@@ -0,0 +1,181 @@
+import type { Game, GameSchedule, Player } from '~/types';
+
+/**
+ * Swap two players within one round of a schedule, editing the schedule in place.
+ *
+ * Either player can be on a team or resting, so this both moves players between games and
+ * swaps someone in from the resting list. Team skill totals and skill differences are
+ * recalculated for the games that change.
+ *
+ * @param schedule - The schedule to edit
+ * @param roundIndex - Round to edit (0-based)
+ * @param playerA - One player to swap
+ * @param playerB - The other player to swap
+ * @param players - Players in the schedule, for skill levels and names
+ * @returns Warnings about repeats, never-partner and never-opponent pairs, and availability
+ *   problems the swap created
+ */
+export function swapPlayersInRound(
+  schedule: GameSchedule,
+  roundIndex: number,
+  playerA: string,
+  playerB: string,
+  players: Player[]
+): string[] {
+  const round = schedule.rounds[roundIndex];
+  const resting = schedule.restingPlayers[roundIndex] ?? [];
+  if (!round) {
+    throw new Error(`Round ${roundIndex + 1} is not in this schedule`);
+  }
+  if (playerA === playerB) {
+    return [];
+  }
+
+  const games = [playerA, playerB].map(id => round.find(game => [...game.team1, ...game.team2].includes(id)));
+  for (const [index, id] of [playerA, playerB].entries()) {
+    if (!games[index] && !resting.includes(id)) {
+      throw new Error(`${playerName(players, id)} is not in round ${roundIndex + 1}`);
+    }
+  }
+  if (games.some(game => game && hasScore(game))) {
+    throw new Error('Players cannot be moved in a game that already has a score');
+  }
+
+  const pairsBefore = roundPairs(round);
+  const swap = (id: string) => (id === playerA ? playerB : id === playerB ? playerA : id);
+  for (const game of new Set(games.filter((game): game is Game => game !== undefined))) {
+    for (const team of [game.team1, game.team2]) {
+      for (const [index, id] of team.entries()) {
+        team[index] = swap(id);
+      }
+    }
+    const skill = (team: readonly string[]) =>
+      team.reduce((sum, id) => sum + (players.find(p => p.id === id)?.skillLevel ?? 0), 0);
+    game.team1SkillLevel = skill(game.team1);
+    game.team2SkillLevel = skill(game.team2);
+    game.skillDifference = Math.abs(game.team1SkillLevel - game.team2SkillLevel);
+  }
+  schedule.restingPlayers[roundIndex] = resting.map(swap);
+
+  return findEditWarnings(schedule, roundIndex, pairsBefore, [playerA, playerB], players);
+}
+
+/**
+ * Partner and opponent pairs that play each other in a round, as sorted `a|b` keys
+ */
+function roundPairs(round: readonly Game[]): { partners: Set<string>; opponents: Set<string> } {
+  const partners = new Set<string>();
+  const opponents = new Set<string>();
+  for (const game of round) {
+    for (const team of [game.team1, game.team2]) {
+      if (team.length === 2) {
+        partners.add(pairKey(team[0], team[1] as string));
+      }
+    }
+    for (const a of game.team1) {
+      for (const b of game.team2) {
+        opponents.add(pairKey(a, b));
+      }
+    }
+  }
+  return { partners, opponents };
+}
+
+function findEditWarnings(
+  schedule: GameSchedule,
+  roundIndex: number,
+  pairsBefore: { partners: Set<string>; opponents: Set<string> },
+  movedIds: string[],
+  players: Player[]
+): string[] {
+  const warnings: string[] = [];
+  const pairsAfter = roundPairs(schedule.rounds[roundIndex] ?? []);
+  const allPairs = schedule.rounds.map(roundPairs);
+  const timesTogether = (key: string, kind: 'partners' | 'opponents') =>
+    allPairs.filter(pairs => pairs[kind].has(key)).length;
+  const pairNames = (key: string) =>
+    key
+      .split('|')
+      .map(id => playerName(players, id))
+      .join(' and ');
+
+  // Only pairs the swap brought together count; repeats the schedule already had are not news
+  for (const key of pairsAfter.partners) {
+    if (pairsBefore.partners.has(key)) {
+      continue;
+    }
+    if (isAvoidedPair(players, key, 'avoidPartnerIds')) {
+      warnings.push(`${pairNames(key)} are now partners, but are set to never partner`);
+    }
+    const times = timesTogether(key, 'partners');
+    if (times > 1) {
+      warnings.push(`${pairNames(key)} are now partners for the ${ordinal(times)} time`);
+    }
+  }
+  for (const key of pairsAfter.opponents) {
+    if (pairsBefore.opponents.has(key)) {
+      continue;
+    }
+    if (isAvoidedPair(players, key, 'avoidOpponentIds')) {
+      warnings.push(`${pairNames(key)} now face each other, but are set to never oppose`);
+    }
+    const times = timesTogether(key, 'opponents');
+    if (times > 1) {
+      warnings.push(`${pairNames(key)} now face each other for the ${ordinal(times)} time`);
+    }
+  }
+
+  const roundNumber = roundIndex + 1;
+  for (const id of movedIds) {
+    const name = playerName(players, id);
+    const isResting = schedule.restingPlayers[roundIndex]?.includes(id) ?? false;
+    if (!isResting && !isAvailable(schedule, id, roundNumber)) {
+      warnings.push(`${name} is not available in round ${roundNumber}`);
+    }
+    const restsNextTo = [roundIndex - 1, roundIndex + 1].some(index => schedule.restingPlayers[index]?.includes(id));
+    if (isResting && restsNextTo) {
+      warnings.push(`${name} now rests in back-to-back rounds`);
+    }
+  }
+  return warnings;
+}
+
+/**
+ * Whether a player can play in a round, given their attendance and the rounds they asked to sit out
+ */
+function isAvailable(schedule: GameSchedule, playerId: string, roundNumber: number): boolean {
+  const attendance = schedule.attendance?.[playerId];
+  if (attendance?.arrivesRound !== undefined && roundNumber < attendance.arrivesRound) {
+    return false;
+  }
+  if (attendance?.leavesAfterRound !== undefined && roundNumber > attendance.leavesAfterRound) {
+    return false;
+  }
+  return !schedule.options.unavailableRounds?.[playerId]?.includes(roundNumber);
+}
+
+/**
+ * Whether either player of an `a|b` pair has the other on a never-partner or never-opponent list
+ */
+function isAvoidedPair(players: Player[], key: string, list: 'avoidPartnerIds' | 'avoidOpponentIds'): boolean {
+  const [a, b] = key.split('|') as [string, string];
+  const avoids = (id: string, otherId: string) => players.find(p => p.id === id)?.[list]?.includes(otherId) ?? false;
+  return avoids(a, b) || avoids(b, a);
+}
+
+function hasScore(game: Game): boolean {
+  return game.team1Score !== undefined || game.team2Score !== undefined;
+}
+
+function playerName(players: Player[], id: string): string {
+  return players.find(p => p.id === id)?.name ?? 'Unknown Player';
+}
+
+function pairKey(a: string, b: string): string {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
+function ordinal(n: number): string {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : (['th', 'st', 'nd', 'rd'][n % 10] ?? 'th');
+  return `${n}${suffix}`;
+}
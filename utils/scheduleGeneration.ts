@@ -0,0 +1,95 @@
+import type { GameSchedule, GenerationProgress, MatchingOptions, PairingHistory, Player } from '~/types';
+import { fitCourts } from '~/utils/courtFormats';
+import { PickleballMatcher } from '~/utils/pickleballMatcher';
+import { mergePoolSchedules, poolOptions, splitIntoPools } from '~/utils/pools';
+
+/**
+ * Everything needed to generate a schedule, in a form that can be posted to a worker
+ */
+export interface ScheduleGenerationRequest {
+  players: Player[];
+  options: MatchingOptions;
+  priorHistory?: PairingHistory;
+  eventLabel: string;
+  /** An existing schedule to keep improving instead of starting a new one */
+  schedule?: GameSchedule;
+  /** Generate this many distinct schedules to compare instead of just the best one */
+  candidateCount?: number;
+}
+
+/** Messages posted back by the schedule generation worker */
+export type ScheduleWorkerMessage =
+  | { type: 'progress'; progress: GenerationProgress }
+  | { type: 'done'; schedule: GameSchedule }
+  | { type: 'candidates'; schedules: GameSchedule[] }
+  | { type: 'error'; message: string };
+
+/**
+ * Generate a schedule for the selected players, splitting them into pools when asked to,
+ * or keep improving the request's existing schedule
+ * @param request - Players, options and prior history to schedule with
+ * @param onProgress - Called as the search goes, with the pool being scheduled if there are pools
+ */
+export async function generateScheduleForRequest(
+  request: ScheduleGenerationRequest,
+  onProgress?: (progress: GenerationProgress) => void
+): Promise<GameSchedule> {
+  const { players, options, priorHistory, eventLabel, schedule } = request;
+
+  if (schedule) {
+    return await new PickleballMatcher(players, options, priorHistory, onProgress).improveSchedule(schedule);
+  }
+
+  if ((options.poolCount ?? 1) > 1) {
+    // Each pool gets its own schedule on its own courts, and a share of the search effort by size
+    const pools = splitIntoPools(players, options);
+    const schedules: GameSchedule[] = [];
+    for (const pool of pools) {
+      const poolPlayers = players.filter(p => pool.playerIds.includes(p.id));
+      const effortShare = poolPlayers.length / players.length;
+      const matcher = new PickleballMatcher(
+        poolPlayers,
+        { ...poolOptions(options, pool), effortShare },
+        priorHistory,
+        progress => onProgress?.({ ...progress, pool: pool.name })
+      );
+      schedules.push(await matcher.generateSchedule(eventLabel));
+    }
+    const lastCourt = Math.max(...pools.flatMap(pool => pool.courts));
+    return mergePoolSchedules(pools, schedules, { ...options, numberOfCourts: lastCourt }, eventLabel);
+  }
+
+  const matcher = new PickleballMatcher(players, fittedOptions(options, players.length), priorHistory, onProgress);
+  return await matcher.generateSchedule(eventLabel);
+}
+
+/**
+ * Generate several distinct schedules for the selected players, best first, to compare
+ * @param request - Players, options and prior history to schedule with, and how many schedules
+ * @param onProgress - Called as the search goes
+ */
+export async function generateCandidatesForRequest(
+  request: ScheduleGenerationRequest,
+  onProgress?: (progress: GenerationProgress) => void
+): Promise<GameSchedule[]> {
+  const { players, options, priorHistory, eventLabel, candidateCount } = request;
+
+  if ((options.poolCount ?? 1) > 1) {
+    throw new Error('Schedules with pools cannot be compared');
+  }
+
+  const matcher = new PickleballMatcher(players, fittedOptions(options, players.length), priorHistory, onProgress);
+  return await matcher.generateCandidates(eventLabel, candidateCount ?? 1);
+}
+
+/**
+ * Adjust options for generation, dropping trailing courts that can't be filled in any round
+ */
+function fittedOptions(options: MatchingOptions, playerCount: number): MatchingOptions {
+  let lastCourt = 0;
+  for (let round = 1; round <= options.numberOfRounds; round++) {
+    const fittedCourts = fitCourts(options, playerCount, round);
+    lastCourt = Math.max(lastCourt, fittedCourts[fittedCourts.length - 1] ?? 0);
+  }
+  return { ...options, numberOfCourts: lastCourt };
+}
@@ -0,0 +1,16 @@
+import type { MatchingOptions } from '~/types';
+import { getCourtCapacity } from '~/utils/courtFormats';
+
+/** Most courts a schedule can use */
+export const MAX_COURTS = 20;
+
+/** Most rounds a schedule can have */
+export const MAX_ROUNDS = 30;
+
+/**
+ * Most players who can sit out each round: 4, or a quarter of the players the courts hold
+ * when that is more, so big clubs can bring a few extra players for every four courts
+ */
+export function getMaxSittingOut(options: Pick<MatchingOptions, 'numberOfCourts' | 'courtFormats'>): number {
+  return Math.max(4, Math.ceil(getCourtCapacity(options) / 4));
+}
@@ -0,0 +1,14 @@
+import type { GameSchedule } from '~/types';
+
+/**
+ * Deep-copy a schedule into plain objects.
+ * Works for reactive proxies and for schedules loaded from JSON storage,
+ * where generatedAt comes back as a string.
+ * @param schedule - The schedule to copy
+ * @returns An independent copy with generatedAt as a Date
+ */
+export function cloneSchedule(schedule: GameSchedule): GameSchedule {
+  const copy = JSON.parse(JSON.stringify(schedule)) as GameSchedule;
+  copy.generatedAt = new Date(schedule.generatedAt);
+  return copy;
+}
@@ -0,0 +1,260 @@
+import type { GameSchedule, Player, ScoreComponent, ScoreComponentKey } from '~/types';
+
+/**
+ * One line of a schedule quality report
+ */
+export interface ScoreReportItem {
+  key: ScoreComponentKey;
+  label: string;
+  /** Weighted penalty, as counted in the schedule's score */
+  penalty: number;
+  /** Fraction of the whole score this item is responsible for (0-1) */
+  share: number;
+  /** Whether the schedule gave ground on this rule */
+  compromised: boolean;
+  /** What happened, and why when it can be told from the schedule */
+  explanation: string;
+}
+
+/** What each score component is called in reports and settings */
+export const SCORE_COMPONENT_LABELS: Record<ScoreComponentKey, string> = {
+  mixedDoubles: 'Mixed doubles teams',
+  restDistribution: 'Rest distribution',
+  restSpacing: 'Rest spacing',
+  partnerRepeats: 'Partner repeats',
+  consecutiveOpponents: 'Back-to-back opponents',
+  opponentRepeats: 'Opponent repeats',
+  opponentsAboveTwo: 'Opponents met 3+ times',
+  consecutiveCourts: 'Court repeats',
+  priorPartners: 'Partners from recent sessions',
+  priorOpponents: 'Opponents from recent sessions',
+  singlesBalance: 'Singles share',
+  skillBalance: 'Skill balance',
+  maxSkillDifference: 'Maximum skill difference',
+  couples: 'Partner preferences',
+  accessibleCourts: 'Accessible courts'
+};
+
+/**
+ * Turn a schedule's score breakdown into plain-language findings, worst first.
+ * Rules that were fully met are kept at the end so the report also shows what went right.
+ *
+ * @param schedule - A schedule with a `scoreBreakdown`
+ * @param players - Players in the schedule, for names and partner preferences
+ */
+export function describeScoreBreakdown(schedule: GameSchedule, players: Player[]): ScoreReportItem[] {
+  const breakdown = schedule.scoreBreakdown ?? [];
+  const total = breakdown.reduce((sum, component) => sum + component.penalty, 0);
+  const facts = new ScheduleFacts(schedule, players);
+
+  return breakdown
+    .map(component => ({
+      key: component.key,
+      label: SCORE_COMPONENT_LABELS[component.key],
+      penalty: component.penalty,
+      share: total > 0 ? component.penalty / total : 0,
+      compromised: component.raw > 0,
+      explanation: component.raw > 0 ? facts.explain(component) : facts.praise(component.key)
+    }))
+    .sort((a, b) => b.penalty - a.penalty);
+}
+
+/**
+ * Counts taken straight from the schedule, used to word the report
+ */
+class ScheduleFacts {
+  private readonly names: Map<string, string>;
+  private readonly playerIds: string[];
+  private readonly partnerCounts = new Map<string, number>();
+  private readonly opponentCounts = new Map<string, number>();
+  private readonly doublesGames: number;
+
+  constructor(
+    private schedule: GameSchedule,
+    private players: Player[]
+  ) {
+    this.names = new Map(players.map(p => [p.id, p.name]));
+    const ids = new Set<string>();
+    for (const game of schedule.rounds.flat()) {
+      for (const id of [...game.team1, ...game.team2]) {
+        ids.add(id);
+      }
+      for (const team of [game.team1, game.team2]) {
+        if (team.length === 2) {
+          this.bump(this.partnerCounts, team[0], team[1] as string);
+        }
+      }
+      for (const a of game.team1) {
+        for (const b of game.team2) {
+          this.bump(this.opponentCounts, a, b);
+        }
+      }
+    }
+    for (const id of schedule.restingPlayers.flat()) {
+      ids.add(id);
+    }
+    this.playerIds = [...ids];
+    this.doublesGames = schedule.rounds.flat().filter(game => game.team1.length === 2).length;
+  }
+
+  explain(component: ScoreComponent): string {
+    const n = this.playerIds.length;
+    switch (component.key) {
+      case 'partnerRepeats': {
+        const repeated = this.repeatedPairs(this.partnerCounts, 2);
+        const partnerships = this.doublesGames * 2;
+        const possible = (n * (n - 1)) / 2;
+        const why =
+          partnerships > possible
+            ? `${n} players only make ${possible} different partner pairs, but the schedule needs ${partnerships} partnerships, so some repeats can't be avoided.`
+            : 'Avoiding them would have cost more elsewhere, such as uneven rests.';
+        return `${this.pairList(repeated)} partnered more than once. ${why}`;
+      }
+      case 'opponentRepeats':
+      case 'opponentsAboveTwo': {
+        const minimum = component.key === 'opponentsAboveTwo' ? 3 : 2;
+        const repeated = this.repeatedPairs(this.opponentCounts, minimum);
+        const facedPerPlayer = n > 0 ? (this.doublesGames * 8) / n : 0;
+        const why =
+          facedPerPlayer > n - 1
+            ? `Each player faces about ${Math.round(facedPerPlayer)} opponents but there are only ${n - 1} other players, so repeats are unavoidable.`
+            : 'Spreading opponents further would have meant repeating partners or unbalancing rests.';
+        return `${this.pairList(repeated)} faced each other ${minimum === 3 ? 'three or more times' : 'more than once'}. ${why}`;
+      }
+      case 'consecutiveOpponents':
+        return 'Some players meet the same opponent in back-to-back rounds, or with only one round in between. With few players this is hard to avoid completely.';
+      case 'restDistribution': {
+        const rests = this.restCounts();
+        const values = [...rests.values()];
+        return `Players rest between ${Math.min(...values)} and ${Math.max(...values)} times. Rests usually differ by one at most; players who are unavailable for some rounds can push the spread wider.`;
+      }
+      case 'restSpacing': {
+        const backToBack = this.playerIds.filter(id => this.hasBackToBackRests(id)).map(id => this.name(id));
+        return backToBack.length > 0
+          ? `${this.nameList(backToBack)} rest${backToBack.length === 1 ? 's' : ''} in back-to-back rounds.`
+          : 'Some players have their rests bunched together rather than evenly spread through the session.';
+      }
+      case 'consecutiveCourts':
+        return 'Some players stay on the same court for back-to-back rounds. This only matters when courts differ, so it counts for little.';
+      case 'priorPartners':
+        return 'Some partnerships repeat ones from recent sessions. They were kept because the alternatives repeated partners within this session.';
+      case 'priorOpponents':
+        return 'Some players face opponents they met in recent sessions.';
+      case 'singlesBalance':
+        return 'Singles games are not shared evenly: some players play more singles than others by more than one game.';
+      case 'skillBalance': {
+        const games = this.schedule.rounds.flat();
+        const average =
+          games.length > 0 ? games.reduce((sum, game) => sum + game.skillDifference, 0) / games.length : 0;
+        return `Teams differ by ${average.toFixed(2)} in combined skill on average. Perfectly even games are traded for fewer repeats.`;
+      }
+      case 'maxSkillDifference': {
+        const limit = this.schedule.options.maxSkillDifference;
+        const over = this.schedule.rounds.flat().filter(game => game.skillDifference > limit).length;
+        return `${over} game${over === 1 ? ' goes' : 's go'} over the maximum skill difference of ${limit}. The spread of skill levels in the group leaves no even split for every game.`;
+      }
+      case 'couples': {
+        const missed = new Map<string, string>();
+        for (const player of this.players) {
+          const key = player.partnerId ? this.key(player.id, player.partnerId) : '';
+          if (
+            player.partnerId &&
+            this.playerIds.includes(player.id) &&
+            this.playerIds.includes(player.partnerId) &&
+            !this.partnerCounts.has(key)
+          ) {
+            missed.set(key, `${player.name} & ${this.name(player.partnerId)}`);
+          }
+        }
+        return `${this.pairList([...missed.values()])} never play together, even though they asked to. Their rests or the court count kept them apart.`;
+      }
+      case 'mixedDoubles':
+        return `${component.raw} more same-gender team${component.raw === 1 ? '' : 's'} than the player mix requires. Other rules outweighed a mixed team in those rounds.`;
+      case 'accessibleCourts':
+        return `${component.raw} game${component.raw === 1 ? ' is' : 's are'} played on a court that is not accessible by a player who needs one. Too many of them play at once for the accessible courts.`;
+    }
+  }
+
+  praise(key: ScoreComponentKey): string {
+    switch (key) {
+      case 'partnerRepeats':
+        return 'Nobody partners the same player twice.';
+      case 'opponentRepeats':
+        return 'Nobody faces the same opponent twice.';
+      case 'opponentsAboveTwo':
+        return 'No pair of players meets more than twice.';
+      case 'consecutiveOpponents':
+        return 'Nobody meets the same opponent in nearby rounds.';
+      case 'restDistribution':
+        return 'Rests are shared evenly.';
+      case 'restSpacing':
+        return 'Rests are evenly spaced through the session.';
+      case 'consecutiveCourts':
+        return 'Players move between courts every round.';
+      case 'priorPartners':
+        return 'No partnerships repeat ones from recent sessions.';
+      case 'priorOpponents':
+        return 'No opponents repeat ones from recent sessions.';
+      case 'singlesBalance':
+        return 'Singles games are shared evenly.';
+      case 'skillBalance':
+        return 'Every game is evenly matched.';
+      case 'maxSkillDifference':
+        return 'Every game is within the maximum skill difference.';
+      case 'couples':
+        return 'Everyone plays with their preferred partner at least once.';
+      case 'mixedDoubles':
+        return 'Every team is mixed where the player mix allows.';
+      case 'accessibleCourts':
+        return 'Everyone who needs an accessible court plays on one.';
+    }
+  }
+
+  private restCounts(): Map<string, number> {
+    const counts = new Map(this.playerIds.map(id => [id, 0]));
+    for (const id of this.schedule.restingPlayers.flat()) {
+      counts.set(id, (counts.get(id) ?? 0) + 1);
+    }
+    return counts;
+  }
+
+  private hasBackToBackRests(id: string): boolean {
+    return this.schedule.restingPlayers.some(
+      (rests, index) => index > 0 && rests.includes(id) && !!this.schedule.restingPlayers[index - 1]?.includes(id)
+    );
+  }
+
+  private repeatedPairs(counts: Map<string, number>, minimum: number): string[] {
+    return [...counts.entries()]
+      .filter(([, count]) => count >= minimum)
+      .sort((a, b) => b[1] - a[1])
+      .map(([key, count]) => {
+        const [a, b] = key.split('|') as [string, string];
+        return `${this.name(a)} & ${this.name(b)} (${count}×)`;
+      });
+  }
+
+  private pairList(pairs: string[]): string {
+    return pairs.length > 0 ? this.nameList(pairs) : 'Some players';
+  }
+
+  private nameList(items: string[]): string {
+    if (items.length > 3) {
+      return `${items.slice(0, 3).join(', ')} and ${items.length - 3} more`;
+    }
+    return items.join(', ');
+  }
+
+  private name(id: string): string {
+    return this.names.get(id) ?? 'Unknown Player';
+  }
+
+  private key(a: string, b: string): string {
+    return a < b ? `${a}|${b}` : `${b}|${a}`;
+  }
+
+  private bump(counts: Map<string, number>, a: string, b: string): void {
+    const key = this.key(a, b);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+}
@@ -0,0 +1,149 @@
+import type { ScoreComponentKey, ScoreWeights, ScoringProfile } from '~/types';
+
+/** Weight of each score component in the standard profile */
+export const DEFAULT_SCORE_WEIGHTS: Readonly<Record<ScoreComponentKey, number>> = {
+  mixedDoubles: 100000,
+  restDistribution: 10000,
+  restSpacing: 1000,
+  partnerRepeats: 2500,
+  consecutiveOpponents: 120,
+  opponentRepeats: 320,
+  opponentsAboveTwo: 30000,
+  consecutiveCourts: 30,
+  priorPartners: 1500,
+  priorOpponents: 100,
+  singlesBalance: 100000,
+  skillBalance: 5,
+  maxSkillDifference: 100,
+  couples: 1000,
+  accessibleCourts: 100000
+};
+
+/** Profile used when none is picked, or the picked one no longer exists */
+export const STANDARD_SCORING_PROFILE_ID = 'standard';
+
+/** Most a single weight can be set to */
+export const MAX_SCORE_WEIGHT = 1000000;
+
+/** Profiles every organizer starts with, as changes from the standard weights */
+const BUILT_IN_PROFILES: ReadonlyArray<{ id: string; name: string; weights: ScoreWeights }> = [
+  { id: STANDARD_SCORING_PROFILE_ID, name: 'Standard', weights: {} },
+  {
+    // Meet as many people as possible; close games matter less
+    id: 'social',
+    name: 'Social mixer',
+    weights: {
+      partnerRepeats: 5000,
+      consecutiveOpponents: 240,
+      opponentRepeats: 640,
+      opponentsAboveTwo: 60000,
+      consecutiveCourts: 60,
+      skillBalance: 1,
+      maxSkillDifference: 20
+    }
+  },
+  {
+    // Evenly matched games first, at the cost of seeing the same faces more often
+    id: 'competitive',
+    name: 'Competitive',
+    weights: {
+      partnerRepeats: 1500,
+      consecutiveOpponents: 80,
+      opponentRepeats: 200,
+      skillBalance: 50,
+      maxSkillDifference: 2000
+    }
+  },
+  {
+    // Gentle games with regular breaks, and fewer court moves for coaches to follow
+    id: 'beginners',
+    name: 'Beginners clinic',
+    weights: {
+      restDistribution: 20000,
+      restSpacing: 2000,
+      consecutiveCourts: 10,
+      skillBalance: 20,
+      maxSkillDifference: 1000
+    }
+  }
+];
+
+/**
+ * A built-in profile with every weight filled in, or undefined if the ID is not a built-in one
+ */
+export function getBuiltInScoringProfile(id: string): ScoringProfile | undefined {
+  const profile = BUILT_IN_PROFILES.find(builtIn => builtIn.id === id);
+  if (!profile) {
+    return undefined;
+  }
+  return {
+    id: profile.id,
+    name: profile.name,
+    weights: { ...DEFAULT_SCORE_WEIGHTS, ...profile.weights },
+    builtIn: true
+  };
+}
+
+/**
+ * The built-in profiles, for organizers who have not saved any of their own
+ */
+export function getDefaultScoringProfiles(): ScoringProfile[] {
+  return BUILT_IN_PROFILES.map(profile => getBuiltInScoringProfile(profile.id) as ScoringProfile);
+}
+
+/**
+ * The profile with an ID, falling back to the standard profile
+ */
+export function findScoringProfile(profiles: readonly ScoringProfile[], id: string | undefined): ScoringProfile {
+  return (
+    profiles.find(profile => profile.id === id) ??
+    profiles.find(profile => profile.id === STANDARD_SCORING_PROFILE_ID) ??
+    (getBuiltInScoringProfile(STANDARD_SCORING_PROFILE_ID) as ScoringProfile)
+  );
+}
+
+/**
+ * Keep only known components with a weight from 0 to `MAX_SCORE_WEIGHT`
+ */
+export function normalizeScoreWeights(value: unknown): ScoreWeights {
+  const weights: ScoreWeights = {};
+  if (!value || typeof value !== 'object') {
+    return weights;
+  }
+  for (const key of Object.keys(DEFAULT_SCORE_WEIGHTS) as ScoreComponentKey[]) {
+    const weight = (value as Record<string, unknown>)[key];
+    if (typeof weight === 'number' && Number.isFinite(weight)) {
+      weights[key] = Math.min(MAX_SCORE_WEIGHT, Math.max(0, weight));
+    }
+  }
+  return weights;
+}
+
+/**
+ * Profiles read back from saved preferences. Broken entries are dropped, missing weights get
+ * their standard value, and any built-in profile that is missing is added back.
+ */
+export function normalizeScoringProfiles(value: unknown): ScoringProfile[] {
+  const saved = new Map<string, ScoringProfile>();
+  for (const raw of Array.isArray(value) ? value : []) {
+    const profile = (raw ?? {}) as Partial<ScoringProfile>;
+    if (typeof profile.id !== 'string' || !profile.id || saved.has(profile.id)) {
+      continue;
+    }
+    const builtIn = getBuiltInScoringProfile(profile.id);
+    const name = typeof profile.name === 'string' ? profile.name.trim() : '';
+    if (!name && !builtIn) {
+      continue;
+    }
+    saved.set(profile.id, {
+      id: profile.id,
+      name: name || (builtIn?.name ?? ''),
+      weights: { ...DEFAULT_SCORE_WEIGHTS, ...normalizeScoreWeights(profile.weights) },
+      ...(builtIn ? { builtIn: true } : {})
+    });
+  }
+
+  const builtIns = getDefaultScoringProfiles().map(profile => saved.get(profile.id) ?? profile);
+  const custom = [...saved.values()].filter(profile => !profile.builtIn);
+  return [...builtIns, ...custom];
+}
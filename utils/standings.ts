@@ -0,0 +1,134 @@
+import type { GameResult, PlayerStanding, ResultSession } from '~/types';
+
+/**
+ * Which results to include when computing standings.
+ * - session: only games from one generated schedule
+ * - season: all games played in a calendar year
+ * - all: every recorded game
+ */
+export type StandingsScope =
+  | { type: 'session'; scheduleId: string }
+  | { type: 'season'; year: number }
+  | { type: 'all' };
+
+/**
+ * Filter results down to those covered by a standings scope
+ * @param results - All recorded game results
+ * @param scope - The session, season or all-time scope
+ * @returns The results that fall inside the scope
+ */
+export function filterResultsByScope(results: GameResult[], scope: StandingsScope): GameResult[] {
+  if (scope.type === 'session') {
+    return results.filter(result => result.scheduleId === scope.scheduleId);
+  }
+  if (scope.type === 'season') {
+    return results.filter(result => new Date(result.playedAt).getFullYear() === scope.year);
+  }
+  return [...results];
+}
+
+function createStanding(playerId: string): PlayerStanding {
+  return {
+    playerId,
+    gamesPlayed: 0,
+    wins: 0,
+    losses: 0,
+    ties: 0,
+    pointsFor: 0,
+    pointsAgainst: 0,
+    pointDifferential: 0,
+    winPercentage: 0
+  };
+}
+
+function recordTeam(
+  standings: Map<string, PlayerStanding>,
+  team: string[],
+  pointsFor: number,
+  pointsAgainst: number
+): void {
+  for (const playerId of team) {
+    const standing = standings.get(playerId) ?? createStanding(playerId);
+    standing.gamesPlayed++;
+    standing.pointsFor += pointsFor;
+    standing.pointsAgainst += pointsAgainst;
+    if (pointsFor > pointsAgainst) {
+      standing.wins++;
+    } else if (pointsFor < pointsAgainst) {
+      standing.losses++;
+    } else {
+      standing.ties++;
+    }
+    standings.set(playerId, standing);
+  }
+}
+
+/**
+ * Compute per-player standings from recorded results.
+ *
+ * In a rotating mixer every player has different partners each game, so each
+ * player is credited individually with their team's result and points. Players
+ * are ranked by win percentage, then point differential, then points scored.
+ *
+ * @param results - The game results to include
+ * @returns Standings sorted from first to last place
+ */
+export function computeStandings(results: GameResult[]): PlayerStanding[] {
+  const standings = new Map<string, PlayerStanding>();
+
+  for (const result of results) {
+    recordTeam(standings, result.team1, result.team1Score, result.team2Score);
+    recordTeam(standings, result.team2, result.team2Score, result.team1Score);
+  }
+
+  const list = Array.from(standings.values());
+  for (const standing of list) {
+    standing.pointDifferential = standing.pointsFor - standing.pointsAgainst;
+    standing.winPercentage = standing.gamesPlayed > 0 ? (standing.wins + standing.ties / 2) / standing.gamesPlayed : 0;
+  }
+
+  return list.sort(
+    (a, b) =>
+      b.winPercentage - a.winPercentage ||
+      b.pointDifferential - a.pointDifferential ||
+      b.pointsFor - a.pointsFor ||
+      a.playerId.localeCompare(b.playerId)
+  );
+}
+
+/**
+ * List the sessions that have recorded results, most recent first
+ * @param results - All recorded game results
+ */
+export function getResultSessions(results: GameResult[]): ResultSession[] {
+  const sessions = new Map<string, ResultSession>();
+
+  for (const result of results) {
+    const playedAt = new Date(result.playedAt);
+    const session = sessions.get(result.scheduleId);
+    if (!session) {
+      sessions.set(result.scheduleId, {
+        scheduleId: result.scheduleId,
+        eventLabel: result.eventLabel,
+        playedAt,
+        gameCount: 1
+      });
+    } else {
+      session.gameCount++;
+      if (playedAt < session.playedAt) {
+        session.playedAt = playedAt;
+      }
+    }
+  }
+
+  return Array.from(sessions.values()).sort((a, b) => b.playedAt.getTime() - a.playedAt.getTime());
+}
+
+/**
+ * List the calendar years that have recorded results, most recent first
+ * @param results - All recorded game results
+ */
+export function getResultSeasons(results: GameResult[]): number[] {
+  const years = new Set(results.map(result => new Date(result.playedAt).getFullYear()));
+  return Array.from(years).sort((a, b) => b - a);
+}
@@ -10,7 +10,9 @@ export default defineConfig({
   },
   resolve: {
     alias: {
-      '~': resolve(__dirname, './')
+      '~': resolve(__dirname, './'),
+      // Resolves like it does in Nuxt; tests/unit/setup.ts mocks it
+      '#app': 'nuxt/app'
     }
   }
 });
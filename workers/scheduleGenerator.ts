@@ -0,0 +1,28 @@
+import type { GenerationProgress } from '~/types';
+import {
+  generateCandidatesForRequest,
+  generateScheduleForRequest,
+  type ScheduleGenerationRequest,
+  type ScheduleWorkerMessage
+} from '~/utils/scheduleGeneration';
+
+/**
+ * Runs schedule generation off the main thread so the page stays responsive.
+ * The worker handles a single request; cancelling means terminating it.
+ */
+function post(message: ScheduleWorkerMessage): void {
+  self.postMessage(message);
+}
+
+self.addEventListener('message', async (event: MessageEvent<ScheduleGenerationRequest>) => {
+  const onProgress = (progress: GenerationProgress) => post({ type: 'progress', progress });
+  try {
+    if (event.data.candidateCount) {
+      post({ type: 'candidates', schedules: await generateCandidatesForRequest(event.data, onProgress) });
+    } else {
+      post({ type: 'done', schedule: await generateScheduleForRequest(event.data, onProgress) });
+    }
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : 'Failed to generate schedule' });
+  }
+});